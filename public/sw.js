@@ -0,0 +1,63 @@
+// Offline shell for the switcher. The app only ever talks to OBS over the LAN,
+// so once the page and its bundles are cached it runs with no internet at all.
+// Bump the version to drop everything cached by older builds.
+const CACHE = 'bane-switcher-v1';
+const SHELL_URL = new URL('./', self.location).href;
+const STATIC_FILES = ['./manifest.webmanifest', './icon.svg', './icon-maskable.svg'];
+
+// index.html names the hashed bundles of this build; they're cached along with the page
+const fetchShell = async () => {
+  const response = await fetch(SHELL_URL, { cache: 'no-cache' });
+  const html = await response.clone().text();
+  const assets = [...html.matchAll(/(?:src|href)="([^"]+)"/g)]
+    .map(match => new URL(match[1], SHELL_URL))
+    .filter(url => url.origin === self.location.origin)
+    .map(url => url.href);
+  return { response, assets };
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE);
+    const { response, assets } = await fetchShell();
+    await cache.put(SHELL_URL, response);
+    await cache.addAll([...new Set([...STATIC_FILES, ...assets])]);
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+// Pages: network first so a redeploy shows on the next load, the cached shell when offline.
+// Other same-origin files: cache first, filled as they're fetched; hashed names never change content.
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith((async () => {
+      try {
+        const response = await fetch(request);
+        if (response.ok) (await caches.open(CACHE)).put(SHELL_URL, response.clone());
+        return response;
+      } catch {
+        return (await caches.match(SHELL_URL)) ?? Response.error();
+      }
+    })());
+    return;
+  }
+
+  event.respondWith((async () => {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok) (await caches.open(CACHE)).put(request, response.clone());
+    return response;
+  })());
+});
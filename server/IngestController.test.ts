@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import OBSWebSocket from 'obs-websocket-js/json';
+import { IngestController } from '../src/obs/IngestController';
+import type { LinkItem } from '../src/types';
+import { startFakeObs } from './fakeObs';
+import type { FakeObsOptions, FakeObsServer } from './fakeObs';
+
+// Probes poll once a second, so a switch takes a couple of seconds against the fake
+const SWITCH_TIMEOUT_MS = 15000;
+
+const link = (url: string): LinkItem => ({ id: url, name: url, url });
+
+let obs: FakeObsServer | null = null;
+let controller: IngestController | null = null;
+
+const connect = async (options: FakeObsOptions) => {
+  obs = await startFakeObs(options);
+  controller = new IngestController({ label: 'Test', client: new OBSWebSocket() });
+  const connected = await controller.connect({ address: '127.0.0.1', port: String(obs.port), password: '' });
+  expect(connected).toBe(true);
+  return { obs, controller };
+};
+
+afterEach(async () => {
+  controller?.destroy();
+  await obs?.close();
+  controller = null;
+  obs = null;
+});
+
+describe('IngestController against the fake OBS', () => {
+  it('connects and lists sources, scenes and what program shows', async () => {
+    const { controller } = await connect({
+      inputs: { Camera: { kind: 'ffmpeg_source', settings: { input: 'srt://cam:9000', is_local_file: false } } },
+      scenes: { Main: ['Camera'] },
+    });
+    const state = controller.getState();
+    expect(state.isConnected).toBe(true);
+    expect(state.sources).toEqual([{ name: 'Camera', kind: 'ffmpeg_source' }]);
+    expect(state.sourceUrls).toEqual({ Camera: 'srt://cam:9000' });
+    expect(state.scenes).toEqual(['Main']);
+    expect(state.programScene).toBe('Main');
+    expect(state.programInputs).toEqual(['Camera']);
+  });
+
+  it('leaves the probe-first staging inputs and scene out', async () => {
+    const { controller } = await connect({
+      inputs: {
+        Camera: { kind: 'ffmpeg_source' },
+        'Bane Probe (ffmpeg_source)': { kind: 'ffmpeg_source' },
+      },
+      scenes: { Main: ['Camera'], 'Bane Probe': ['Bane Probe (ffmpeg_source)'] },
+    });
+    const state = controller.getState();
+    expect(state.sources.map(source => source.name)).toEqual(['Camera']);
+    expect(state.scenes).toEqual(['Main']);
+  });
+
+  it('reads and writes VLC playlists', async () => {
+    const { obs, controller } = await connect({
+      inputs: { Playlist: { kind: 'vlc_source', settings: { playlist: [{ value: 'rtmp://old/live', hidden: false, selected: false }] } } },
+      scenes: { Main: ['Playlist'] },
+    });
+    expect(controller.getState().sourceUrls.Playlist).toBe('rtmp://old/live');
+
+    const result = await controller.switchInput({ name: 'Playlist', kind: 'vlc_source' }, link('rtmp://new/live'));
+    expect(result).toEqual({ switched: true, health: 'healthy', error: null });
+    expect(obs.inputs.get('Playlist')?.settings.playlist).toEqual([{ value: 'rtmp://new/live', hidden: false, selected: false }]);
+    expect(await controller.fetchActiveUrl('Playlist')).toBe('rtmp://new/live');
+  }, SWITCH_TIMEOUT_MS);
+
+  it('loads network URLs into the ffmpeg input and files into local_file', async () => {
+    const { obs, controller } = await connect({ inputs: { Media: { kind: 'ffmpeg_source' } }, scenes: { Main: ['Media'] } });
+    const source = { name: 'Media', kind: 'ffmpeg_source' };
+
+    await controller.switchInput(source, link('srt://remote:9000'));
+    expect(obs.inputs.get('Media')?.settings).toMatchObject({ input: 'srt://remote:9000', is_local_file: false });
+
+    await controller.switchInput(source, link('/media/clip.mp4'));
+    expect(obs.inputs.get('Media')?.settings).toMatchObject({ local_file: '/media/clip.mp4', is_local_file: true });
+    expect(controller.getState().sourceUrls.Media).toBe('/media/clip.mp4');
+  }, SWITCH_TIMEOUT_MS);
+
+  it('keeps the current source on air when probe-first finds the new URL dead', async () => {
+    const { obs, controller } = await connect({
+      inputs: { Camera: { kind: 'ffmpeg_source', settings: { input: 'srt://cam:9000', is_local_file: false } } },
+      scenes: { Main: ['Camera'] },
+    });
+
+    const result = await controller.switchInput({ name: 'Camera', kind: 'ffmpeg_source' }, link('srt://offline:9000'), { probeFirst: true });
+    expect(result.switched).toBe(false);
+    expect(result.health).toBe('failed');
+    expect(obs.inputs.get('Camera')?.settings.input).toBe('srt://cam:9000');
+    expect(controller.getState().sourceUrls.Camera).toBe('srt://cam:9000');
+    expect(controller.getState().sources.map(source => source.name)).toEqual(['Camera']);
+  }, SWITCH_TIMEOUT_MS);
+
+  it('reconnects on its own after OBS drops the connection', async () => {
+    const { obs, controller } = await connect({ inputs: { Camera: { kind: 'ffmpeg_source' } }, scenes: { Main: ['Camera'] } });
+
+    obs.dropClients();
+    await vi.waitFor(() => expect(controller.getState().isConnected).toBe(false));
+    await vi.waitFor(() => expect(controller.getState().isConnected).toBe(true), { timeout: 5000 });
+    expect(controller.identified).toBe(true);
+    expect(controller.getState().sources).toEqual([{ name: 'Camera', kind: 'ffmpeg_source' }]);
+  }, SWITCH_TIMEOUT_MS);
+});
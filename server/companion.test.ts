@@ -0,0 +1,156 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { WebSocket } from 'ws';
+import { startCompanion } from './companion';
+import type { CompanionServer } from './companion';
+import type { LinkItem } from '../src/types';
+import { startFakeObs } from './fakeObs';
+import type { FakeObsServer } from './fakeObs';
+
+const TOKEN = 'test-token';
+// A successful switch waits on a health probe, which polls once a second
+const SWITCH_TIMEOUT_MS = 15000;
+
+let obs: FakeObsServer | null = null;
+let companion: CompanionServer | null = null;
+let socket: WebSocket | null = null;
+
+// A companion on a live fake OBS with Camera on program, synced the way the app would
+const start = async (sync: Record<string, unknown>, linksFile?: string) => {
+  obs = await startFakeObs({
+    inputs: { Camera: { kind: 'ffmpeg_source', settings: { input: 'srt://cam:9000', is_local_file: false } } },
+    scenes: { Main: ['Camera'] },
+    live: true,
+  });
+  companion = await startCompanion({ port: 0, token: TOKEN, linksFile, obs: { address: '127.0.0.1', port: String(obs.port), password: '' } });
+  const server = companion;
+  await vi.waitFor(() => expect(server.controller.getState().programInputs).toEqual(['Camera']));
+
+  const ws = new WebSocket(`${server.url.replace(/^http/, 'ws')}/events?token=${TOKEN}`);
+  socket = ws;
+  await new Promise(resolve => ws.once('open', resolve));
+  ws.send(JSON.stringify({ type: 'sync', defaultSource: 'Camera', ...sync }));
+  await vi.waitFor(() => expect(server.getLinks().length).toBeGreaterThan(0));
+  return server;
+};
+
+const request = (server: CompanionServer, path: string, method = 'GET') =>
+  fetch(`${server.url}${path}`, { method, headers: { Authorization: `Bearer ${TOKEN}` } });
+const post = (server: CompanionServer, path: string) => request(server, path, 'POST');
+
+// Status the event socket upgrade answers with: 101 when it opens
+const upgradeStatus = (url: string, headers?: Record<string, string>) => new Promise<number>((resolve, reject) => {
+  const ws = new WebSocket(url, { headers });
+  ws.once('open', () => {
+    ws.close();
+    resolve(101);
+  });
+  ws.once('unexpected-response', (req, res) => {
+    req.destroy();
+    resolve(res.statusCode ?? 0);
+  });
+  ws.once('error', reject);
+});
+
+afterEach(async () => {
+  socket?.close();
+  await companion?.close();
+  await obs?.close();
+  socket = null;
+  companion = null;
+  obs = null;
+});
+
+describe('companion auth', () => {
+  const links = [{ id: 'slate', name: 'Slate', url: 'srt://slate:9000', safe: true }];
+
+  it('refuses HTTP requests without the right token', async () => {
+    const server = await start({ links });
+    expect((await fetch(`${server.url}/links`)).status).toBe(401);
+    expect((await fetch(`${server.url}/links`, { headers: { Authorization: 'Bearer wrong' } })).status).toBe(401);
+    expect((await fetch(`${server.url}/links?token=wrong`)).status).toBe(401);
+    expect((await fetch(`${server.url}/switch/slate`, { method: 'POST' })).status).toBe(401);
+    expect(obs?.inputs.get('Camera')?.settings.input).toBe('srt://cam:9000');
+  });
+
+  it('takes the token as a bearer header or a query parameter', async () => {
+    const server = await start({ links });
+    expect((await request(server, '/links')).status).toBe(200);
+    expect((await fetch(`${server.url}/links?token=${TOKEN}`)).status).toBe(200);
+  });
+
+  it('refuses the event socket upgrade without the right token', async () => {
+    const server = await start({ links });
+    const events = `${server.url.replace(/^http/, 'ws')}/events`;
+    expect(await upgradeStatus(events)).toBe(401);
+    expect(await upgradeStatus(`${events}?token=wrong`)).toBe(401);
+    expect(await upgradeStatus(events, { Authorization: 'Bearer wrong' })).toBe(401);
+    expect(await upgradeStatus(`${events}?token=${TOKEN}`)).toBe(101);
+    expect(await upgradeStatus(events, { Authorization: `Bearer ${TOKEN}` })).toBe(101);
+  });
+});
+
+describe('companion switching rules', () => {
+  const links = [
+    { id: 'backup', name: 'Backup', url: 'srt://backup:9000' },
+    { id: 'slate', name: 'Slate', url: 'srt://slate:9000', safe: true },
+  ];
+
+  it('refuses a link not marked safe on a source on air while streaming', async () => {
+    const server = await start({ links, liveGuard: 'confirm' });
+    const res = await post(server, '/switch/backup');
+    expect(res.status).toBe(409);
+    expect(obs?.inputs.get('Camera')?.settings.input).toBe('srt://cam:9000');
+  });
+
+  it('switches safe links while streaming, and anything with the guard off', async () => {
+    const server = await start({ links, liveGuard: 'block' });
+    expect((await post(server, '/switch/slate')).status).toBe(200);
+    expect(obs?.inputs.get('Camera')?.settings.input).toBe('srt://slate:9000');
+
+    socket?.send(JSON.stringify({ type: 'sync', links, defaultSource: 'Camera', liveGuard: 'off' }));
+    await vi.waitFor(async () => expect((await post(server, '/switch/backup')).status).toBe(200), { timeout: SWITCH_TIMEOUT_MS });
+    expect(obs?.inputs.get('Camera')?.settings.input).toBe('srt://backup:9000');
+  }, SWITCH_TIMEOUT_MS);
+
+  it('refuses every switch while another operator holds control', async () => {
+    const server = await start({ links, liveGuard: 'off', lockedBy: 'Sam' });
+    const res = await post(server, '/switch/slate');
+    expect(res.status).toBe(409);
+    expect(await res.json()).toEqual({ error: 'Sam has control.' });
+  });
+});
+
+describe('companion secrets', () => {
+  const links = [{ id: 'remote', name: 'Remote', url: 'srt://remote:9000?passphrase={key}' }];
+  const variables = [{ name: 'key', value: 'hunter22', secret: true }];
+  let dir: string | null = null;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  it('resolves templates only at switch time and never saves or serves secret values', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'companion-'));
+    const linksFile = join(dir, 'links.json');
+    const server = await start({ links, variables, liveGuard: 'off' }, linksFile);
+
+    const listed = await (await request(server, '/links')).json() as { links: LinkItem[] };
+    expect(listed.links[0].url).toBe('srt://remote:9000?passphrase={key}');
+    await vi.waitFor(async () => expect(await readFile(linksFile, 'utf8')).toContain('"remote"'));
+    expect(await readFile(linksFile, 'utf8')).not.toContain('hunter22');
+
+    expect((await post(server, '/switch/remote')).status).toBe(200);
+    expect(obs?.inputs.get('Camera')?.settings.input).toBe('srt://remote:9000?passphrase=hunter22');
+  }, SWITCH_TIMEOUT_MS);
+
+  it('refuses links whose variables it does not know', async () => {
+    const server = await start({ links, liveGuard: 'off' });
+    const res = await post(server, '/switch/remote');
+    expect(res.status).toBe(409);
+    expect(await res.json()).toEqual({ error: '"Remote" needs {key} defined.' });
+  });
+});
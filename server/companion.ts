@@ -0,0 +1,310 @@
+/**
+ * Companion server: lets chat bots, Bitfocus Companion and scripts trigger switches without the UI.
+ *
+ * It keeps its own OBS connection through the same IngestController the browser app uses, and the link
+ * list the app pushes over the event socket (saved to a JSON file so switching works with the app closed).
+ * Links stay templates and are only resolved at switch time. Secret variable values live in memory: they are
+ * never saved, served or broadcast, so after a restart links that need them wait for the app to sync again.
+ *
+ *   GET  /links                     links as templates, plus the active link per source
+ *   GET  /sources                   compatible inputs on the connected OBS
+ *   POST /switch/:linkId?source=…   switch a source to a link; defaults to the app's selected source.
+ *                                   409 while another operator holds control, or when the live guard
+ *                                   refuses a link not marked safe on a source on program while streaming
+ *   WS   /events                    { type: 'hello' | 'links' | 'active', … } stream
+ *
+ * Event socket clients may send `{ type: 'sync', links, variables, groups, defaultSource, liveGuard, lockedBy }`
+ * to replace the link list, template variables and switching rules; the app does this whenever any of them change. Until it has, the guard is on
+ * and nobody holds control.
+ *
+ * Every request needs the token, either as `Authorization: Bearer <token>` or `?token=` (browsers can't
+ * set WebSocket headers). Any origin may call it, so browser-based controllers work from anywhere; the token
+ * is the only gate. It listens on 127.0.0.1 unless COMPANION_HOST says otherwise: set it to 0.0.0.0 only to
+ * take switches from other machines on a network you trust. Run `npm run companion`, configured through
+ * COMPANION_HOST, COMPANION_PORT, COMPANION_TOKEN, COMPANION_LINKS_FILE, OBS_ADDRESS, OBS_PORT and OBS_PASSWORD.
+ */
+import { createServer } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import { readFile, writeFile } from 'node:fs/promises';
+import { pathToFileURL } from 'node:url';
+import { WebSocketServer } from 'ws';
+import type { WebSocket } from 'ws';
+import OBSWebSocket from 'obs-websocket-js/json';
+import type { LinkGroup, LinkItem, LiveGuard, TemplateVariable } from '../src/types';
+import { sanitizeLinkList } from '../src/linkSettings';
+import { sanitizeGroupList } from '../src/groups';
+import { maskSecrets, resolveTemplate, sanitizeVariables, secretValues, variableScope, withoutSecrets } from '../src/variables';
+import { IngestController, getErrorMessage, getReconnectDelay } from '../src/obs/IngestController';
+import type { ConnectionParams } from '../src/obs/IngestController';
+
+export const DEFAULT_COMPANION_PORT = 4460;
+export const DEFAULT_COMPANION_HOST = '127.0.0.1';
+
+export type CompanionOptions = {
+  // Interface to listen on; loopback unless other machines need to reach it
+  host?: string;
+  port?: number;
+  token: string;
+  obs: ConnectionParams;
+  // Where synced links and non-secret variables are kept between runs; in memory only when omitted
+  linksFile?: string;
+};
+
+export type CompanionServer = {
+  url: string;
+  port: number;
+  controller: IngestController;
+  getLinks: () => LinkItem[];
+  close: () => Promise<void>;
+};
+
+export type CompanionEvent =
+  | { type: 'hello'; links: LinkItem[]; active: Record<string, string | null> }
+  | { type: 'links'; links: LinkItem[] }
+  | { type: 'active'; sourceName: string; linkId: string | null; url: string | null; at: number };
+
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+// Compares digests so neither the length nor the content of the token leaks through timing
+const isTokenValid = (token: string, candidate: string | null) =>
+  candidate !== null && timingSafeEqual(digest(token), digest(candidate));
+
+const readToken = (req: IncomingMessage, url: URL) => {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Bearer ')) return header.slice('Bearer '.length);
+  return url.searchParams.get('token');
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const LIVE_GUARDS: LiveGuard[] = ['off', 'confirm', 'block'];
+
+type Library = { links: LinkItem[]; variables: TemplateVariable[]; groups: LinkGroup[] };
+
+const EMPTY_LIBRARY: Library = { links: [], variables: [], groups: [] };
+
+// Older files hold just the link array
+const loadLibrary = async (linksFile?: string): Promise<Library> => {
+  if (!linksFile) return EMPTY_LIBRARY;
+  try {
+    const raw: unknown = JSON.parse(await readFile(linksFile, 'utf8'));
+    if (Array.isArray(raw)) return { ...EMPTY_LIBRARY, links: sanitizeLinkList(raw) };
+    const { links, variables, groups } = (raw ?? {}) as Record<string, unknown>;
+    return { links: sanitizeLinkList(links), variables: sanitizeVariables(variables), groups: sanitizeGroupList(groups) };
+  } catch {
+    return EMPTY_LIBRARY;
+  }
+};
+
+export async function startCompanion({ host = DEFAULT_COMPANION_HOST, port = DEFAULT_COMPANION_PORT, token, obs, linksFile }: CompanionOptions): Promise<CompanionServer> {
+  if (!token) throw new Error("A companion token is required.");
+
+  let { links, variables, groups } = await loadLibrary(linksFile);
+  let defaultSource: string | null = null;
+  // Nobody can confirm a switch here, so 'confirm' refuses like 'block'
+  let liveGuard: LiveGuard = 'confirm';
+  // Operator holding control in another browser, as the app reported it
+  let lockedBy: string | null = null;
+  // Source name -> id of the link whose URL it plays
+  const active = new Map<string, string | null>();
+  // Latest switch per source; an older switch still probing stops reporting once superseded
+  const switchGenerations = new Map<string, number>();
+
+  // The JSON build speaks the same API as the browser one; only the Node default (msgpack) differs on the wire
+  const controller = new IngestController({ label: 'Companion', client: new OBSWebSocket() });
+  const wss = new WebSocketServer({ noServer: true });
+
+  const broadcast = (event: CompanionEvent) => {
+    const message = JSON.stringify(event);
+    wss.clients.forEach(client => client.send(message));
+  };
+
+  // A link's URL as it goes to OBS: placeholders filled from the globals and its group's overrides
+  const resolveLink = (link: LinkItem) =>
+    resolveTemplate(link.url, variableScope(variables, groups.find(g => g.id === link.groupId)));
+  const masked = (text: string) => maskSecrets(text, secretValues(variables, groups));
+
+  const refreshActive = async (sourceName: string) => {
+    const url = await controller.fetchActiveUrl(sourceName);
+    const linkId = links.find(l => resolveLink(l).url === url)?.id ?? null;
+    if (active.has(sourceName) && active.get(sourceName) === linkId) return;
+    active.set(sourceName, linkId);
+    broadcast({ type: 'active', sourceName, linkId, url: url && masked(url), at: Date.now() });
+  };
+
+  const refreshAllActive = () => Promise.all(controller.getState().sources.map(s => refreshActive(s.name)));
+
+  controller.on('InputSettingsChanged', event => {
+    if (controller.findSource(event.inputName)) refreshActive(event.inputName);
+  });
+
+  // Resync once sources are known after every (re)connect
+  let sourcesKey = '';
+  controller.subscribe(state => {
+    const key = state.isConnected ? state.sources.map(s => s.name).join('\n') : '';
+    if (key === sourcesKey) return;
+    sourcesKey = key;
+    if (key) refreshAllActive();
+  });
+
+  const syncState = async ({ links: rawLinks, variables: rawVariables, groups: rawGroups, defaultSource: source, liveGuard: guard, lockedBy: holder }: Record<string, unknown>) => {
+    links = sanitizeLinkList(rawLinks);
+    variables = sanitizeVariables(rawVariables);
+    groups = sanitizeGroupList(rawGroups);
+    if (typeof source === 'string') defaultSource = source || null;
+    if (LIVE_GUARDS.includes(guard as LiveGuard)) liveGuard = guard as LiveGuard;
+    lockedBy = typeof holder === 'string' && holder ? holder : null;
+    if (linksFile) {
+      await writeFile(linksFile, JSON.stringify({ links, ...withoutSecrets(variables, groups) }, null, 2)).catch(error => console.error("Failed to save links", error));
+    }
+    broadcast({ type: 'links', links });
+    await refreshAllActive();
+  };
+
+  const switchLink = async (linkId: string, requestedSource: string | null) => {
+    if (!controller.identified) throw new HttpError(503, "OBS is not connected.");
+    const link = links.find(l => l.id === linkId);
+    if (!link) throw new HttpError(404, `No link with id "${linkId}".`);
+
+    const sourceName = requestedSource ?? defaultSource ?? controller.getState().sources[0]?.name;
+    const source = sourceName ? controller.findSource(sourceName) : undefined;
+    if (!source) throw new HttpError(404, `No compatible source named "${sourceName ?? ''}".`);
+    if (lockedBy) throw new HttpError(409, `${lockedBy} has control.`);
+    if (liveGuard !== 'off' && !link.safe && controller.getState().programInputs.includes(source.name)) {
+      const output = await controller.fetchOutputStatus(null);
+      if (!output) throw new HttpError(503, "Could not read the stream status.");
+      if (output.streaming) throw new HttpError(409, `Live: only links marked safe can switch ${source.name} while streaming.`);
+    }
+
+    const { url, missing } = resolveLink(link);
+    if (missing.length > 0) throw new HttpError(409, `"${link.name}" needs ${missing.map(name => `{${name}}`).join(', ')} defined.`);
+
+    const generation = (switchGenerations.get(source.name) ?? 0) + 1;
+    switchGenerations.set(source.name, generation);
+    const result = await controller.switchInput(source, { ...link, url }, {
+      isCancelled: () => switchGenerations.get(source.name) !== generation,
+    });
+    return { linkId: link.id, sourceName: source.name, ...result, error: result.error && masked(result.error) };
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const switchMatch = /^\/switch\/([^/]+)$/.exec(url.pathname);
+    if (req.method === 'GET' && url.pathname === '/links') {
+      return sendJson(res, 200, { links, active: Object.fromEntries(active) });
+    }
+    if (req.method === 'GET' && url.pathname === '/sources') {
+      return sendJson(res, 200, { connected: controller.identified, sources: controller.getState().sources, defaultSource });
+    }
+    if (req.method === 'POST' && switchMatch) {
+      const result = await switchLink(decodeURIComponent(switchMatch[1]), url.searchParams.get('source'));
+      return sendJson(res, result.switched ? 200 : 502, result);
+    }
+    throw new HttpError(404, "Not found.");
+  };
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    // Allow browser-based controllers on other origins; the token still gates every request
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+    if (!isTokenValid(token, readToken(req, url))) {
+      sendJson(res, 401, { error: "Invalid or missing token." });
+      return;
+    }
+    handleRequest(req, res, url).catch(error => {
+      const status = error instanceof HttpError ? error.status : 500;
+      sendJson(res, status, { error: getErrorMessage(error, "Request failed.") });
+    });
+  });
+
+  server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== '/events' || !isTokenValid(token, readToken(req, url))) {
+      socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n');
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, client => wss.emit('connection', client, req));
+  });
+
+  wss.on('connection', (client: WebSocket) => {
+    client.send(JSON.stringify({ type: 'hello', links, active: Object.fromEntries(active) } satisfies CompanionEvent));
+    client.on('message', raw => {
+      try {
+        const message = JSON.parse(raw.toString()) as Record<string, unknown>;
+        if (message.type === 'sync') syncState(message);
+      } catch {
+        client.close(1003, "Invalid message.");
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => resolve());
+  });
+  const address = server.address();
+  const boundPort = typeof address === 'object' && address ? address.port : port;
+  // A wildcard bind is reachable on loopback too; IPv6 literals need brackets in a URL
+  const urlHost = host === '0.0.0.0' || host === '::' ? '127.0.0.1' : host.includes(':') ? `[${host}]` : host;
+
+  // The controller only auto-reconnects after a first successful connect, so retry until then
+  let closed = false;
+  let connectTimer: ReturnType<typeof setTimeout> | null = null;
+  const connectObs = async (attempt: number) => {
+    if (closed || await controller.connect(obs)) return;
+    const delay = getReconnectDelay(attempt);
+    console.warn(`Companion could not reach OBS at ${obs.address}:${obs.port} (${controller.getState().connError}); retrying in ${Math.round(delay / 1000)}s`);
+    if (!closed) connectTimer = setTimeout(() => connectObs(attempt + 1), delay);
+  };
+  connectObs(1);
+
+  return {
+    url: `http://${urlHost}:${boundPort}`,
+    port: boundPort,
+    controller,
+    getLinks: () => links,
+    close: () => new Promise<void>((resolve, reject) => {
+      closed = true;
+      if (connectTimer) clearTimeout(connectTimer);
+      controller.destroy();
+      wss.clients.forEach(client => client.terminate());
+      server.close(error => (error ? reject(error) : resolve()));
+    }),
+  };
+}
+
+// --- CLI: `npm run companion` ---
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const token = process.env.COMPANION_TOKEN || randomBytes(18).toString('base64url');
+  const companion = await startCompanion({
+    host: process.env.COMPANION_HOST || DEFAULT_COMPANION_HOST,
+    port: Number(process.env.COMPANION_PORT ?? DEFAULT_COMPANION_PORT),
+    token,
+    linksFile: process.env.COMPANION_LINKS_FILE ?? 'companion-links.json',
+    obs: {
+      address: process.env.OBS_ADDRESS ?? 'localhost',
+      port: process.env.OBS_PORT ?? '4455',
+      password: process.env.OBS_PASSWORD ?? '',
+    },
+  });
+  console.log(`Companion listening on ${companion.url}`);
+  if (!process.env.COMPANION_TOKEN) console.log(`Generated token (set COMPANION_TOKEN to keep one): ${token}`);
+}
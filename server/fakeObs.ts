@@ -0,0 +1,752 @@
+/**
+ * In-process fake of an obs-websocket v5 server (JSON protocol).
+ *
+ * Implements the handshake, authentication and the subset of requests the switcher uses, over a small
+ * in-memory model of inputs and scenes. Import `startFakeObs` to drive it from scripts, or run
+ * `npm run fake-obs` to point the UI at a pretend OBS.
+ *
+ * Only the JSON subprotocol is spoken, so Node clients must use the `obs-websocket-js/json` build
+ * (the package's default Node export is msgpack).
+ *
+ * Conventions: a URL containing "offline" makes the input's media state go to error, and screenshots
+ * are solid white while an input is playing and solid black otherwise.
+ */
+import { createHash, randomBytes } from 'node:crypto';
+import { deflateSync } from 'node:zlib';
+import { pathToFileURL } from 'node:url';
+import { WebSocketServer } from 'ws';
+import type { WebSocket } from 'ws';
+
+const SUBPROTOCOL = 'obswebsocket.json';
+
+const OP = {
+  Hello: 0,
+  Identify: 1,
+  Identified: 2,
+  Reidentify: 3,
+  Event: 5,
+  Request: 6,
+  RequestResponse: 7,
+  RequestBatch: 8,
+  RequestBatchResponse: 9,
+} as const;
+
+// obs-websocket RequestStatus codes used here
+const STATUS = {
+  Success: 100,
+  MissingRequestField: 300,
+  RequestFieldOutOfRange: 402,
+  UnknownRequestType: 204,
+  ResourceNotFound: 600,
+  ResourceAlreadyExists: 601,
+  StudioModeNotActive: 506,
+  OutputRunning: 500,
+  OutputNotRunning: 501,
+} as const;
+
+// EventSubscription bit for the high-volume InputVolumeMeters event
+const INPUT_VOLUME_METERS = 1 << 16;
+
+type Json = Record<string, unknown>;
+
+export type FakeInput = {
+  uuid: string;
+  kind: string;
+  settings: Json;
+  mediaState: string;
+  // Audio state; unset reads as OBS defaults (0 dB, unmuted, monitoring off)
+  volumeMul?: number;
+  muted?: boolean;
+  monitorType?: string;
+};
+
+export type FakeSceneItem = {
+  sceneItemId: number;
+  sourceName: string;
+  sceneItemEnabled: boolean;
+  // Only the fields SetSceneItemTransform has written; the rest read as OBS defaults
+  transform?: Json;
+};
+
+export type FakeScene = {
+  uuid: string;
+  name: string;
+  items: FakeSceneItem[];
+};
+
+export type FakeObsOptions = {
+  port?: number;
+  password?: string;
+  inputs?: Record<string, { kind: string; settings?: Json }>;
+  // Scene name -> names of inputs placed in it
+  scenes?: Record<string, string[]>;
+  // Transition names; the first is current
+  transitions?: string[];
+  studioMode?: boolean;
+  // Start with the stream and recording outputs running
+  live?: boolean;
+};
+
+export type FakeRequestHandler = (data: Json, obs: FakeObsServer) => Json | void;
+
+export type FakeObsServer = {
+  url: string;
+  port: number;
+  inputs: Map<string, FakeInput>;
+  scenes: FakeScene[];
+  state: {
+    currentProgramSceneName: string | null;
+    // Only meaningful while Studio Mode is on
+    currentPreviewSceneName: string | null;
+    studioModeEnabled: boolean;
+    currentTransitionName: string;
+    currentTransitionDuration: number;
+    // Start times of the stream and recording outputs; null while stopped
+    streamStartedAt: number | null;
+    recordStartedAt: number | null;
+  };
+  // CreateRecordChapter names, in order
+  recordChapters: string[];
+  transitions: string[];
+  // SetPersistentData slots, keyed by `${realm}/${slotName}`
+  persistentData: Map<string, unknown>;
+  // Every request received, in order, for assertions
+  requests: { requestType: string; requestData: Json }[];
+  // Request implementations; add or replace entries to extend the fake
+  handlers: Map<string, FakeRequestHandler>;
+  emit: (eventType: string, eventData?: Json) => void;
+  setMediaState: (inputName: string, mediaState: string) => void;
+  // Closes every client socket, as if OBS quit
+  dropClients: () => void;
+  close: () => Promise<void>;
+};
+
+export class FakeRequestError extends Error {
+  readonly code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+// --- Solid-colour PNGs for GetSourceScreenshot ---
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (buf: Buffer) => {
+  let c = 0xffffffff;
+  for (const byte of buf) c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Buffer) => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+const solidPng = (value: number, size = 8) => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(size, 0);
+  header.writeUInt32BE(size, 4);
+  header.writeUInt8(8, 8); // bit depth
+  header.writeUInt8(2, 9); // truecolour RGB
+  const row = Buffer.concat([Buffer.from([0]), Buffer.alloc(size * 3, value)]);
+  const pixels = deflateSync(Buffer.concat(Array.from({ length: size }, () => row)));
+  const png = Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', pixels),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+  return `data:image/png;base64,${png.toString('base64')}`;
+};
+
+const WHITE_FRAME = solidPng(255);
+const BLACK_FRAME = solidPng(0);
+
+// --- Helpers ---
+const sha256 = (value: string) => createHash('sha256').update(value).digest('base64');
+
+const newUuid = () => randomBytes(16).toString('hex');
+
+const requireString = (data: Json, field: string) => {
+  const value = data[field];
+  if (typeof value !== 'string' || !value) {
+    throw new FakeRequestError(STATUS.MissingRequestField, `Your request is missing the \`${field}\` field.`);
+  }
+  return value;
+};
+
+const getInput = (obs: FakeObsServer, data: Json) => {
+  const inputName = requireString(data, 'inputName');
+  const input = obs.inputs.get(inputName);
+  if (!input) throw new FakeRequestError(STATUS.ResourceNotFound, `No source was found by the name of \`${inputName}\`.`);
+  return { inputName, input };
+};
+
+const getScene = (obs: FakeObsServer, data: Json) => {
+  const sceneName = requireString(data, 'sceneName');
+  const scene = obs.scenes.find(s => s.name === sceneName);
+  if (!scene) throw new FakeRequestError(STATUS.ResourceNotFound, `No source was found by the name of \`${sceneName}\`.`);
+  return scene;
+};
+
+// Media state OBS would settle on for the given settings
+// Whatever the input's kind plays from: ffmpeg local file or network input, browser/custom url, image file, VLC playlist
+const playingUrlOf = (settings: Json) => {
+  const playlist = Array.isArray(settings.playlist) ? settings.playlist as { value?: unknown }[] : [];
+  const file = settings.is_local_file === false ? settings.input : settings.local_file;
+  return String(file || settings.url || settings.file || playlist[0]?.value || '');
+};
+
+const mediaStateFor = (settings: Json) => {
+  const url = playingUrlOf(settings);
+  if (!url) return 'OBS_MEDIA_STATE_NONE';
+  return url.includes('offline') ? 'OBS_MEDIA_STATE_ERROR' : 'OBS_MEDIA_STATE_PLAYING';
+};
+
+let nextSceneItemId = 1;
+
+// Outputs grow at a steady 6 Mbps
+const FAKE_BYTES_PER_MS = 750;
+
+const outputElapsed = (startedAt: number | null) => (startedAt === null ? 0 : Date.now() - startedAt);
+
+// HH:MM:SS.mmm, as OBS reports output timecodes
+const timecode = (ms: number) => {
+  const pad = (n: number, width = 2) => String(Math.floor(n)).padStart(width, '0');
+  return `${pad(ms / 3600000)}:${pad((ms / 60000) % 60)}:${pad((ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+};
+
+const CANVAS = { width: 1920, height: 1080 };
+
+const DEFAULT_TRANSFORM: Json = {
+  positionX: 0,
+  positionY: 0,
+  rotation: 0,
+  scaleX: 1,
+  scaleY: 1,
+  width: CANVAS.width,
+  height: CANVAS.height,
+  sourceWidth: CANVAS.width,
+  sourceHeight: CANVAS.height,
+  alignment: 5,
+  boundsType: 'OBS_BOUNDS_NONE',
+  boundsAlignment: 0,
+  boundsWidth: 0,
+  boundsHeight: 0,
+  cropLeft: 0,
+  cropRight: 0,
+  cropTop: 0,
+  cropBottom: 0,
+};
+
+const getSceneItem = (obs: FakeObsServer, data: Json) => {
+  const scene = getScene(obs, data);
+  const item = scene.items.find(i => i.sceneItemId === data.sceneItemId);
+  if (!item) throw new FakeRequestError(STATUS.ResourceNotFound, 'No scene items were found in the specified scene by that ID.');
+  return { scene, item };
+};
+
+const defaultHandlers: Record<string, FakeRequestHandler> = {
+  GetVersion: () => ({
+    obsVersion: '30.0.0',
+    obsWebSocketVersion: '5.3.0',
+    rpcVersion: 1,
+    availableRequests: [],
+    supportedImageFormats: ['png', 'jpg'],
+    platform: 'fake',
+    platformDescription: 'Bane fake OBS',
+  }),
+
+  GetInputList: (data, obs) => ({
+    inputs: [...obs.inputs.entries()]
+      .filter(([, input]) => !data.inputKind || input.kind === data.inputKind)
+      .map(([inputName, input]) => ({ inputName, inputUuid: input.uuid, inputKind: input.kind, unversionedInputKind: input.kind })),
+  }),
+
+  GetInputSettings: (data, obs) => {
+    const { input } = getInput(obs, data);
+    return { inputSettings: { ...input.settings }, inputKind: input.kind };
+  },
+
+  SetInputSettings: (data, obs) => {
+    const { inputName, input } = getInput(obs, data);
+    const settings = (data.inputSettings ?? {}) as Json;
+    input.settings = data.overlay === false ? { ...settings } : { ...input.settings, ...settings };
+    input.mediaState = mediaStateFor(input.settings);
+    obs.emit('InputSettingsChanged', { inputName, inputUuid: input.uuid, inputSettings: { ...input.settings } });
+  },
+
+  GetMediaInputStatus: (data, obs) => {
+    const { input } = getInput(obs, data);
+    const playing = input.mediaState === 'OBS_MEDIA_STATE_PLAYING';
+    return { mediaState: input.mediaState, mediaDuration: playing ? 0 : null, mediaCursor: playing ? 0 : null };
+  },
+
+  GetSourceScreenshot: (data, obs) => {
+    const sourceName = requireString(data, 'sourceName');
+    const input = obs.inputs.get(sourceName);
+    if (!input && !obs.scenes.some(s => s.name === sourceName)) {
+      throw new FakeRequestError(STATUS.ResourceNotFound, `No source was found by the name of \`${sourceName}\`.`);
+    }
+    const visible = !input || input.mediaState === 'OBS_MEDIA_STATE_PLAYING' || (input.kind === 'browser_source' && !!input.settings.url);
+    return { imageData: visible ? WHITE_FRAME : BLACK_FRAME };
+  },
+
+  GetSceneList: (_data, obs) => ({
+    currentProgramSceneName: obs.state.currentProgramSceneName,
+    currentProgramSceneUuid: obs.scenes.find(s => s.name === obs.state.currentProgramSceneName)?.uuid ?? null,
+    currentPreviewSceneName: obs.state.studioModeEnabled ? obs.state.currentPreviewSceneName : null,
+    currentPreviewSceneUuid: obs.state.studioModeEnabled ? obs.scenes.find(s => s.name === obs.state.currentPreviewSceneName)?.uuid ?? null : null,
+    // OBS lists scenes bottom-up
+    scenes: obs.scenes.map((scene, index) => ({ sceneName: scene.name, sceneUuid: scene.uuid, sceneIndex: obs.scenes.length - 1 - index })).reverse(),
+  }),
+
+  CreateScene: (data, obs) => {
+    const sceneName = requireString(data, 'sceneName');
+    if (obs.scenes.some(s => s.name === sceneName)) {
+      throw new FakeRequestError(STATUS.ResourceAlreadyExists, 'A source already exists by that scene name.');
+    }
+    const scene = { uuid: newUuid(), name: sceneName, items: [] };
+    obs.scenes.push(scene);
+    obs.emit('SceneCreated', { sceneName, sceneUuid: scene.uuid, isGroup: false });
+    return { sceneUuid: scene.uuid };
+  },
+
+  CreateInput: (data, obs) => {
+    const inputName = requireString(data, 'inputName');
+    const inputKind = requireString(data, 'inputKind');
+    const scene = getScene(obs, data);
+    if (obs.inputs.has(inputName)) {
+      throw new FakeRequestError(STATUS.ResourceAlreadyExists, 'A source already exists by that input name.');
+    }
+    const settings = (data.inputSettings ?? {}) as Json;
+    const input = { uuid: newUuid(), kind: inputKind, settings: { ...settings }, mediaState: mediaStateFor(settings) };
+    obs.inputs.set(inputName, input);
+    const item = { sceneItemId: nextSceneItemId++, sourceName: inputName, sceneItemEnabled: data.sceneItemEnabled !== false };
+    scene.items.push(item);
+    obs.emit('InputCreated', { inputName, inputUuid: input.uuid, inputKind, unversionedInputKind: inputKind, inputSettings: input.settings, defaultInputSettings: {} });
+    obs.emit('SceneItemCreated', { sceneName: scene.name, sceneUuid: scene.uuid, sourceName: inputName, sourceUuid: input.uuid, sceneItemId: item.sceneItemId, sceneItemIndex: scene.items.length - 1 });
+    return { inputUuid: input.uuid, sceneItemId: item.sceneItemId };
+  },
+
+  SetInputName: (data, obs) => {
+    const { inputName: oldInputName, input } = getInput(obs, data);
+    const inputName = requireString(data, 'newInputName');
+    if (obs.inputs.has(inputName)) {
+      throw new FakeRequestError(STATUS.ResourceAlreadyExists, 'A source already exists by that new input name.');
+    }
+    obs.inputs.delete(oldInputName);
+    obs.inputs.set(inputName, input);
+    obs.scenes.forEach(scene => scene.items.forEach(item => {
+      if (item.sourceName === oldInputName) item.sourceName = inputName;
+    }));
+    obs.emit('InputNameChanged', { inputUuid: input.uuid, oldInputName, inputName });
+  },
+
+  GetSceneItemList: (data, obs) => ({
+    sceneItems: getScene(obs, data).items.map((item, index) => ({
+      sceneItemId: item.sceneItemId,
+      sceneItemIndex: index,
+      sceneItemEnabled: item.sceneItemEnabled,
+      sourceName: item.sourceName,
+      sourceType: obs.scenes.some(s => s.name === item.sourceName) ? 'OBS_SOURCE_TYPE_SCENE' : 'OBS_SOURCE_TYPE_INPUT',
+      inputKind: obs.inputs.get(item.sourceName)?.kind ?? null,
+      isGroup: null,
+    })),
+  }),
+
+  GetSceneItemId: (data, obs) => {
+    const scene = getScene(obs, data);
+    const sourceName = requireString(data, 'sourceName');
+    const item = scene.items.find(i => i.sourceName === sourceName);
+    if (!item) throw new FakeRequestError(STATUS.ResourceNotFound, 'No scene items were found in the specified scene by that name.');
+    return { sceneItemId: item.sceneItemId };
+  },
+
+  GetSceneItemTransform: (data, obs) => {
+    const { item } = getSceneItem(obs, data);
+    return { sceneItemTransform: { ...DEFAULT_TRANSFORM, ...item.transform } };
+  },
+
+  // Same bounds check as OBS: a bounds size below 1 is rejected whatever the bounds type
+  SetSceneItemTransform: (data, obs) => {
+    const { scene, item } = getSceneItem(obs, data);
+    const transform = (data.sceneItemTransform ?? {}) as Json;
+    (['boundsWidth', 'boundsHeight'] as const).forEach(field => {
+      if (field in transform && !(Number(transform[field]) >= 1)) {
+        throw new FakeRequestError(STATUS.RequestFieldOutOfRange, `The field \`${field}\` is below the minimum of \`1\``);
+      }
+    });
+    item.transform = { ...item.transform, ...transform };
+    obs.emit('SceneItemTransformChanged', { sceneName: scene.name, sceneUuid: scene.uuid, sceneItemId: item.sceneItemId, sceneItemTransform: { ...DEFAULT_TRANSFORM, ...item.transform } });
+  },
+
+  GetVideoSettings: () => ({
+    fpsNumerator: 30,
+    fpsDenominator: 1,
+    baseWidth: CANVAS.width,
+    baseHeight: CANVAS.height,
+    outputWidth: CANVAS.width,
+    outputHeight: CANVAS.height,
+  }),
+
+  SetSceneItemEnabled: (data, obs) => {
+    const { scene, item } = getSceneItem(obs, data);
+    item.sceneItemEnabled = data.sceneItemEnabled === true;
+    obs.emit('SceneItemEnableStateChanged', { sceneName: scene.name, sceneUuid: scene.uuid, sceneItemId: item.sceneItemId, sceneItemEnabled: item.sceneItemEnabled });
+  },
+
+  SetCurrentProgramScene: (data, obs) => {
+    const scene = getScene(obs, data);
+    obs.state.currentProgramSceneName = scene.name;
+    obs.emit('CurrentProgramSceneChanged', { sceneName: scene.name, sceneUuid: scene.uuid });
+  },
+
+  GetStudioModeEnabled: (_data, obs) => ({ studioModeEnabled: obs.state.studioModeEnabled }),
+
+  SetStudioModeEnabled: (data, obs) => {
+    obs.state.studioModeEnabled = data.studioModeEnabled === true;
+    // OBS starts preview on the program scene
+    if (obs.state.studioModeEnabled) obs.state.currentPreviewSceneName = obs.state.currentProgramSceneName;
+    obs.emit('StudioModeStateChanged', { studioModeEnabled: obs.state.studioModeEnabled });
+  },
+
+  SetCurrentPreviewScene: (data, obs) => {
+    if (!obs.state.studioModeEnabled) throw new FakeRequestError(STATUS.StudioModeNotActive, 'Studio mode is not active.');
+    const scene = getScene(obs, data);
+    obs.state.currentPreviewSceneName = scene.name;
+    obs.emit('CurrentPreviewSceneChanged', { sceneName: scene.name, sceneUuid: scene.uuid });
+  },
+
+  // Swaps program and preview, like OBS with "swap scenes" enabled
+  TriggerStudioModeTransition: (_data, obs) => {
+    if (!obs.state.studioModeEnabled) throw new FakeRequestError(STATUS.StudioModeNotActive, 'Studio mode is not active.');
+    const { currentProgramSceneName: program, currentPreviewSceneName: preview } = obs.state;
+    obs.state.currentProgramSceneName = preview;
+    obs.state.currentPreviewSceneName = program;
+    const uuidOf = (name: string | null) => obs.scenes.find(s => s.name === name)?.uuid ?? null;
+    obs.emit('CurrentProgramSceneChanged', { sceneName: preview, sceneUuid: uuidOf(preview) });
+    obs.emit('CurrentPreviewSceneChanged', { sceneName: program, sceneUuid: uuidOf(program) });
+  },
+
+  GetSceneTransitionList: (_data, obs) => ({
+    currentSceneTransitionName: obs.state.currentTransitionName,
+    currentSceneTransitionUuid: null,
+    currentSceneTransitionKind: null,
+    transitions: obs.transitions.map(transitionName => ({
+      transitionName,
+      transitionUuid: null,
+      transitionKind: transitionName === 'Cut' ? 'cut_transition' : 'fade_transition',
+      transitionFixed: transitionName === 'Cut',
+      transitionConfigurable: transitionName !== 'Cut',
+    })),
+  }),
+
+  SetCurrentSceneTransition: (data, obs) => {
+    const transitionName = requireString(data, 'transitionName');
+    if (!obs.transitions.includes(transitionName)) {
+      throw new FakeRequestError(STATUS.ResourceNotFound, 'No transition was found by that name.');
+    }
+    obs.state.currentTransitionName = transitionName;
+    obs.emit('CurrentSceneTransitionChanged', { transitionName, transitionUuid: null });
+  },
+
+  SetCurrentSceneTransitionDuration: (data, obs) => {
+    if (typeof data.transitionDuration !== 'number') {
+      throw new FakeRequestError(STATUS.MissingRequestField, 'Your request is missing the `transitionDuration` field.');
+    }
+    obs.state.currentTransitionDuration = data.transitionDuration;
+    obs.emit('CurrentSceneTransitionDurationChanged', { transitionDuration: data.transitionDuration });
+  },
+
+  GetInputVolume: (data, obs) => {
+    const { input } = getInput(obs, data);
+    const inputVolumeMul = input.volumeMul ?? 1;
+    return { inputVolumeMul, inputVolumeDb: inputVolumeMul > 0 ? 20 * Math.log10(inputVolumeMul) : -100 };
+  },
+
+  SetInputVolume: (data, obs) => {
+    const { inputName, input } = getInput(obs, data);
+    if (typeof data.inputVolumeMul === 'number') input.volumeMul = data.inputVolumeMul;
+    else if (typeof data.inputVolumeDb === 'number') input.volumeMul = data.inputVolumeDb <= -100 ? 0 : 10 ** (data.inputVolumeDb / 20);
+    else throw new FakeRequestError(STATUS.MissingRequestField, 'You must specify one volume parameter.');
+    const inputVolumeMul = input.volumeMul;
+    obs.emit('InputVolumeChanged', { inputName, inputUuid: input.uuid, inputVolumeMul, inputVolumeDb: inputVolumeMul > 0 ? 20 * Math.log10(inputVolumeMul) : -100 });
+  },
+
+  GetInputMute: (data, obs) => ({ inputMuted: getInput(obs, data).input.muted ?? false }),
+
+  SetInputMute: (data, obs) => {
+    const { inputName, input } = getInput(obs, data);
+    input.muted = data.inputMuted === true;
+    obs.emit('InputMuteStateChanged', { inputName, inputUuid: input.uuid, inputMuted: input.muted });
+  },
+
+  GetInputAudioMonitorType: (data, obs) => ({ monitorType: getInput(obs, data).input.monitorType ?? 'OBS_MONITORING_TYPE_NONE' }),
+
+  SetInputAudioMonitorType: (data, obs) => {
+    const { inputName, input } = getInput(obs, data);
+    input.monitorType = requireString(data, 'monitorType');
+    obs.emit('InputAudioMonitorTypeChanged', { inputName, inputUuid: input.uuid, monitorType: input.monitorType });
+  },
+
+  GetStreamStatus: (_data, obs) => {
+    const elapsed = outputElapsed(obs.state.streamStartedAt);
+    const totalFrames = Math.floor(elapsed / 1000 * 30);
+    return {
+      outputActive: obs.state.streamStartedAt !== null,
+      outputReconnecting: false,
+      outputTimecode: timecode(elapsed),
+      outputDuration: elapsed,
+      outputCongestion: 0,
+      outputBytes: elapsed * FAKE_BYTES_PER_MS,
+      outputSkippedFrames: Math.floor(totalFrames / 500),
+      outputTotalFrames: totalFrames,
+    };
+  },
+
+  GetRecordStatus: (_data, obs) => {
+    const elapsed = outputElapsed(obs.state.recordStartedAt);
+    return {
+      outputActive: obs.state.recordStartedAt !== null,
+      outputPaused: false,
+      outputTimecode: timecode(elapsed),
+      outputDuration: elapsed,
+      outputBytes: elapsed * FAKE_BYTES_PER_MS,
+    };
+  },
+
+  GetStats: () => ({
+    cpuUsage: 4.2,
+    memoryUsage: 512,
+    availableDiskSpace: 100000,
+    activeFps: 30,
+    averageFrameRenderTime: 1.5,
+    renderSkippedFrames: 0,
+    renderTotalFrames: 1000,
+    outputSkippedFrames: 0,
+    outputTotalFrames: 1000,
+    webSocketSessionIncomingMessages: 0,
+    webSocketSessionOutgoingMessages: 0,
+  }),
+
+  StartStream: (_data, obs) => {
+    if (obs.state.streamStartedAt !== null) throw new FakeRequestError(STATUS.OutputRunning, 'The stream output is already running.');
+    obs.state.streamStartedAt = Date.now();
+    obs.emit('StreamStateChanged', { outputActive: true, outputState: 'OBS_WEBSOCKET_OUTPUT_STARTED' });
+  },
+
+  StopStream: (_data, obs) => {
+    if (obs.state.streamStartedAt === null) throw new FakeRequestError(STATUS.OutputNotRunning, 'The stream output is not running.');
+    obs.state.streamStartedAt = null;
+    obs.emit('StreamStateChanged', { outputActive: false, outputState: 'OBS_WEBSOCKET_OUTPUT_STOPPED' });
+  },
+
+  StartRecord: (_data, obs) => {
+    if (obs.state.recordStartedAt !== null) throw new FakeRequestError(STATUS.OutputRunning, 'The record output is already running.');
+    obs.state.recordStartedAt = Date.now();
+    obs.emit('RecordStateChanged', { outputActive: true, outputState: 'OBS_WEBSOCKET_OUTPUT_STARTED', outputPath: null });
+  },
+
+  StopRecord: (_data, obs) => {
+    if (obs.state.recordStartedAt === null) throw new FakeRequestError(STATUS.OutputNotRunning, 'The record output is not running.');
+    obs.state.recordStartedAt = null;
+    obs.emit('RecordStateChanged', { outputActive: false, outputState: 'OBS_WEBSOCKET_OUTPUT_STOPPED', outputPath: 'fake-recording.mp4' });
+    return { outputPath: 'fake-recording.mp4' };
+  },
+
+  CreateRecordChapter: (data, obs) => {
+    if (obs.state.recordStartedAt === null) throw new FakeRequestError(STATUS.OutputNotRunning, 'The record output is not running.');
+    obs.recordChapters.push(typeof data.chapterName === 'string' ? data.chapterName : `Chapter ${obs.recordChapters.length + 1}`);
+  },
+
+  GetPersistentData: (data, obs) => ({
+    slotValue: obs.persistentData.get(`${requireString(data, 'realm')}/${requireString(data, 'slotName')}`) ?? null,
+  }),
+
+  SetPersistentData: (data, obs) => {
+    obs.persistentData.set(`${requireString(data, 'realm')}/${requireString(data, 'slotName')}`, data.slotValue ?? null);
+  },
+
+  BroadcastCustomEvent: (data, obs) => {
+    if (!data.eventData || typeof data.eventData !== 'object') {
+      throw new FakeRequestError(STATUS.MissingRequestField, 'Your request is missing the `eventData` field.');
+    }
+    obs.emit('CustomEvent', { eventData: data.eventData });
+  },
+
+  RemoveInput: (data, obs) => {
+    const { inputName, input } = getInput(obs, data);
+    obs.inputs.delete(inputName);
+    obs.scenes.forEach(scene => { scene.items = scene.items.filter(item => item.sourceName !== inputName); });
+    obs.emit('InputRemoved', { inputName, inputUuid: input.uuid });
+  },
+};
+
+export async function startFakeObs({ port = 0, password, inputs = {}, scenes = {}, transitions = ['Cut', 'Fade'], studioMode = false, live = false }: FakeObsOptions = {}): Promise<FakeObsServer> {
+  const wss = new WebSocketServer({
+    port,
+    handleProtocols: protocols => (protocols.has(SUBPROTOCOL) ? SUBPROTOCOL : false),
+  });
+  await new Promise<void>((resolve, reject) => {
+    wss.once('listening', resolve);
+    wss.once('error', reject);
+  });
+
+  // Identified sockets and their event subscriptions
+  const identified = new Map<WebSocket, number>();
+  const address = wss.address();
+  const boundPort = typeof address === 'object' && address ? address.port : port;
+
+  const obs: FakeObsServer = {
+    url: `ws://127.0.0.1:${boundPort}`,
+    port: boundPort,
+    inputs: new Map(Object.entries(inputs).map(([name, { kind, settings = {} }]) => [
+      name,
+      { uuid: newUuid(), kind, settings: { ...settings }, mediaState: mediaStateFor(settings) },
+    ])),
+    scenes: Object.entries(scenes).map(([name, sourceNames]) => ({
+      uuid: newUuid(),
+      name,
+      items: sourceNames.map(sourceName => ({ sceneItemId: nextSceneItemId++, sourceName, sceneItemEnabled: true })),
+    })),
+    state: {
+      currentProgramSceneName: Object.keys(scenes)[0] ?? null,
+      currentPreviewSceneName: Object.keys(scenes)[1] ?? Object.keys(scenes)[0] ?? null,
+      studioModeEnabled: studioMode,
+      currentTransitionName: transitions[0] ?? 'Cut',
+      currentTransitionDuration: 300,
+      streamStartedAt: live ? Date.now() : null,
+      recordStartedAt: live ? Date.now() : null,
+    },
+    recordChapters: [],
+    transitions: [...transitions],
+    persistentData: new Map(),
+    requests: [],
+    handlers: new Map(Object.entries(defaultHandlers)),
+    emit: (eventType, eventData = {}) => {
+      const message = JSON.stringify({ op: OP.Event, d: { eventType, eventIntent: 0, eventData } });
+      identified.forEach((subscriptions, socket) => {
+        if (eventType === 'InputVolumeMeters' && !(subscriptions & INPUT_VOLUME_METERS)) return;
+        socket.send(message);
+      });
+    },
+    setMediaState: (inputName, mediaState) => {
+      const input = obs.inputs.get(inputName);
+      if (!input) return;
+      input.mediaState = mediaState;
+      if (mediaState === 'OBS_MEDIA_STATE_ENDED') {
+        obs.emit('MediaInputPlaybackEnded', { inputName, inputUuid: input.uuid });
+      }
+    },
+    dropClients: () => {
+      wss.clients.forEach(socket => socket.terminate());
+    },
+    close: () => new Promise<void>((resolve, reject) => {
+      wss.clients.forEach(socket => socket.terminate());
+      wss.close(error => (error ? reject(error) : resolve()));
+    }),
+  };
+
+  const runRequest = (requestType: string, requestData: Json) => {
+    obs.requests.push({ requestType, requestData });
+    const handler = obs.handlers.get(requestType);
+    try {
+      if (!handler) throw new FakeRequestError(STATUS.UnknownRequestType, `Your request type is not valid.`);
+      const responseData = handler(requestData, obs);
+      return { requestStatus: { result: true, code: STATUS.Success }, ...(responseData ? { responseData } : {}) };
+    } catch (error) {
+      const code = error instanceof FakeRequestError ? error.code : 500;
+      const comment = error instanceof Error ? error.message : String(error);
+      return { requestStatus: { result: false, code, comment } };
+    }
+  };
+
+  wss.on('connection', socket => {
+    const challenge = randomBytes(32).toString('base64');
+    const salt = randomBytes(32).toString('base64');
+    const send = (op: number, d: Json) => socket.send(JSON.stringify({ op, d }));
+
+    send(OP.Hello, {
+      obsWebSocketVersion: '5.3.0',
+      rpcVersion: 1,
+      ...(password ? { authentication: { challenge, salt } } : {}),
+    });
+
+    socket.on('close', () => identified.delete(socket));
+
+    socket.on('message', raw => {
+      let message: { op: number; d: Json };
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        socket.close(4002, 'Unable to parse message.');
+        return;
+      }
+
+      const { op, d } = message;
+      if (op === OP.Identify) {
+        if (password && d.authentication !== sha256(sha256(password + salt) + challenge)) {
+          socket.close(4009, 'Authentication failed.');
+          return;
+        }
+        identified.set(socket, typeof d.eventSubscriptions === 'number' ? d.eventSubscriptions : 0);
+        send(OP.Identified, { negotiatedRpcVersion: 1 });
+        return;
+      }
+
+      if (!identified.has(socket)) {
+        socket.close(4007, 'You attempted to send a non-Identify message while not identified.');
+        return;
+      }
+
+      if (op === OP.Reidentify) {
+        if (typeof d.eventSubscriptions === 'number') identified.set(socket, d.eventSubscriptions);
+        send(OP.Identified, { negotiatedRpcVersion: 1 });
+      } else if (op === OP.Request) {
+        const requestType = String(d.requestType);
+        send(OP.RequestResponse, { requestType, requestId: d.requestId, ...runRequest(requestType, (d.requestData ?? {}) as Json) });
+      } else if (op === OP.RequestBatch) {
+        const results = [];
+        for (const request of (d.requests ?? []) as Json[]) {
+          const requestType = String(request.requestType);
+          const result = runRequest(requestType, (request.requestData ?? {}) as Json);
+          results.push({ requestType, requestId: request.requestId, ...result });
+          if (d.haltOnFailure && !result.requestStatus.result) break;
+        }
+        send(OP.RequestBatchResponse, { requestId: d.requestId, results });
+      }
+    });
+  });
+
+  return obs;
+}
+
+// --- CLI: `npm run fake-obs` ---
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const obs = await startFakeObs({
+    port: Number(process.env.FAKE_OBS_PORT ?? 4455),
+    password: process.env.FAKE_OBS_PASSWORD,
+    studioMode: process.env.FAKE_OBS_STUDIO_MODE === '1',
+    live: process.env.FAKE_OBS_LIVE === '1',
+    inputs: {
+      'Ingest A': { kind: 'ffmpeg_source', settings: { input: 'rtmp://localhost/live/a', is_local_file: false } },
+      'Ingest B': { kind: 'ffmpeg_source' },
+      'Overlay': { kind: 'browser_source', settings: { url: 'https://example.com' } },
+      'Webcam': { kind: 'dshow_input' },
+    },
+    scenes: { Main: ['Ingest A', 'Overlay', 'Webcam'], Stage: ['Ingest B', 'Overlay'], 'Be Right Back': ['Overlay'] },
+    transitions: ['Fade', 'Cut', 'Stinger'],
+  });
+  console.log(`Fake OBS listening on ${obs.url}${process.env.FAKE_OBS_PASSWORD ? ' (password protected)' : ''}`);
+}
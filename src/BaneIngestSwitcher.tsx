@@ -1,5 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { OBSWebSocket } from 'obs-websocket-js';;
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { 
   Cast,
   Link as LinkIcon,
@@ -14,79 +13,491 @@ import {
   Check,
   X,
   Radio,
-  Circle
+  Circle,
+  Activity,
+  SlidersHorizontal,
+  Clapperboard,
+  EyeOff,
+  Eye,
+  MonitorPlay,
+  Keyboard,
+  Piano,
+  GripVertical,
+  Search,
+  Folder,
+  Tag,
+  Pause,
+  LayoutGrid,
+  Image as ImageIcon,
+  Lock,
+  Trash2,
+  Layers,
+  Copy,
+  Move,
+  Volume2,
+  VolumeX,
+  TabletSmartphone,
+  LockOpen,
+  Shield,
+  Bookmark
 } from 'lucide-react';
+import type { ConnectionProfile, CustomKind, FailoverChain, LinkColor, LinkGroup, LinkHealth, LinkItem, LiveGuard, MidiBinding, MonitorType, OBSSource, ScheduleCue, SwitchOutcome, SwitchRecord, SwitchTrigger, TemplateVariable } from './types';
+import {
+  LINK_SETTING_FIELDS,
+  LINK_SETTING_KINDS,
+  LINK_SETTING_KIND_LABELS,
+  MONITOR_TYPE_LABELS,
+  countLinkSettings,
+  parseAudioDraft,
+  parseLinkSettingsDraft,
+  parseSceneActionDraft,
+  sanitizeLinkList,
+  toAudioDraft,
+  toLinkSettingsDraft,
+  toSceneActionDraft,
+} from './linkSettings';
+import type { AudioDraft, LinkSettingsDraft, SceneActionDraft } from './linkSettings';
+import {
+  findLinkForHotkey,
+  formatMidiBinding,
+  linkHotkeyLabel,
+  sameMidiBinding,
+} from './bindings';
+import type { IngestController } from './obs/IngestController';
+import { worstHealth } from './obs/health';
+import { useIngestControllers, useIngestEvent } from './hooks/useIngestControllers';
+import { useHotkeys } from './hooks/useHotkeys';
+import { useMidiInput } from './hooks/useMidiInput';
+import { useVolumeMeter } from './hooks/useVolumeMeter';
+import { useOutputStatus } from './hooks/useOutputStatus';
+import { DEFAULT_STALL_SECONDS, useFailover } from './hooks/useFailover';
+import { useRunOfShow } from './hooks/useRunOfShow';
+import { framePercent } from './obs/outputs';
+import { DEFAULT_COMPANION_CONFIG, useCompanion } from './hooks/useCompanion';
+import type { CompanionConfig } from './hooks/useCompanion';
+import type { MidiStatus } from './hooks/useMidiInput';
+import { DEFAULT_SYNC_CONFIG, useOperatorSync } from './hooks/useOperatorSync';
+import type { SyncConfig } from './hooks/useOperatorSync';
+import { keepLocalBindings, toLibraryContent } from './sync';
+import type { SharedLibrary } from './sync';
+import {
+  ALL_TAB,
+  LINK_COLORS,
+  LINK_COLOR_KEYS,
+  UNGROUPED_TAB,
+  matchesLinkFilter,
+  moveLinkTo,
+  parseTags,
+  sanitizeGroupList,
+} from './groups';
+import {
+  IMPORT_ACCEPT,
+  classifyImport,
+  createExportBundle,
+  mergeImport,
+  parseImportFile,
+} from './transfer';
+import type { ParsedImport } from './transfer';
+import {
+  EMPTY_RUN_OF_SHOW,
+  formatDuration,
+  sanitizeRunOfShow,
+} from './schedule';
+import type { RunOfShow } from './schedule';
+import { appendSwitchRecord, canRevert, historyToCsv, historyToJson, maskHistory, sanitizeHistory } from './history';
+import { applyCustomKinds, extractInputUrl, getKindAdapter, listKindAdapters, sanitizeCustomKinds, validateInputUrl } from './obs/kindAdapters';
+import { LAYOUT_PRESETS, LAYOUT_PRESET_LABELS } from './obs/layout';
+import type { LayoutPreset } from './obs/layout';
+import { keepLocalSecrets, maskSecrets, resolveTemplate, sanitizeVariables, secretValues, templateNames, variableScope } from './variables';
+import { SRT_MODES, STREAM_PROTOCOL_LABELS, parseStreamUrl, readSrtOptions, writeSrtOptions } from './streamUrl';
+import type { SrtOptions } from './streamUrl';
+import { MIN_PASSPHRASE_LENGTH, deriveVaultKey, openVault, parseVault, sealSecrets } from './credentials';
+import type { CredentialVault, VaultKey } from './credentials';
+import { DEFAULT_THUMBNAIL_SECONDS, THUMBNAIL_INTERVALS, useSourceThumbnails } from './hooks/useSourceThumbnails';
+import OperatorView from './components/OperatorView';
+import CompanionPanel from './components/CompanionPanel';
+import SyncPanel from './components/SyncPanel';
+import RunOfShowPanel from './components/RunOfShowPanel';
+import VariablesPanel from './components/VariablesPanel';
+import FailoverPanel from './components/FailoverPanel';
+import HistoryPanel from './components/HistoryPanel';
+import SourceKindsPanel from './components/SourceKindsPanel';
+import UnlockPrompt from './components/UnlockPrompt';
+import ImportPreview from './components/ImportPreview';
+import type { ImportOptions } from './components/ImportPreview';
+import { HEALTH_BADGES, TALLY_BADGES } from './components/badges';
+import type { Tally } from './components/badges';
 
 // --- Types ---
-type LinkItem = {
-  id: string;
-  name: string;
-  url: string;
-};
-
-type OBSSource = {
-  name: string;
-  kind: string;
+// Per-profile view state the component tracks on top of the controller's connection state
+type ProfileSession = {
+  switchError: string | null;
+  currentSourceUrl: string | null;
+  // URL in the Studio Mode preview source
+  previewSourceUrl: string | null;
 };
 
 // --- Constants ---
 const STORAGE_KEY_LINKS = 'bane-ingest-links';
+const STORAGE_KEY_GROUPS = 'bane-ingest-groups';
+const STORAGE_KEY_PROFILES = 'bane-obs-profiles';
+// Encrypted OBS passwords; profiles themselves are stored without them
+const STORAGE_KEY_CREDENTIALS = 'bane-obs-credentials';
+const STORAGE_KEY_SETTINGS = 'bane-ingest-settings';
+const STORAGE_KEY_FAILOVER = 'bane-ingest-failover';
+const STORAGE_KEY_COMPANION = 'bane-ingest-companion';
+const STORAGE_KEY_SYNC = 'bane-ingest-sync';
+const STORAGE_KEY_SCHEDULE = 'bane-ingest-schedule';
+const STORAGE_KEY_HISTORY = 'bane-ingest-history';
+const STORAGE_KEY_LINK_FRAMES = 'bane-ingest-link-frames';
+const STORAGE_KEY_KINDS = 'bane-ingest-kinds';
+const STORAGE_KEY_VARIABLES = 'bane-ingest-variables';
+// Legacy single-connection key, migrated into a profile on load
 const STORAGE_KEY_CONN = 'bane-obs-connection';
 
-// Sources that definitely support simple URL switching via 'local_file' or 'url' settings
-const SUPPORTED_KINDS = new Set([
-  'ffmpeg_source',
-  'vlc_source',
-  'browser_source',
-]);
+const createFailoverChain = (fields: Partial<FailoverChain> = {}): FailoverChain => ({
+  linkIds: [],
+  enabled: true,
+  stallSeconds: DEFAULT_STALL_SECONDS,
+  returnToPrimary: false,
+  locked: false,
+  ...fields,
+});
+
+const EMPTY_SESSION: ProfileSession = {
+  switchError: null,
+  currentSourceUrl: null,
+  previewSourceUrl: null,
+};
+
+// How long a link button lights up after a hotkey or MIDI press fires it
+const FIRED_FLASH_MS = 400;
+
+const LIVE_GUARD_LABELS: Record<LiveGuard, string> = {
+  off: 'Off',
+  confirm: 'Confirm',
+  block: 'Safe Only',
+};
+
+// Switches the live guard looks at; failover and cues are automation and pass. The companion server guards its own.
+const GUARDED_TRIGGERS: SwitchTrigger[] = ['click', 'hotkey', 'midi', 'revert'];
+
+const MIDI_STATUS_LABELS: Record<MidiStatus, string> = {
+  off: 'MIDI off',
+  pending: 'Waiting for MIDI access…',
+  ready: 'Listening',
+  unsupported: 'Web MIDI is not supported in this browser',
+  denied: 'MIDI access was denied',
+};
+
+const generateId = () => Math.random().toString(36).substring(2, 9);
+
+const downloadText = (fileName: string, mimeType: string, text: string) => {
+  const a = document.createElement('a');
+  a.href = `data:${mimeType};charset=utf-8,` + encodeURIComponent(text);
+  a.download = fileName;
+  a.click();
+};
+
+const createProfile = (fields: Partial<ConnectionProfile> = {}): ConnectionProfile => ({
+  id: generateId(),
+  name: 'Main',
+  address: 'localhost',
+  port: '4455',
+  password: '',
+  switchTarget: true,
+  ...fields,
+});
+
+// A parsed file waiting for the operator to confirm in the preview dialog
+type PendingImport = {
+  fileName: string;
+  parsed: ParsedImport;
+};
+
+type SourceDraft = {
+  name: string;
+  kind: string;
+  sceneName: string;
+  // Link whose URL the new input starts on; '' starts it empty
+  linkId: string;
+};
+
+const EMPTY_SOURCE_DRAFT: SourceDraft = { name: '', kind: 'ffmpeg_source', sceneName: '', linkId: '' };
 
 export default function BaneIngestSwitcher() {
   // --- State: Connection ---
-  const [address, setAddress] = useState('localhost');
-  const [port, setPort] = useState('4455');
-  const [password, setPassword] = useState('');
-  const [isConnected, setIsConnected] = useState(false);
-  const [connError, setConnError] = useState<string | null>(null);
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>([]);
+  const [sessions, setSessions] = useState<Record<string, ProfileSession>>({});
   const [isConnectPanelOpen, setIsConnectPanelOpen] = useState(true);
+  const [now, setNow] = useState(() => Date.now());
+
+  // --- State: Saved Passwords ---
+  // Key of the unlocked vault; passwords are re-sealed with it whenever profiles change
+  const [vaultKey, setVaultKey] = useState<VaultKey | null>(null);
+  // Stored vault still waiting for its passphrase
+  const [lockedVault, setLockedVault] = useState<CredentialVault | null>(null);
+  const [isUnlockPromptOpen, setIsUnlockPromptOpen] = useState(false);
+  const [passphraseDraft, setPassphraseDraft] = useState({ passphrase: '', confirm: '' });
+  const [isPassphraseFormOpen, setIsPassphraseFormOpen] = useState(false);
+  const [credentialError, setCredentialError] = useState<string | null>(null);
+  const [credentialBusy, setCredentialBusy] = useState(false);
+  // Set when an older version had left passwords in plain text; they're dropped from storage on load
+  const [plaintextCleared, setPlaintextCleared] = useState(false);
+
+  // --- State: Profile Editor ---
+  const [editingProfileId, setEditingProfileId] = useState<string | null>(null);
+  const [profileDraft, setProfileDraft] = useState<ConnectionProfile>(() => createProfile());
 
   // --- State: OBS Data ---
-  const [sources, setSources] = useState<OBSSource[]>([]);
   const [selectedSource, setSelectedSource] = useState<string>('');
-  const [currentSourceUrl, setCurrentSourceUrl] = useState<string | null>(null);
+  // Studio Mode: source staged in the preview scene, and where Quick Switch clicks load
+  const [previewSource, setPreviewSource] = useState<string>('');
+  const [loadTarget, setLoadTarget] = useState<Tally>('program');
 
   // --- State: Links ---
   const [links, setLinks] = useState<LinkItem[]>([]);
   const [editingLinkId, setEditingLinkId] = useState<string | null>(null);
   const [tempName, setTempName] = useState('');
   const [tempUrl, setTempUrl] = useState('');
+  const [tempSettings, setTempSettings] = useState<LinkSettingsDraft>(() => toLinkSettingsDraft());
+  const [tempSceneAction, setTempSceneAction] = useState<SceneActionDraft>(() => toSceneActionDraft());
+  const [tempAudio, setTempAudio] = useState<AudioDraft>(() => toAudioDraft());
+  const [isLinkSettingsOpen, setIsLinkSettingsOpen] = useState(false);
+  const [tempGroupId, setTempGroupId] = useState('');
+  const [tempColor, setTempColor] = useState<LinkColor | undefined>(undefined);
+  const [tempTags, setTempTags] = useState('');
+  const [tempSafe, setTempSafe] = useState(false);
+
+  // --- State: Groups & Ordering ---
+  const [groups, setGroups] = useState<LinkGroup[]>([]);
+  const [editingGroupId, setEditingGroupId] = useState<string | null>(null);
+  const [groupDraft, setGroupDraft] = useState<LinkGroup>({ id: '', name: '' });
+  const [activeTab, setActiveTab] = useState<string>(ALL_TAB);
+  const [linkFilter, setLinkFilter] = useState('');
+  const [draggingLinkId, setDraggingLinkId] = useState<string | null>(null);
+  const [dragOverLinkId, setDragOverLinkId] = useState<string | null>(null);
+
+  // --- State: Run of Show ---
+  const [runOfShow, setRunOfShow] = useState<RunOfShow>(EMPTY_RUN_OF_SHOW);
+
+  // --- State: Switch History ---
+  const [switchHistory, setSwitchHistory] = useState<SwitchRecord[]>([]);
+  // Last URL this app knows each source plays; our own switches set it first so their echo isn't "external"
+  const knownUrls = useRef(new Map<string, string>());
+
+  // --- State: Template Variables ---
+  const [variables, setVariables] = useState<TemplateVariable[]>([]);
+  const [exportSecrets, setExportSecrets] = useState(false);
+
+  // --- State: Source Kinds ---
+  const [customKinds, setCustomKinds] = useState<CustomKind[]>([]);
+
+  // --- State: Source Management ---
+  const [sourceDraft, setSourceDraft] = useState<SourceDraft>(EMPTY_SOURCE_DRAFT);
+  // Scene that duplicates land in and layout presets apply to
+  const [layoutScene, setLayoutScene] = useState('');
+  const [renamingSource, setRenamingSource] = useState<{ name: string; draft: string } | null>(null);
+  const [sourceError, setSourceError] = useState<string | null>(null);
+  const [sourceBusy, setSourceBusy] = useState(false);
+  const sourceNameInputRef = useRef<HTMLInputElement>(null);
 
-  const obs = useRef<OBSWebSocket | null>(null);
+  // --- State: Import Preview ---
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+
+  // --- State: Health ---
+  const [linkHealth, setLinkHealth] = useState<Record<string, LinkHealth>>({});
+  const [probeFirst, setProbeFirst] = useState(false);
+
+  // --- State: Hotkeys & MIDI ---
+  const [numberKeys, setNumberKeys] = useState(true);
+  // Every compatible source as its own card instead of just the dropdown
+  const [dashboard, setDashboard] = useState(false);
+  const [thumbnailSeconds, setThumbnailSeconds] = useState(DEFAULT_THUMBNAIL_SECONDS);
+  // Last frame seen on air per link id, shown on its Quick Switch button
+  const [linkFrames, setLinkFrames] = useState<Record<string, string>>({});
+  const [midiEnabled, setMidiEnabled] = useState(false);
+  // Link waiting for the next key or MIDI press to bind
+  const [learningLinkId, setLearningLinkId] = useState<string | null>(null);
+  const [firedLinkId, setFiredLinkId] = useState<string | null>(null);
+
+  // --- State: Operator View ---
+  // Touch-first layout for running the show; "?view=operator" opens straight into it
+  const [operatorView, setOperatorView] = useState(() => new URLSearchParams(window.location.search).get('view') === 'operator');
+  const [confirmSwitch, setConfirmSwitch] = useState(true);
+  const [keepAwake, setKeepAwake] = useState(true);
+
+  // --- State: Live Guard ---
+  const [liveGuard, setLiveGuard] = useState<LiveGuard>('confirm');
+  // Mark a recording chapter, named after the link, on every program switch
+  const [recordChapters, setRecordChapters] = useState(false);
+
+  // --- State: Companion Server ---
+  const [companionConfig, setCompanionConfig] = useState<CompanionConfig>(DEFAULT_COMPANION_CONFIG);
+
+  // --- State: Operator Sync ---
+  const [syncConfig, setSyncConfig] = useState<SyncConfig>(DEFAULT_SYNC_CONFIG);
+  // Per tab, so two windows on one machine are two operators
+  const [clientId] = useState(generateId);
+  const [controlError, setControlError] = useState<string | null>(null);
+
+  // --- State: Failover ---
+  const [failoverChains, setFailoverChains] = useState<Record<string, FailoverChain>>({});
+
+  // One controller per profile id, created lazily and kept for the lifetime of the component
+  const ingest = useIngestControllers(profiles);
+  const { stateOf, controllerOf } = ingest;
+  const isUnmounted = useRef(false);
+  // Bumped per source on every switch so a running health probe knows it was superseded
+  const probeGenerations = useRef(new Map<string, number>());
+
+  // Refs read from OBS event callbacks and timers, which outlive a single render
+  const selectedSourceRef = useRef(selectedSource);
+  useEffect(() => { selectedSourceRef.current = selectedSource; }, [selectedSource]);
+  const previewSourceRef = useRef(previewSource);
+  useEffect(() => { previewSourceRef.current = previewSource; }, [previewSource]);
+
+  const updateSession = useCallback((profileId: string, patch: Partial<ProfileSession>) => {
+    setSessions(prev => ({ ...prev, [profileId]: { ...(prev[profileId] ?? EMPTY_SESSION), ...patch } }));
+  }, []);
+
+  const fetchActiveState = useCallback(async (
+    profileId: string,
+    sourceName: string,
+    key: 'currentSourceUrl' | 'previewSourceUrl' = 'currentSourceUrl',
+  ) => {
+    const controller = controllerOf(profileId);
+    if (!controller) return;
+    // null when the source doesn't exist on this instance
+    updateSession(profileId, { [key]: await controller.fetchActiveUrl(sourceName) });
+  }, [controllerOf, updateSession]);
+
+  const fetchAllSources = () => {
+    profiles.forEach(p => {
+      controllerOf(p.id)?.fetchSources();
+      controllerOf(p.id)?.fetchScenes();
+    });
+  };
 
   // --- Initialization ---
   useEffect(() => {
-    obs.current = new OBSWebSocket();
+    isUnmounted.current = false;
 
     // Load persisted data
     try {
       const savedLinks = localStorage.getItem(STORAGE_KEY_LINKS);
-if (savedLinks) setLinks(JSON.parse(savedLinks) as LinkItem[]);
-
-    const savedConn = localStorage.getItem(STORAGE_KEY_CONN);
-if (savedConn) {
-  const { address: sAddr, port: sPort, password: sPass } =
-    JSON.parse(savedConn) as { address?: string; port?: string; password?: string };
-  if (sAddr) setAddress(sAddr);
-  if (sPort) setPort(sPort);
-  if (sPass) setPassword(sPass);
-}
+      if (savedLinks) setLinks(sanitizeLinkList(JSON.parse(savedLinks)));
+
+      const savedGroups = sanitizeGroupList(JSON.parse(localStorage.getItem(STORAGE_KEY_GROUPS) ?? '[]'));
+      setGroups(savedGroups);
+
+      const savedProfiles = localStorage.getItem(STORAGE_KEY_PROFILES);
+      const savedConn = localStorage.getItem(STORAGE_KEY_CONN);
+      if (savedProfiles) {
+        const loaded = (JSON.parse(savedProfiles) as Partial<ConnectionProfile>[]).map(p => createProfile(p));
+        setProfiles(loaded);
+        if (loaded.some(p => p.password)) setPlaintextCleared(true);
+      } else if (savedConn) {
+        const { address: sAddr, port: sPort, password: sPass } =
+          JSON.parse(savedConn) as { address?: string; port?: string; password?: string };
+        setProfiles([createProfile({
+          address: sAddr || 'localhost',
+          port: sPort || '4455',
+          password: sPass || '',
+        })]);
+        if (sPass) setPlaintextCleared(true);
+      } else {
+        setProfiles([createProfile()]);
+      }
+
+      const savedVault = localStorage.getItem(STORAGE_KEY_CREDENTIALS);
+      const vault = savedVault ? parseVault(JSON.parse(savedVault)) : null;
+      if (vault) {
+        setLockedVault(vault);
+        setIsUnlockPromptOpen(true);
+      }
+
+      const savedSettings = localStorage.getItem(STORAGE_KEY_SETTINGS);
+      if (savedSettings) {
+        const {
+          probeFirst: sProbeFirst,
+          numberKeys: sNumberKeys,
+          midiEnabled: sMidiEnabled,
+          dashboard: sDashboard,
+          thumbnailSeconds: sThumbnailSeconds,
+          confirmSwitch: sConfirmSwitch,
+          keepAwake: sKeepAwake,
+          liveGuard: sLiveGuard,
+          recordChapters: sRecordChapters,
+        } = JSON.parse(savedSettings) as {
+          probeFirst?: boolean;
+          numberKeys?: boolean;
+          midiEnabled?: boolean;
+          dashboard?: boolean;
+          thumbnailSeconds?: number;
+          confirmSwitch?: boolean;
+          keepAwake?: boolean;
+          liveGuard?: LiveGuard;
+          recordChapters?: boolean;
+        };
+        setProbeFirst(!!sProbeFirst);
+        setNumberKeys(sNumberKeys !== false);
+        setMidiEnabled(!!sMidiEnabled);
+        setDashboard(!!sDashboard);
+        if (sThumbnailSeconds !== undefined && THUMBNAIL_INTERVALS.includes(sThumbnailSeconds)) setThumbnailSeconds(sThumbnailSeconds);
+        setConfirmSwitch(sConfirmSwitch !== false);
+        setKeepAwake(sKeepAwake !== false);
+        if (sLiveGuard && sLiveGuard in LIVE_GUARD_LABELS) setLiveGuard(sLiveGuard);
+        setRecordChapters(!!sRecordChapters);
+      }
+
+      const savedCompanion = localStorage.getItem(STORAGE_KEY_COMPANION);
+      if (savedCompanion) {
+        const config = { ...DEFAULT_COMPANION_CONFIG, ...(JSON.parse(savedCompanion) as Partial<CompanionConfig>) };
+        setCompanionConfig(config);
+        if (config.token) setPlaintextCleared(true);
+      }
+
+      const savedSync = localStorage.getItem(STORAGE_KEY_SYNC);
+      if (savedSync) setSyncConfig({ ...DEFAULT_SYNC_CONFIG, ...(JSON.parse(savedSync) as Partial<SyncConfig>) });
+
+      const savedFrames = localStorage.getItem(STORAGE_KEY_LINK_FRAMES);
+      if (savedFrames) {
+        const frames = JSON.parse(savedFrames) as Record<string, unknown>;
+        setLinkFrames(Object.fromEntries(Object.entries(frames).filter(([, frame]) => typeof frame === 'string' && frame.startsWith('data:image/'))) as Record<string, string>);
+      }
+
+      // Registered right away so the first source fetch already knows them
+      const savedKinds = localStorage.getItem(STORAGE_KEY_KINDS);
+      if (savedKinds) {
+        const kinds = sanitizeCustomKinds(JSON.parse(savedKinds));
+        applyCustomKinds(kinds);
+        setCustomKinds(kinds);
+      }
+
+      const savedVariables = sanitizeVariables(JSON.parse(localStorage.getItem(STORAGE_KEY_VARIABLES) ?? '[]'));
+      setVariables(savedVariables);
+
+      const savedHistory = localStorage.getItem(STORAGE_KEY_HISTORY);
+      if (savedHistory) setSwitchHistory(maskHistory(sanitizeHistory(JSON.parse(savedHistory)), secretValues(savedVariables, savedGroups)));
+
+      const savedSchedule = localStorage.getItem(STORAGE_KEY_SCHEDULE);
+      if (savedSchedule) setRunOfShow(sanitizeRunOfShow(JSON.parse(savedSchedule)));
+
+      const savedFailover = localStorage.getItem(STORAGE_KEY_FAILOVER);
+      if (savedFailover) {
+        const parsed = JSON.parse(savedFailover) as Record<string, Partial<FailoverChain>>;
+        setFailoverChains(Object.fromEntries(
+          Object.entries(parsed).map(([name, chain]) => [name, createFailoverChain(chain)])
+        ));
+      }
     } catch (e) {
       console.error("Failed to load saved data", e);
+      setProfiles([createProfile()]);
     }
 
     return () => {
-      if (obs.current) {
-        try { obs.current.disconnect(); } catch (e) { /* ignore */ }
-      }
+      isUnmounted.current = true;
     };
   }, []);
 
@@ -95,193 +506,966 @@ if (savedConn) {
     localStorage.setItem(STORAGE_KEY_LINKS, JSON.stringify(links));
   }, [links]);
 
-  // --- OBS Connection Logic ---
-  const connectToOBS = async () => {
-    setConnError(null);
-    if (!obs.current) obs.current = new OBSWebSocket();
+  // Persist link groups
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY_GROUPS, JSON.stringify(groups));
+  }, [groups]);
+
+  // Persist switcher settings
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY_SETTINGS, JSON.stringify({ probeFirst, numberKeys, midiEnabled, dashboard, thumbnailSeconds, confirmSwitch, keepAwake, liveGuard, recordChapters }));
+  }, [probeFirst, numberKeys, midiEnabled, dashboard, thumbnailSeconds, confirmSwitch, keepAwake, liveGuard, recordChapters]);
 
+  // Persist link frames; they are a nicety, so a full quota just leaves them unsaved
+  useEffect(() => {
     try {
-      const wsUrl = `ws://${address}:${port}`;
-      await obs.current.connect(wsUrl, password);
-      setIsConnected(true);
-      setIsConnectPanelOpen(false);
-      
-      localStorage.setItem(STORAGE_KEY_CONN, JSON.stringify({ address, port, password }));
+      localStorage.setItem(STORAGE_KEY_LINK_FRAMES, JSON.stringify(linkFrames));
+    } catch (e) {
+      console.warn("Failed to save link frames", e);
+    }
+  }, [linkFrames]);
 
-      // Setup listeners
-      obs.current.on('ConnectionClosed', () => {
-        setIsConnected(false);
-        setConnError("Connection lost.");
-        setCurrentSourceUrl(null);
-      });
+  // Persist companion server settings; the token is only saved in the vault
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY_COMPANION, JSON.stringify({ ...companionConfig, token: '' }));
+  }, [companionConfig]);
 
-      obs.current.on('InputSettingsChanged', (event) => {
-        // If the currently selected source changed settings, update our active state
-        // We need to use a ref or functional state update to get the *current* selectedSource if we were using it directly, 
-        // but here we can just check if the event matches the current selection in state.
-        // NOTE: In a real-world complex app, better to use refs for current selection inside callbacks.
-        // For simplicity here, we'll just re-fetch active state if the name matches.
-        // Actually, we can just blindly try to update if it matches.
-         updateActiveStateIfMatches(event.inputName);
-      });
+  // Persist operator sync settings
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY_SYNC, JSON.stringify(syncConfig));
+  }, [syncConfig]);
+
+  // Persist template variables
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY_VARIABLES, JSON.stringify(variables));
+  }, [variables]);
+
+  // Persist custom source kinds
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY_KINDS, JSON.stringify(customKinds));
+  }, [customKinds]);
+
+  // Persist the run of show, including progress, so a reload picks up where it left off
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY_SCHEDULE, JSON.stringify(runOfShow));
+  }, [runOfShow]);
+
+  // Persist switch history
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY_HISTORY, JSON.stringify(switchHistory));
+  }, [switchHistory]);
+
+  // Persist failover chains
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY_FAILOVER, JSON.stringify(failoverChains));
+  }, [failoverChains]);
+
+  // Persist profiles (skip the initial empty render so nothing is overwritten before loading); never with passwords
+  useEffect(() => {
+    if (profiles.length === 0) return;
+    localStorage.setItem(STORAGE_KEY_PROFILES, JSON.stringify(profiles.map(p => ({ ...p, password: '' }))));
+    localStorage.removeItem(STORAGE_KEY_CONN);
+  }, [profiles]);
+
+  // Re-seal passwords and the companion token with the unlocked vault key; a still-locked vault is left untouched
+  const companionToken = companionConfig.token;
+  useEffect(() => {
+    if (!vaultKey) return;
+    let cancelled = false;
+    const passwords = Object.fromEntries(profiles.filter(p => p.password).map(p => [p.id, p.password]));
+    sealSecrets(vaultKey, { passwords, companionToken })
+      .then(vault => {
+        if (!cancelled) localStorage.setItem(STORAGE_KEY_CREDENTIALS, JSON.stringify(vault));
+      })
+      .catch(e => console.error("Failed to encrypt saved passwords", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [profiles, vaultKey, companionToken]);
+
+  // --- Template Variables ---
+  // A link's URL as it goes to OBS: placeholders filled from the globals and its group's overrides
+  const resolveLinkUrl = (link: LinkItem) =>
+    resolveTemplate(link.url, variableScope(variables, groups.find(g => g.id === link.groupId)));
+  const resolvedUrlOf = (link: LinkItem) => resolveLinkUrl(link).url;
+  const linkForUrl = (url: string | null | undefined) => (url ? links.find(l => resolvedUrlOf(l) === url) : undefined);
+  const secrets = secretValues(variables, groups);
+  const masked = (text: string) => maskSecrets(text, secrets);
+
+  // --- Derived Connection State ---
+  const statusOf = (profileId: string) => ({ ...stateOf(profileId), ...(sessions[profileId] ?? EMPTY_SESSION) });
+  const connectedProfiles = profiles.filter(p => statusOf(p.id).isConnected);
+  const targetProfiles = connectedProfiles.filter(p => p.switchTarget);
+  const isAnyConnected = connectedProfiles.length > 0;
+  const reconnectingProfiles = profiles.filter(p => !statusOf(p.id).isConnected && statusOf(p.id).reconnectAt !== null);
+  const secondsUntil = (at: number | null) => at !== null ? Math.max(0, Math.ceil((at - now) / 1000)) : 0;
+
+  // Source names across connected instances; a switch goes to the same-named input on each target
+  const sources: OBSSource[] = [];
+  connectedProfiles.forEach(p => {
+    statusOf(p.id).sources.forEach(s => {
+      if (!sources.some(existing => existing.name === s.name)) sources.push(s);
+    });
+  });
+  const sourceNamesKey = sources.map(s => s.name).join('\n');
 
-      // Initial fetch
-      await fetchSources();
+  // Scene and transition names offered for link scene actions; each instance applies what it has
+  const sceneNames = [...new Set(connectedProfiles.flatMap(p => statusOf(p.id).scenes))];
+  const transitionNames = [...new Set(connectedProfiles.flatMap(p => statusOf(p.id).transitions))];
 
-    } catch (error: any) {
-      console.error('OBS Connection failed', error);
-      setIsConnected(false);
-      setConnError(error?.message || "Failed to connect. Check details.");
+  // The first connected switch target leads the active link highlight
+  const leadProfile = targetProfiles[0] ?? connectedProfiles[0];
+  const currentSourceUrl = leadProfile ? statusOf(leadProfile.id).currentSourceUrl : null;
+  const connectedIdsKey = connectedProfiles.map(p => p.id).join(',');
+
+  // Studio Mode follows the lead instance; preview candidates are sources its preview scene shows but program doesn't
+  const leadStatus = leadProfile ? statusOf(leadProfile.id) : null;
+  const studioMode = !!leadStatus?.studioMode;
+  const programInputs = leadStatus?.programInputs ?? [];
+  const previewCandidates = studioMode
+    ? sources.filter(s => leadStatus?.previewInputs.includes(s.name) && !programInputs.includes(s.name))
+    : [];
+  const previewCandidatesKey = previewCandidates.map(s => s.name).join('\n');
+  const programInputsKey = programInputs.join('\n');
+
+  const tallyOf = (link: LinkItem): Tally | null => {
+    if (!studioMode || !leadStatus) return null;
+    const loaded = [
+      { name: selectedSource, url: leadStatus.currentSourceUrl },
+      { name: previewSource, url: leadStatus.previewSourceUrl },
+    ].filter(s => s.name && s.url === resolvedUrlOf(link));
+    if (loaded.some(s => programInputs.includes(s.name))) return 'program';
+    if (loaded.some(s => leadStatus.previewInputs.includes(s.name))) return 'preview';
+    return null;
+  };
+
+  // Tick the reconnect countdown shown in the connection pill
+  const isAnyReconnecting = reconnectingProfiles.length > 0;
+  useEffect(() => {
+    if (!isAnyReconnecting) return;
+    setNow(Date.now());
+    const id = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(id);
+  }, [isAnyReconnecting]);
+
+  // If current selection is invalid, reset it to first available
+  useEffect(() => {
+    const names = sourceNamesKey ? sourceNamesKey.split('\n') : [];
+    if (names.length === 0) {
+      setSelectedSource('');
+    } else if (!names.includes(selectedSourceRef.current)) {
+      setSelectedSource(names[0]);
     }
+  }, [sourceNamesKey]);
+
+  // Keep the preview source on something only the preview scene shows
+  useEffect(() => {
+    const candidates = previewCandidatesKey ? previewCandidatesKey.split('\n') : [];
+    const current = previewSourceRef.current;
+    if (candidates.includes(current)) return;
+
+    // After a take the preview source is on program and the old target waits in preview: swap their roles
+    const onProgram = programInputsKey ? programInputsKey.split('\n') : [];
+    if (current && onProgram.includes(current) && candidates.includes(selectedSourceRef.current)) {
+      setPreviewSource(selectedSourceRef.current);
+      setSelectedSource(current);
+      return;
+    }
+    setPreviewSource(candidates[0] ?? '');
+  }, [previewCandidatesKey, programInputsKey]);
+
+  useEffect(() => {
+    if (!studioMode) setLoadTarget('program');
+  }, [studioMode]);
+
+  // Refresh active state when selection or the set of connected instances changes (this also resyncs after a reconnect)
+  useEffect(() => {
+    const ids = connectedIdsKey ? connectedIdsKey.split(',') : [];
+    ids.forEach(id => {
+      if (selectedSource) {
+        fetchActiveState(id, selectedSource);
+      } else {
+        updateSession(id, { currentSourceUrl: null });
+      }
+    });
+  }, [selectedSource, connectedIdsKey, fetchActiveState, updateSession]);
+
+  useEffect(() => {
+    const ids = connectedIdsKey ? connectedIdsKey.split(',') : [];
+    ids.forEach(id => {
+      if (previewSource) {
+        fetchActiveState(id, previewSource, 'previewSourceUrl');
+      } else {
+        updateSession(id, { previewSourceUrl: null });
+      }
+    });
+  }, [previewSource, connectedIdsKey, fetchActiveState, updateSession]);
+
+  // --- OBS Connection Logic ---
+  const connectToOBS = async (profile: ConnectionProfile) => {
+    await ingest.connect(profile);
+  };
+
+  const disconnectOBS = async (profileId: string) => {
+    await ingest.disconnect(profileId);
+    updateSession(profileId, { currentSourceUrl: null, previewSourceUrl: null });
+  };
+
+  const cancelReconnect = (profileId: string) => {
+    ingest.cancelReconnect(profileId);
+  };
+
+  // --- Profile Management ---
+  const resetProfileDraft = () => {
+    setEditingProfileId(null);
+    setProfileDraft(createProfile({ name: `OBS ${profiles.length + 1}` }));
   };
 
-  const disconnectOBS = async () => {
-    if (obs.current) {
-      await obs.current.disconnect();
-      setIsConnected(false);
-      setCurrentSourceUrl(null);
+  const handleSaveProfile = () => {
+    const draft = { ...profileDraft, name: profileDraft.name.trim() || `OBS ${profiles.length + 1}` };
+    if (!draft.address.trim() || !draft.port.trim()) return;
+    if (editingProfileId) {
+      setProfiles(profiles.map(p => p.id === editingProfileId ? { ...draft, id: p.id } : p));
+    } else {
+      setProfiles([...profiles, { ...draft, id: generateId() }]);
     }
+    resetProfileDraft();
   };
 
-  // Helpers to keep state in sync inside event callbacks if needed, 
-  // but for simplicity we'll rely on regular polling or react-hooks deps where possible.
-  // To fix the stale closure issue in the event listener, we can use a ref for SelectedSource.
-  const selectedSourceRef = useRef(selectedSource);
-  useEffect(() => { selectedSourceRef.current = selectedSource; }, [selectedSource]);
+  const startEditingProfile = (profile: ConnectionProfile) => {
+    setEditingProfileId(profile.id);
+    setProfileDraft(profile);
+  };
+
+  const handleDeleteProfile = (profileId: string) => {
+    ingest.removeController(profileId);
+    setSessions(prev => {
+      const next = { ...prev };
+      delete next[profileId];
+      return next;
+    });
+    setProfiles(profiles.filter(p => p.id !== profileId));
+    if (editingProfileId === profileId) resetProfileDraft();
+  };
 
-  const updateActiveStateIfMatches = async (changedInputName: string) => {
-    if (changedInputName === selectedSourceRef.current) {
-      fetchActiveState(changedInputName);
+  // --- Saved Passwords ---
+  const unlockVault = async (passphrase: string) => {
+    if (!lockedVault) return;
+    setCredentialBusy(true);
+    try {
+      const { vaultKey: key, secrets: { passwords, companionToken: savedToken } } = await openVault(lockedVault, passphrase);
+      setProfiles(prev => prev.map(p => (passwords[p.id] !== undefined && !p.password ? { ...p, password: passwords[p.id] } : p)));
+      setCompanionConfig(prev => (prev.token || !savedToken ? prev : { ...prev, token: savedToken }));
+      setVaultKey(key);
+      setLockedVault(null);
+      setIsUnlockPromptOpen(false);
+      setCredentialError(null);
+    } catch {
+      setCredentialError('Wrong passphrase.');
+    } finally {
+      setCredentialBusy(false);
     }
   };
 
-  const fetchActiveState = useCallback(async (sourceName: string) => {
-    if (!obs.current || !isConnected || !sourceName) return;
+  // Starts (or re-keys) encrypted storage of the passwords currently in memory. A vault still locked would be
+  // replaced by one holding only those, so that takes an explicit yes.
+  const savePassphrase = async () => {
+    const { passphrase, confirm } = passphraseDraft;
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setCredentialError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (passphrase !== confirm) {
+      setCredentialError("Passphrases don't match.");
+      return;
+    }
+    if (lockedVault && !window.confirm('The saved passwords and companion token are still locked and will be replaced, losing them. Unlock first to keep them. Replace anyway?')) return;
+    setCredentialBusy(true);
     try {
-       const { inputSettings, inputKind } = await obs.current.call('GetInputSettings', { inputName: sourceName });
-       // Extract URL based on kind. Browser source uses 'url', ffmpeg/vlc usually 'local_file'
-       let activeUrl = '';
-       if (inputKind === 'browser_source') {
-         activeUrl = (inputSettings.url as string) || '';
-       } else {
-         // fallback for ffmpeg, vlc, etc.
-         activeUrl = (inputSettings.local_file as string) || (inputSettings.url as string) || '';
-       }
-       setCurrentSourceUrl(activeUrl);
-    } catch (e) {
-      // silent fail if source doesn't exist anymore
+      setVaultKey(await deriveVaultKey(passphrase));
+      setLockedVault(null);
+      setIsPassphraseFormOpen(false);
+      setPassphraseDraft({ passphrase: '', confirm: '' });
+      setCredentialError(null);
+      setPlaintextCleared(false);
+    } finally {
+      setCredentialBusy(false);
     }
-  }, [isConnected]);
+  };
 
-  // Refresh active state when selection changes
-  useEffect(() => {
-    if (selectedSource && isConnected) {
-      fetchActiveState(selectedSource);
-    } else {
-      setCurrentSourceUrl(null);
+  // Passwords stay usable until the tab closes, they just aren't written anywhere
+  const stopRememberingPasswords = () => {
+    if (lockedVault && !window.confirm('The saved passwords are still locked and will be deleted. Continue?')) return;
+    localStorage.removeItem(STORAGE_KEY_CREDENTIALS);
+    setVaultKey(null);
+    setLockedVault(null);
+    setIsPassphraseFormOpen(false);
+    setCredentialError(null);
+  };
+
+  const forgetAllCredentials = () => {
+    if (!window.confirm('Forget every OBS password and the companion token, saved or typed in?')) return;
+    localStorage.removeItem(STORAGE_KEY_CREDENTIALS);
+    localStorage.removeItem(STORAGE_KEY_CONN);
+    setVaultKey(null);
+    setLockedVault(null);
+    setIsUnlockPromptOpen(false);
+    setIsPassphraseFormOpen(false);
+    setProfiles(prev => prev.map(p => ({ ...p, password: '' })));
+    setProfileDraft(prev => ({ ...prev, password: '' }));
+    setCompanionConfig(prev => ({ ...prev, token: '' }));
+    setCredentialError(null);
+    setPlaintextCleared(false);
+  };
+
+  const toggleSwitchTarget = (profileId: string) => {
+    setProfiles(profiles.map(p => p.id === profileId ? { ...p, switchTarget: !p.switchTarget } : p));
+  };
+
+  // --- Media Switching Logic ---
+  // Resolves to the aggregated post-switch health, 'refused' or 'missing' when nothing was tried, or null when
+  // there's no health to report (no source picked, or the probe was superseded)
+  const switchMedia = async (
+    template: LinkItem,
+    sourceName: string = selectedSource,
+    sceneTarget: Tally = 'program',
+    trigger: SwitchTrigger = 'click',
+  ): Promise<SwitchOutcome> => {
+    if (!sourceName) return null;
+    if (refuseLockedOut()) return 'refused';
+    if (!passesLiveGuard(template, sourceName, sceneTarget, trigger)) return 'refused';
+
+    // A URL with an undefined variable never reaches OBS; failover and cues see it as a failed link
+    const { url, missing } = resolveLinkUrl(template);
+    if (missing.length > 0) {
+      const error = `"${template.name}" needs ${missing.map(name => `{${name}}`).join(', ')} defined.`;
+      targetProfiles.forEach(p => updateSession(p.id, { switchError: error }));
+      setLinkHealth(prev => ({ ...prev, [template.id]: 'failed' }));
+      return 'failed';
     }
-  }, [selectedSource, isConnected, fetchActiveState]);
+    const link = { ...template, url };
 
+    // Push to every connected target that has a same-named compatible input
+    const targets = targetProfiles
+      .map(profile => ({ profile, controller: controllerOf(profile.id), source: statusOf(profile.id).sources.find(s => s.name === sourceName) }))
+      .filter((t): t is { profile: ConnectionProfile; controller: IngestController; source: OBSSource } => !!t.source && !!t.controller);
 
-  const fetchSources = useCallback(async () => {
-    if (!obs.current || !isConnected) return;
-    try {
-      const { inputs } = await obs.current.call('GetInputList');
-      const mediaSources = inputs
-        .filter(input => {
-  const kind = input.inputKind as string | null;
-  return kind && SUPPORTED_KINDS.has(kind);
-})
-        .map(input => ({ name: input.inputName as string, kind: input.inputKind as string }));
-      
-      setSources(mediaSources);
+    if (targets.length === 0) {
+      const error = `"${sourceName}" not found on any selected OBS instance. Refreshing sources…`;
+      targetProfiles.forEach(p => {
+        updateSession(p.id, { switchError: error });
+        controllerOf(p.id)?.fetchSources();
+      });
+      return 'missing';
+    }
 
-      if (mediaSources.length > 0) {
-        // If current selection is invalid, reset it to first available
-        if (!selectedSource || !mediaSources.find(s => s.name === selectedSource)) {
-          setSelectedSource(mediaSources[0].name);
-        }
-      } else {
-        setSelectedSource('');
+    const generation = (probeGenerations.current.get(sourceName) ?? 0) + 1;
+    probeGenerations.current.set(sourceName, generation);
+    const isCancelled = () => probeGenerations.current.get(sourceName) !== generation || isUnmounted.current;
+
+    // Manual or automatic, any switch moves the failover position to wherever the link sits in the chain
+    failover.noteSwitch(sourceName, link.id);
+    setLinkHealth(prev => ({ ...prev, [link.id]: 'checking' }));
+
+    const at = Date.now();
+    const previousUrl = knownUrls.current.get(sourceName) ?? sourceUrlOf(sourceName);
+    knownUrls.current.set(sourceName, link.url);
+
+    const results = await Promise.all(targets.map(async ({ profile, controller, source }) => {
+      const result = await controller.switchInput(source, link, { probeFirst, isCancelled, sceneTarget });
+      // Preview loads aren't on the recording, so only program switches get a chapter
+      const chapterError = result.switched && sceneTarget === 'program' && recordChapters ? await controller.markChapter(link.name) : null;
+      const switchError = [result.error, chapterError && `Switched, but the chapter marker failed: ${chapterError}`].filter(Boolean).join('; ') || null;
+      if (result.switched && sourceName === selectedSourceRef.current) {
+        updateSession(profile.id, { currentSourceUrl: link.url, switchError });
+      } else if (result.switched && sourceName === previewSourceRef.current) {
+        updateSession(profile.id, { previewSourceUrl: link.url, switchError });
+      } else if (result.switched || switchError) {
+        updateSession(profile.id, { switchError });
       }
-    } catch (error) {
-      console.error("Failed to fetch sources", error);
+      return result;
+    }));
+
+    const errors = results.map(r => r.error).filter(Boolean);
+    if (results.some(r => r.switched)) {
+      const switchedHealth = worstHealth(results.map(r => r.health));
+      recordSwitch({
+        at,
+        sourceName,
+        previousUrl,
+        url: link.url,
+        linkName: link.name,
+        trigger,
+        outcome: errors.length > 0 ? errors.join('; ') : switchedHealth ? HEALTH_BADGES[switchedHealth].label : undefined,
+      });
+    } else {
+      // Nothing changed on air, so the source still plays what it did
+      if (previousUrl) knownUrls.current.set(sourceName, previousUrl);
+      else knownUrls.current.delete(sourceName);
     }
-  }, [isConnected, selectedSource]);
 
-  // --- Media Switching Logic ---
-  const switchMedia = async (link: LinkItem) => {
-    if (!obs.current || !isConnected || !selectedSource) return;
+    // A superseded probe leaves the badge alone
+    if (isCancelled()) return null;
+    const health = worstHealth(results.map(r => r.health));
+    setLinkHealth(prev => {
+      const next = { ...prev };
+      if (health) next[link.id] = health;
+      else delete next[link.id];
+      return next;
+    });
+    return health;
+  };
+
+  // --- Switch History ---
+  // Stored as the playing link's template, or masked when no link plays the URL, so secrets never reach history
+  const toRecordedUrl = (url: string) => {
+    const link = linkForUrl(url);
+    return link ? { url: link.url, linkId: link.id } : { url: masked(url), linkId: undefined };
+  };
+  const resolveRecordedUrl = (url: string, linkId: string | undefined) =>
+    resolveTemplate(url, variableScope(variables, groups.find(g => g.id === links.find(l => l.id === linkId)?.groupId))).url;
+
+  // Takes the URLs as they went to OBS
+  const recordSwitch = ({ url, previousUrl, ...record }: Omit<SwitchRecord, 'id' | 'linkId' | 'previousLinkId'>) => {
+    const current = toRecordedUrl(url);
+    const previous = previousUrl ? toRecordedUrl(previousUrl) : null;
+    setSwitchHistory(prev => appendSwitchRecord(prev, {
+      ...record,
+      id: generateId(),
+      url: current.url,
+      linkId: current.linkId,
+      previousUrl: previous?.url ?? null,
+      previousLinkId: previous?.linkId,
+    }));
+  };
+
+  // What a source last played as far as this app knows; after a reload, its newest history entry
+  const lastKnownUrl = (sourceName: string) => {
+    const known = knownUrls.current.get(sourceName);
+    const record = known ? undefined : switchHistory.find(r => r.sourceName === sourceName);
+    return known ?? (record ? resolveRecordedUrl(record.url, record.linkId) : null);
+  };
+
+  // Puts a source back on the URL it played before a recorded switch; switchMedia resolves the template
+  const revertSwitch = (record: SwitchRecord) => {
+    if (!record.previousUrl || !canRevert(record)) return;
+    const previousLink = links.find(l => l.id === record.previousLinkId);
+    const link = previousLink
+      ? { ...previousLink, url: record.previousUrl }
+      : { id: `revert-${record.id}`, name: record.previousUrl, url: record.previousUrl };
+    switchMedia(link, record.sourceName, 'program', 'revert');
+  };
+
+  const exportHistory = (format: 'csv' | 'json') => {
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    // Recorded URLs are templates or already masked; secrets go in only when exporting them is on
+    const records = !exportSecrets ? switchHistory : switchHistory.map(r => ({
+      ...r,
+      url: resolveRecordedUrl(r.url, r.linkId),
+      previousUrl: r.previousUrl && resolveRecordedUrl(r.previousUrl, r.previousLinkId),
+    }));
+    if (format === 'csv') downloadText(`bane_switch_history_${stamp}.csv`, 'text/csv', historyToCsv(records));
+    else downloadText(`bane_switch_history_${stamp}.json`, 'application/json', historyToJson(records));
+  };
+
+  // --- Studio Mode ---
+  const handleQuickSwitch = (link: LinkItem, trigger: SwitchTrigger = 'click') => (
+    loadTarget === 'preview' ? switchMedia(link, previewSource, 'preview', trigger) : switchMedia(link, selectedSource, 'program', trigger)
+  );
+
+  // Takes preview to program on every switch target in Studio Mode
+  const takeAll = async () => {
+    if (refuseLockedOut()) return;
+    await Promise.all(targetProfiles.map(async profile => {
+      const controller = controllerOf(profile.id);
+      if (!controller?.getState().studioMode) return;
+      const error = await controller.take();
+      if (error) updateSession(profile.id, { switchError: error });
+    }));
+  };
+
+  // --- Operator View ---
+  // Kept in the URL so a bookmark or the installed app's shortcut opens the same view
+  const openOperatorView = (open: boolean) => {
+    setOperatorView(open);
+    if (open) setLinkFilter('');
+    const url = new URL(window.location.href);
+    if (open) url.searchParams.set('view', 'operator');
+    else url.searchParams.delete('view');
+    window.history.replaceState(null, '', url);
+    window.scrollTo(0, 0);
+  };
+
+  // --- Hotkeys & MIDI ---
+  const firedTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useEffect(() => () => {
+    if (firedTimer.current) clearTimeout(firedTimer.current);
+  }, []);
+
+  const fireLink = (link: LinkItem, trigger: SwitchTrigger) => {
+    setFiredLinkId(link.id);
+    if (firedTimer.current) clearTimeout(firedTimer.current);
+    firedTimer.current = setTimeout(() => setFiredLinkId(null), FIRED_FLASH_MS);
+    handleQuickSwitch(link, trigger);
+  };
+
+  // A binding belongs to one link; taking it moves it off any other
+  const bindHotkey = (linkId: string, hotkey: string | undefined) => {
+    setLinks(prev => prev.map(l => l.id === linkId ? { ...l, hotkey } : hotkey && l.hotkey === hotkey ? { ...l, hotkey: undefined } : l));
+  };
+
+  const bindMidi = (linkId: string, midi: MidiBinding | undefined) => {
+    setLinks(prev => prev.map(l => l.id === linkId ? { ...l, midi } : sameMidiBinding(l.midi, midi) ? { ...l, midi: undefined } : l));
+  };
 
-    const source = sources.find(s => s.name === selectedSource);
-    if (!source) {
-      alert("Source not found. Refreshing...");
-      fetchSources();
+  useHotkeys((hotkey, event) => {
+    if (learningLinkId) {
+      event.preventDefault();
+      if (hotkey === 'Backspace' || hotkey === 'Delete') {
+        bindHotkey(learningLinkId, undefined);
+        bindMidi(learningLinkId, undefined);
+      } else if (hotkey !== 'Escape') {
+        bindHotkey(learningLinkId, hotkey);
+      }
+      setLearningLinkId(null);
       return;
     }
 
-    const isNetworkLink = link.url.startsWith('http') || link.url.startsWith('rtmp') || link.url.startsWith('srt') || link.url.startsWith('udp');
-    let settings = {};
+    const link = findLinkForHotkey(links, hotkey, numberKeys ? visibleLinks : []);
+    if (!link || !isAnyConnected) return;
+    event.preventDefault();
+    fireLink(link, 'hotkey');
+  });
 
-    switch (source.kind) {
-      case 'ffmpeg_source':
-      case 'vlc_source':
-        settings = {
-          local_file: link.url,
-          is_local_file: !isNetworkLink,
-        };
-        break;
-      case 'browser_source':
-        settings = { url: link.url };
-        break;
-      default:
-        settings = { local_file: link.url, url: link.url };
-        break;
+  const midi = useMidiInput(midiEnabled, binding => {
+    if (learningLinkId) {
+      bindMidi(learningLinkId, binding);
+      setLearningLinkId(null);
+      return;
     }
 
-    try {
-      await obs.current.call('SetInputSettings', {
-        inputName: selectedSource,
-        inputSettings: settings,
-        overlay: true
+    const link = links.find(l => sameMidiBinding(l.midi, binding));
+    if (link && isAnyConnected) fireLink(link, 'midi');
+  });
+  const midiFailed = midi.status === 'unsupported' || midi.status === 'denied';
+
+  // --- OBS Events ---
+  useIngestEvent(ingest, 'InputSettingsChanged', (profileId, event) => {
+    // Changes made outside this app land in the history; the lead instance speaks for all targets
+    const source = leadProfile?.id === profileId ? statusOf(profileId).sources.find(s => s.name === event.inputName) : undefined;
+    const url = source ? extractInputUrl(source.kind, event.inputSettings) : '';
+    if (source && url && lastKnownUrl(source.name) !== url) {
+      recordSwitch({
+        at: Date.now(),
+        sourceName: source.name,
+        previousUrl: lastKnownUrl(source.name),
+        url,
+        linkName: linkForUrl(url)?.name,
+        trigger: 'external',
       });
-      setCurrentSourceUrl(link.url);
-    } catch (error: any) {
-      alert(`Failed to switch: ${error?.message}`);
+      knownUrls.current.set(source.name, url);
+    }
+
+    // If the currently selected source changed settings, update our active state
+    if (event.inputName === selectedSourceRef.current) {
+      fetchActiveState(profileId, event.inputName);
     }
+    if (event.inputName === previewSourceRef.current) {
+      fetchActiveState(profileId, event.inputName, 'previewSourceUrl');
+    }
+  });
+
+  // Renamed inputs keep their selection, failover chain, cues and group defaults
+  useIngestEvent(ingest, 'InputNameChanged', (profileId, { oldInputName, inputName }) => {
+    if (leadProfile?.id !== profileId) return;
+    const rename = (name: string) => (name === oldInputName ? inputName : name);
+    setSelectedSource(rename);
+    setPreviewSource(rename);
+    setFailoverChains(prev => Object.fromEntries(Object.entries(prev).map(([name, chain]) => [rename(name), chain])));
+    setRunOfShow(prev => ({ ...prev, cues: prev.cues.map(c => ({ ...c, sourceName: rename(c.sourceName) })) }));
+    setGroups(prev => prev.map(g => (g.defaultSource ? { ...g, defaultSource: rename(g.defaultSource) } : g)));
+    const url = knownUrls.current.get(oldInputName);
+    if (url) knownUrls.current.set(inputName, url);
+    knownUrls.current.delete(oldInputName);
+  });
+
+  // --- Thumbnails & Dashboard ---
+  // The dashboard shows every source; otherwise only the target (and Studio Mode preview) source
+  const thumbnailSources = !isAnyConnected ? [] : dashboard
+    ? sources.map(s => s.name)
+    : [...new Set([selectedSource, studioMode ? previewSource : ''])].filter(Boolean);
+
+  // A frame of a source on program becomes the picture of whichever link it plays
+  const rememberLinkFrames = (frames: Record<string, string>) => {
+    const updates = Object.entries(frames).flatMap(([sourceName, frame]) => {
+      if (!programInputs.includes(sourceName)) return [];
+      const link = linkForUrl(sourceUrlOf(sourceName));
+      return link ? [[link.id, frame] as const] : [];
+    });
+    if (updates.length > 0) setLinkFrames(prev => ({ ...prev, ...Object.fromEntries(updates) }));
+  };
+
+  const leadController = leadProfile ? controllerOf(leadProfile.id) : undefined;
+  const thumbnails = useSourceThumbnails(leadController, thumbnailSources, thumbnailSeconds * 1000, rememberLinkFrames);
+  // VU meter for the target source on the lead instance, drawn only in setup
+  const targetMeter = useVolumeMeter(isAnyConnected && !operatorView ? leadController : undefined, sources.some(s => s.name === selectedSource) ? selectedSource : '');
+  const sourceUrlOf = (sourceName: string) => leadStatus?.sourceUrls[sourceName]
+    ?? connectedProfiles.map(p => statusOf(p.id).sourceUrls[sourceName]).find(Boolean)
+    ?? null;
+
+  // --- Output Status & Live Guard ---
+  // Stream and record state follow the lead instance, like Studio Mode
+  const outputStatus = useOutputStatus(leadStatus?.isConnected ? leadController : undefined);
+  const isLive = !!outputStatus?.streaming;
+
+  // Confirms or refuses a hand-fired switch of a source on air while streaming, unless the link is marked safe
+  const passesLiveGuard = (link: LinkItem, sourceName: string, sceneTarget: Tally, trigger: SwitchTrigger) => {
+    if (liveGuard === 'off' || !isLive || link.safe || sceneTarget !== 'program') return true;
+    if (!GUARDED_TRIGGERS.includes(trigger) || !programInputs.includes(sourceName)) return true;
+    if (liveGuard === 'confirm') return window.confirm(`You're live. Switch ${sourceName} to "${link.name}"?`);
+    const error = `Live: only links marked safe can switch ${sourceName} while streaming`;
+    targetProfiles.forEach(p => updateSession(p.id, { switchError: error }));
+    return false;
+  };
+  const cycleLiveGuard = () => {
+    const order = Object.keys(LIVE_GUARD_LABELS) as LiveGuard[];
+    setLiveGuard(order[(order.indexOf(liveGuard) + 1) % order.length]);
+  };
+
+  // --- Operator Sync ---
+  // The library lives in the lead instance's OBS profile; secrets stay in this browser
+  const sharedContent = useMemo(() => toLibraryContent(links, groups, variables, customKinds), [links, groups, variables, customKinds]);
+  const adoptSharedLibrary = (library: SharedLibrary) => {
+    const kept = keepLocalSecrets(library, { variables, groups });
+    setLinks(prev => keepLocalBindings(library.links, prev));
+    setGroups(kept.groups);
+    setVariables(kept.variables);
+    updateCustomKinds(library.customKinds);
+  };
+  const operatorSync = useOperatorSync(leadStatus?.isConnected ? leadController : undefined, syncConfig, clientId, sharedContent, adoptSharedLibrary);
+
+  // Shows why a switch or take was refused while another operator holds control
+  const refuseLockedOut = () => {
+    const error = operatorSync.refusal;
+    if (error) targetProfiles.forEach(p => updateSession(p.id, { switchError: error }));
+    return !!error;
+  };
+
+  const handleTakeControl = async (force = false) => {
+    if (force && !window.confirm(`Take control from ${operatorSync.lock?.operator}? Their switches stop working until they take it back.`)) return;
+    setControlError(await operatorSync.takeControl(force));
+  };
+
+  const handleReleaseControl = async () => {
+    setControlError(await operatorSync.releaseControl());
+  };
+
+  // Control pill shown once sync is talking to OBS; clicking it takes, releases or takes over the lock
+  const controlAvailable = syncConfig.enabled && !!leadStatus?.isConnected;
+  const controlBadge = operatorSync.hasControl
+    ? { label: 'You have control', className: 'bg-emerald-500/10 border-emerald-500 text-emerald-400', title: 'Release control' }
+    : operatorSync.lockedOut
+      ? { label: `${operatorSync.lock?.operator} has control`, className: 'bg-amber-500/10 border-amber-500 text-amber-400', title: 'Take over control' }
+      : { label: 'Take Control', className: 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600', title: 'Only this browser can switch while it holds control' };
+  const handleControlClick = () => (operatorSync.hasControl ? handleReleaseControl() : handleTakeControl(operatorSync.lockedOut));
+
+  // The copy in OBS replaces this browser's library as soon as sync connects, so turning it on asks first
+  const toggleSync = () => {
+    if (!syncConfig.enabled && !window.confirm('Share the link library through OBS? If OBS already holds one, it replaces the links, groups, variables and source kinds in this browser.')) return;
+    setSyncConfig({ ...syncConfig, enabled: !syncConfig.enabled });
+  };
+
+  // --- Companion Server ---
+  // Mirrors the link list and selected source to the companion so scripts switch the same targets.
+  // It applies the live guard and control lock to its own switches, as this browser last reported them.
+  const companionLockedBy = operatorSync.lockedOut ? operatorSync.lock?.operator ?? null : null;
+  const companionSync = useMemo(
+    () => ({ links, variables, groups, defaultSource: selectedSource, liveGuard, lockedBy: companionLockedBy }),
+    [links, variables, groups, selectedSource, liveGuard, companionLockedBy],
+  );
+  const companion = useCompanion(companionConfig, companionSync);
+
+  // --- Failover ---
+  // Only the lead instance drives failover, and only while nobody else holds control; other targets follow its switches
+  const failover = useFailover(
+    leadStatus?.isConnected && !operatorSync.lockedOut ? leadController : undefined,
+    failoverChains,
+    links,
+    (link, sourceName) => switchMedia(link, sourceName, 'program', 'failover'),
+    resolveLinkUrl,
+    operatorSync.refusal,
+  );
+
+  // --- Run of Show ---
+  const schedule = useRunOfShow(
+    runOfShow,
+    setRunOfShow,
+    links,
+    (link, sourceName) => switchMedia(link, sourceName, 'program', 'schedule'),
+    operatorSync.refusal,
+  );
+
+  const handleAddCue = (cue: Omit<ScheduleCue, 'id' | 'status'>) => {
+    setRunOfShow(prev => ({ ...prev, cues: [...prev.cues, { ...cue, id: generateId(), status: 'pending' }] }));
+  };
+
+  const updateFailoverChain = (sourceName: string, patch: Partial<FailoverChain>) => {
+    setFailoverChains(prev => ({ ...prev, [sourceName]: { ...(prev[sourceName] ?? createFailoverChain()), ...patch } }));
   };
 
   // --- Link Management ---
-  const handleAddLink = () => {
-    if (!tempName.trim() || !tempUrl.trim()) return;
-    setLinks([...links, { id: Math.random().toString(36).substring(2, 9), name: tempName, url: tempUrl }]);
+  const tempSettingsResult = parseLinkSettingsDraft(tempSettings);
+  const tempSceneResult = parseSceneActionDraft(tempSceneAction);
+  const tempAudioResult = parseAudioDraft(tempAudio);
+  const hasTempSettingsErrors = Object.keys(tempSettingsResult.errors).length + Object.keys(tempSceneResult.errors).length
+    + Object.keys(tempAudioResult.errors).length > 0;
+  const tempResolved = resolveTemplate(tempUrl, variableScope(variables, groups.find(g => g.id === tempGroupId)));
+  // Checked as it will be sent, so only once every variable resolves
+  const tempCheck = tempUrl.trim() && tempResolved.missing.length === 0 ? parseStreamUrl(tempResolved.url) : null;
+  const tempSrt = /^srt:\/\//i.test(tempUrl.trim()) ? readSrtOptions(tempUrl) : null;
+  const setTempSrtOption = (key: keyof SrtOptions, value: string) => setTempUrl(writeSrtOptions(tempUrl, { [key]: value }));
+
+  // Group, color, tags and the live-safe mark as they'd be saved from the editor
+  const tempOrganization = () => ({
+    groupId: tempGroupId || undefined,
+    color: tempColor,
+    tags: parseTags(tempTags),
+    safe: tempSafe || undefined,
+  });
+
+  const resetLinkDraft = () => {
+    setEditingLinkId(null);
     setTempName('');
     setTempUrl('');
+    // New links land in the group being viewed
+    setTempGroupId(groups.some(g => g.id === activeTab) ? activeTab : '');
+    setTempColor(undefined);
+    setTempTags('');
+    setTempSafe(false);
+    setTempSettings(toLinkSettingsDraft());
+    setTempSceneAction(toSceneActionDraft());
+    setTempAudio(toAudioDraft());
+    setIsLinkSettingsOpen(false);
+  };
+
+  const handleAddLink = () => {
+    if (!tempName.trim() || !tempUrl.trim() || hasTempSettingsErrors) return;
+    setLinks([...links, { id: generateId(), name: tempName, url: tempUrl, settings: tempSettingsResult.settings, sceneAction: tempSceneResult.sceneAction, audio: tempAudioResult.audio, ...tempOrganization() }]);
+    resetLinkDraft();
   };
 
   const handleDeleteLink = (id: string) => {
+    if (learningLinkId === id) setLearningLinkId(null);
     setLinks(links.filter(l => l.id !== id));
+    setFailoverChains(prev => Object.fromEntries(
+      Object.entries(prev).map(([name, chain]) => [name, { ...chain, linkIds: chain.linkIds.filter(linkId => linkId !== id) }])
+    ));
+    dropLinkFrame(id);
+  };
+
+  const dropLinkFrame = (id: string) => {
+    setLinkFrames(prev => {
+      if (!(id in prev)) return prev;
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
   };
 
   const startEditing = (link: LinkItem) => {
     setEditingLinkId(link.id);
     setTempName(link.name);
     setTempUrl(link.url);
+    setTempSettings(toLinkSettingsDraft(link.settings));
+    setTempSceneAction(toSceneActionDraft(link.sceneAction));
+    setTempAudio(toAudioDraft(link.audio));
+    setIsLinkSettingsOpen(countLinkSettings(link.settings) > 0 || !!link.sceneAction || !!link.audio);
+    setTempGroupId(link.groupId ?? '');
+    setTempColor(link.color);
+    setTempTags(link.tags?.join(', ') ?? '');
+    setTempSafe(!!link.safe);
   };
 
   const saveEditing = () => {
-    setLinks(links.map(l => l.id === editingLinkId ? { ...l, name: tempName, url: tempUrl } : l));
-    setEditingLinkId(null);
-    setTempName('');
-    setTempUrl('');
+    if (hasTempSettingsErrors) {
+      setIsLinkSettingsOpen(true);
+      return;
+    }
+    setLinks(links.map(l => l.id === editingLinkId ? { ...l, name: tempName, url: tempUrl, settings: tempSettingsResult.settings, sceneAction: tempSceneResult.sceneAction, audio: tempAudioResult.audio, ...tempOrganization() } : l));
+    // A new URL makes the remembered frame someone else's picture
+    if (editingLinkId && links.find(l => l.id === editingLinkId)?.url !== tempUrl) dropLinkFrame(editingLinkId);
+    resetLinkDraft();
+  };
+
+  // --- Groups & Ordering ---
+  const groupOf = (link: LinkItem) => groups.find(g => g.id === link.groupId);
+  const linksInTab = (tab: string) => {
+    if (tab === ALL_TAB) return links;
+    if (tab === UNGROUPED_TAB) return links.filter(l => !groupOf(l));
+    return links.filter(l => l.groupId === tab);
+  };
+  const ungroupedCount = linksInTab(UNGROUPED_TAB).length;
+  const quickSwitchTabs: { id: string; name: string; color?: LinkColor }[] = [
+    { id: ALL_TAB, name: 'All' },
+    ...groups.map(g => ({ id: g.id, name: g.name, color: g.color })),
+    ...(ungroupedCount > 0 ? [{ id: UNGROUPED_TAB, name: 'Ungrouped' }] : []),
+  ];
+  const visibleLinks = linksInTab(activeTab).filter(l => matchesLinkFilter(l, linkFilter));
+
+  // Opening a group's tab also targets its default source, when this OBS has it
+  const openTab = (tab: string) => {
+    setActiveTab(tab);
+    const defaultSource = groups.find(g => g.id === tab)?.defaultSource;
+    if (defaultSource && sources.some(s => s.name === defaultSource)) setSelectedSource(defaultSource);
+  };
+
+  const resetGroupDraft = () => {
+    setEditingGroupId(null);
+    setGroupDraft({ id: '', name: '' });
   };
 
+  const handleSaveGroup = () => {
+    const name = groupDraft.name.trim();
+    if (!name) return;
+    if (editingGroupId) {
+      setGroups(groups.map(g => g.id === editingGroupId ? { ...groupDraft, name } : g));
+    } else {
+      setGroups([...groups, { ...groupDraft, id: generateId(), name }]);
+    }
+    resetGroupDraft();
+  };
+
+  const startEditingGroup = (group: LinkGroup) => {
+    setEditingGroupId(group.id);
+    setGroupDraft(group);
+  };
+
+  // Links of a deleted group become ungrouped
+  const handleDeleteGroup = (id: string) => {
+    setGroups(groups.filter(g => g.id !== id));
+    setLinks(links.map(l => l.groupId === id ? { ...l, groupId: undefined } : l));
+    if (activeTab === id) setActiveTab(ALL_TAB);
+    if (tempGroupId === id) setTempGroupId('');
+    resetGroupDraft();
+  };
+
+  // New kinds change which inputs count as sources, so every instance is asked again
+  const updateCustomKinds = (next: CustomKind[]) => {
+    applyCustomKinds(next);
+    setCustomKinds(next);
+    fetchAllSources();
+  };
+
+  // --- Source Management ---
+  // Changes go to every switch target so same-named sources stay in step; the lead alone when none is a target
+  const managedProfiles = targetProfiles.length > 0 ? targetProfiles : leadProfile ? [leadProfile] : [];
+  const createScene = sceneNames.includes(sourceDraft.sceneName) ? sourceDraft.sceneName : sceneNames[0] ?? '';
+  const arrangeScene = sceneNames.includes(layoutScene) ? layoutScene : leadStatus?.programScene ?? sceneNames[0] ?? '';
+
+  const manageSources = async (action: (controller: IngestController) => Promise<string | null>) => {
+    setSourceBusy(true);
+    const errors = await Promise.all(managedProfiles.map(async profile => {
+      const controller = controllerOf(profile.id);
+      const error = controller ? await action(controller) : null;
+      return error && managedProfiles.length > 1 ? `${profile.name}: ${error}` : error;
+    }));
+    setSourceBusy(false);
+    const failed = errors.filter(Boolean);
+    setSourceError(failed.length > 0 ? failed.join(' ') : null);
+    return failed.length === 0;
+  };
+
+  // Jumps from the empty source picker to the create form
+  const startCreateSource = () => {
+    document.getElementById('source-manager')?.scrollIntoView({ behavior: 'smooth' });
+    sourceNameInputRef.current?.focus({ preventScroll: true });
+  };
+
+  const handleCreateSource = async () => {
+    const name = sourceDraft.name.trim();
+    const link = links.find(l => l.id === sourceDraft.linkId);
+    const resolved = link ? resolveLinkUrl(link) : null;
+    if (!name || !createScene) return;
+    if (link && resolved && resolved.missing.length > 0) {
+      setSourceError(`"${link.name}" needs ${resolved.missing.map(n => `{${n}}`).join(', ')} before it can be loaded.`);
+      return;
+    }
+    const invalid = resolved ? validateInputUrl(sourceDraft.kind, resolved.url) : null;
+    if (invalid) {
+      setSourceError(invalid);
+      return;
+    }
+    const created = await manageSources(controller => controller.createSource(createScene, name, sourceDraft.kind, resolved?.url, link?.settings));
+    if (!created) return;
+    setSourceDraft({ ...EMPTY_SOURCE_DRAFT, kind: sourceDraft.kind, sceneName: sourceDraft.sceneName });
+    if (!selectedSource) setSelectedSource(name);
+  };
+
+  // "Name 2", "Name 3", ... whichever isn't taken yet
+  const duplicateName = (name: string) => {
+    const base = name.replace(/ \d+$/, '');
+    let n = 2;
+    while (sources.some(s => s.name === `${base} ${n}`)) n++;
+    return `${base} ${n}`;
+  };
+
+  const handleDuplicateSource = (name: string) => {
+    manageSources(controller => controller.duplicateSource(name, duplicateName(name), arrangeScene));
+  };
+
+  const handleRenameSource = async () => {
+    if (!renamingSource) return;
+    const newName = renamingSource.draft.trim();
+    if (!newName || newName === renamingSource.name) {
+      setRenamingSource(null);
+      return;
+    }
+    if (await manageSources(controller => controller.renameSource(renamingSource.name, newName))) setRenamingSource(null);
+  };
+
+  const handleRemoveSource = (name: string) => {
+    const where = managedProfiles.length > 1 ? ` on ${managedProfiles.length} instances` : '';
+    if (!window.confirm(`Remove "${name}" from OBS${where}? It disappears from every scene it's in.`)) return;
+    manageSources(controller => controller.removeSource(name));
+  };
+
+  const handlePlaceSource = (name: string, preset: LayoutPreset) => {
+    manageSources(controller => controller.placeSource(arrangeScene, name, preset));
+  };
+
+  const endDrag = () => {
+    setDraggingLinkId(null);
+    setDragOverLinkId(null);
+  };
+
+  // Shared by Quick Switch tiles and Link Manager rows; order is the links array itself
+  const dragProps = (link: LinkItem) => ({
+    draggable: true,
+    onDragStart: (e: React.DragEvent) => {
+      e.dataTransfer.effectAllowed = 'move';
+      e.dataTransfer.setData('text/plain', link.id);
+      setDraggingLinkId(link.id);
+    },
+    onDragOver: (e: React.DragEvent) => {
+      if (!draggingLinkId) return;
+      e.preventDefault();
+      setDragOverLinkId(link.id);
+    },
+    onDragLeave: () => setDragOverLinkId(prev => (prev === link.id ? null : prev)),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      if (draggingLinkId) setLinks(prev => moveLinkTo(prev, draggingLinkId, link.id));
+      endDrag();
+    },
+    onDragEnd: endDrag,
+  });
+
+  const dragClassName = (link: LinkItem) =>
+    draggingLinkId === link.id ? 'opacity-40' : dragOverLinkId === link.id ? 'ring-2 ring-white/40' : '';
+
   const handleExport = () => {
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(links, null, 2));
-    const a = document.createElement('a');
-    a.href = dataStr;
-    a.download = "bane_ingest_links.json";
-    a.click();
+    const bundle = createExportBundle(links, groups, { probeFirst, numberKeys, midiEnabled }, profiles, variables, exportSecrets);
+    downloadText('bane_ingest_links.json', 'text/json', JSON.stringify(bundle, null, 2));
   };
 
   const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -289,286 +1473,1517 @@ if (savedConn) {
     if (file) {
       const reader = new FileReader();
       reader.onload = (e) => {
-        try {
-          const result = JSON.parse(e.target?.result as string);
-          if (Array.isArray(result)) {
-             const newLinks = result.filter((l: any) => l.name && l.url).map((l: any) => ({ ...l, id: Math.random().toString(36).substring(2, 9) }));
-             setLinks(prev => [...prev, ...newLinks]);
-          }
-        } catch (err) {
-          alert("Failed to import JSON.");
-        }
+        const parsed = parseImportFile(file.name, e.target?.result as string);
+        setPendingImport({ fileName: file.name, parsed });
       };
+      reader.onerror = () => alert(`Failed to read ${file.name}.`);
       reader.readAsText(file);
     }
     event.target.value = '';
   };
 
+  const importEntries = pendingImport ? classifyImport(links, groups, pendingImport.parsed) : [];
+  // Profiles already known by address and port are left alone
+  const importableProfiles = pendingImport?.parsed.profiles.filter(p =>
+    !profiles.some(existing => existing.address === p.address && existing.port === p.port)
+  ) ?? [];
+
+  const confirmImport = ({ strategy, applySettings, addProfiles }: ImportOptions) => {
+    if (!pendingImport) return;
+    const { parsed } = pendingImport;
+    const merged = mergeImport(links, groups, variables, parsed, importEntries, strategy, generateId);
+    setLinks(merged.links);
+    setGroups(merged.groups);
+    setVariables(merged.variables);
+    if (applySettings && parsed.settings) {
+      setProbeFirst(parsed.settings.probeFirst);
+      setNumberKeys(parsed.settings.numberKeys);
+      setMidiEnabled(parsed.settings.midiEnabled);
+    }
+    if (addProfiles && importableProfiles.length > 0) {
+      setProfiles(prev => [...prev, ...importableProfiles.map(p => createProfile({ ...p, id: generateId(), password: '' }))]);
+    }
+    setPendingImport(null);
+  };
+
   // --- RENDER ---
   return (
     <div className="min-h-screen bg-black text-white font-sans p-6 md:p-12 flex flex-col items-center selection:bg-neutral-800 selection:text-white">
       
-      {/* Header */}
-      <header className="w-full max-w-5xl mb-16 flex flex-col md:flex-row justify-between items-center text-center md:text-left gap-6">
-        <div>
-          <h1 className="text-3xl md:text-5xl font-medium tracking-tight mb-2 text-white">
-            Bane Ingest Switcher
-          </h1>
-          <p className="text-neutral-400 font-medium">
-            OBS WebSocket Link Manager
-          </p>
-        </div>
-        <a 
-          href="https://linktr.ee/baneeminent" 
-          target="_blank" 
-          rel="noopener noreferrer"
-          className="group flex items-center gap-2 px-5 py-2.5 bg-neutral-900/50 hover:bg-neutral-800 border border-neutral-800 rounded-full transition-all"
-        >
-          <span className="text-sm text-neutral-400 group-hover:text-white transition-colors">created by @baneeminent</span>
-        </a>
-      </header>
-
-      <main className="w-full max-w-5xl space-y-16">
-
-        {/* Connection Panel (Pill Style) */}
-        <div className="flex justify-center sticky top-6 z-10">
-           <div className={`bg-neutral-900/90 backdrop-blur-xl border border-neutral-800 shadow-2xl rounded-[2.5rem] overflow-hidden transition-all duration-500 ease-[cubic-bezier(0.32,0.72,0,1)] ${isConnectPanelOpen ? 'w-full max-w-xl p-2' : 'w-auto'}`}>
+      {operatorView ? (
+        <OperatorView
+          connectedNames={connectedProfiles.map(p => p.name)}
+          outputStatus={outputStatus}
+          sources={sources}
+          selectedSource={selectedSource}
+          onSelectSource={setSelectedSource}
+          studioMode={studioMode}
+          loadTarget={loadTarget}
+          onLoadTarget={setLoadTarget}
+          onTake={takeAll}
+          control={controlAvailable ? { ...controlBadge, locked: !!operatorSync.lock } : null}
+          onControlClick={handleControlClick}
+          confirmSwitch={confirmSwitch}
+          onConfirmSwitch={setConfirmSwitch}
+          keepAwake={keepAwake}
+          onKeepAwake={setKeepAwake}
+          errors={[
+            ...(controlError ? [controlError] : []),
+            ...connectedProfiles.filter(p => statusOf(p.id).switchError).map(p => `${p.name}: ${statusOf(p.id).switchError}`),
+          ]}
+          tabs={groups.length > 0 ? quickSwitchTabs : []}
+          activeTab={activeTab}
+          onOpenTab={openTab}
+          tiles={visibleLinks.map(link => ({
+            link,
+            active: currentSourceUrl === resolvedUrlOf(link),
+            health: linkHealth[link.id],
+            tally: tallyOf(link),
+            color: link.color ?? groupOf(link)?.color,
+            frame: linkFrames[link.id],
+            fired: firedLinkId === link.id,
+          }))}
+          hasLinks={links.length > 0}
+          canSwitch={loadTarget === 'preview' ? !!previewSource : !!selectedSource}
+          onSwitch={link => handleQuickSwitch(link)}
+          onClose={() => openOperatorView(false)}
+        />
+      ) : (
+        <>
+        {/* Header */}
+        <header className="w-full max-w-5xl mb-16 flex flex-col md:flex-row justify-between items-center text-center md:text-left gap-6">
+          <div>
+            <h1 className="text-3xl md:text-5xl font-medium tracking-tight mb-2 text-white">
+              Bane Ingest Switcher
+            </h1>
+            <p className="text-neutral-400 font-medium">
+              OBS WebSocket Link Manager
+            </p>
+          </div>
+          <div className="flex flex-wrap justify-center items-center gap-3">
+            <button
+              onClick={() => openOperatorView(true)}
+              className="flex items-center gap-2 px-5 py-2.5 bg-white text-black rounded-full text-sm font-bold uppercase tracking-wider hover:bg-neutral-200 transition-all"
+              title="Big tiles for running the show on a tablet"
+            >
+              <TabletSmartphone className="w-4 h-4" /> Operator View
+            </button>
+            <a 
+              href="https://linktr.ee/baneeminent" 
+              target="_blank" 
+              rel="noopener noreferrer"
+              className="group flex items-center gap-2 px-5 py-2.5 bg-neutral-900/50 hover:bg-neutral-800 border border-neutral-800 rounded-full transition-all"
+            >
+              <span className="text-sm text-neutral-400 group-hover:text-white transition-colors">created by @baneeminent</span>
+            </a>
+          </div>
+        </header>
+
+        <main className="w-full max-w-5xl space-y-16">
+
+          {/* Connection Panel (Pill Style) */}
+          <div className="flex justify-center sticky top-6 z-10">
+             <div className={`bg-neutral-900/90 backdrop-blur-xl border border-neutral-800 shadow-2xl rounded-[2.5rem] overflow-hidden transition-all duration-500 ease-[cubic-bezier(0.32,0.72,0,1)] ${isConnectPanelOpen ? 'w-full max-w-xl p-2' : 'w-auto'}`}>
               
-              {/* Collapsed Trigger */}
-              <button 
-                className={`flex items-center gap-4 px-8 py-4 hover:bg-neutral-800/50 transition-colors ${isConnectPanelOpen ? 'hidden' : 'flex'}`}
-                onClick={() => setIsConnectPanelOpen(true)}
-              >
-                <div className="relative flex h-3 w-3">
-                  {isConnected && <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-emerald-500 opacity-75"></span>}
-                  <span className={`relative inline-flex rounded-full h-3 w-3 ${isConnected ? 'bg-emerald-500' : 'bg-rose-500'}`}></span>
-                </div>
-                <span className="font-medium text-white">
-                  {isConnected ? 'OBS Connected' : 'OBS Disconnected'}
-                </span>
-                <Settings className="w-5 h-5 text-neutral-500" />
-              </button>
-
-              {/* Expanded Form */}
-              <div className={`${isConnectPanelOpen ? 'block' : 'hidden'} p-6 md:p-8 space-y-8`}>
-                <div className="flex justify-between items-center">
-                  <h2 className="text-xl font-medium text-white">Connection Settings</h2>
-                  <button onClick={() => setIsConnectPanelOpen(false)} className="p-2 bg-neutral-800 hover:bg-neutral-700 rounded-full text-neutral-400 hover:text-white transition-colors">
-                    <X className="w-5 h-5" />
-                  </button>
-                </div>
+                {/* Collapsed Trigger */}
+                <button 
+                  className={`flex items-center gap-4 px-8 py-4 hover:bg-neutral-800/50 transition-colors ${isConnectPanelOpen ? 'hidden' : 'flex'}`}
+                  onClick={() => setIsConnectPanelOpen(true)}
+                >
+                  <div className="flex items-center -space-x-1">
+                    {profiles.map(p => {
+                      const status = statusOf(p.id);
+                      const isReconnecting = !status.isConnected && status.reconnectAt !== null;
+                      return (
+                        <div key={p.id} className="relative flex h-3 w-3" title={p.name}>
+                          {(status.isConnected || isReconnecting) && <span className={`animate-ping absolute inline-flex h-full w-full rounded-full opacity-75 ${status.isConnected ? 'bg-emerald-500' : 'bg-amber-500'}`}></span>}
+                          <span className={`relative inline-flex rounded-full h-3 w-3 ring-2 ring-neutral-900 ${status.isConnected ? 'bg-emerald-500' : isReconnecting ? 'bg-amber-500' : 'bg-rose-500'}`}></span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <span className="font-medium text-white">
+                    {isAnyReconnecting
+                      ? `Reconnecting in ${secondsUntil(Math.min(...reconnectingProfiles.map(p => statusOf(p.id).reconnectAt ?? now)))}s`
+                      : profiles.length > 1
+                        ? `${connectedProfiles.length}/${profiles.length} OBS Connected`
+                        : isAnyConnected ? 'OBS Connected' : 'OBS Disconnected'}
+                  </span>
+                  {isAnyReconnecting && (
+                    <span className="text-xs font-bold uppercase tracking-widest text-neutral-500">
+                      Attempt {Math.max(...reconnectingProfiles.map(p => statusOf(p.id).reconnectAttempt))}
+                    </span>
+                  )}
+                  <Settings className="w-5 h-5 text-neutral-500" />
+                </button>
 
-                <div className="space-y-5">
-                  <div>
-                     <label className="block ml-4 mb-2 text-xs font-bold uppercase tracking-widest text-neutral-500">IP Address</label>
-                     <input 
-                       type="text" 
-                       value={address} 
-                       onChange={e => setAddress(e.target.value)} 
-                       disabled={isConnected}
-                       className="w-full bg-black border border-neutral-800 rounded-full px-6 py-4 text-white placeholder:text-neutral-600 focus:border-white focus:outline-none transition-colors disabled:opacity-50"
-                       placeholder="localhost"
-                     />
+                {/* Expanded Form */}
+                <div className={`${isConnectPanelOpen ? 'block' : 'hidden'} p-6 md:p-8 space-y-8`}>
+                  <div className="flex justify-between items-center">
+                    <h2 className="text-xl font-medium text-white">Connection Settings</h2>
+                    <button onClick={() => setIsConnectPanelOpen(false)} className="p-2 bg-neutral-800 hover:bg-neutral-700 rounded-full text-neutral-400 hover:text-white transition-colors">
+                      <X className="w-5 h-5" />
+                    </button>
                   </div>
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                        <label className="block ml-4 mb-2 text-xs font-bold uppercase tracking-widest text-neutral-500">Port</label>
-                        <input 
-                          type="text" 
-                          value={port} 
-                          onChange={e => setPort(e.target.value)} 
-                          disabled={isConnected}
-                          className="w-full bg-black border border-neutral-800 rounded-full px-6 py-4 text-white placeholder:text-neutral-600 focus:border-white focus:outline-none transition-colors disabled:opacity-50"
-                          placeholder="4455"
-                        />
+
+                  {/* Saved Profiles */}
+                  <div className="space-y-3">
+                    {profiles.map(p => {
+                      const status = statusOf(p.id);
+                      const isReconnecting = !status.isConnected && status.reconnectAt !== null;
+                      return (
+                        <div key={p.id} className={`p-4 pl-6 bg-black border rounded-[2rem] ${editingProfileId === p.id ? 'border-white' : 'border-neutral-800'}`}>
+                          <div className="flex items-center gap-4">
+                            <span className={`shrink-0 rounded-full h-3 w-3 ${status.isConnected ? 'bg-emerald-500' : isReconnecting ? 'bg-amber-500 animate-pulse' : 'bg-rose-500'}`}></span>
+                            <div className="min-w-0 flex-1">
+                              <div className="font-medium text-white truncate">{p.name}</div>
+                              <div className="text-neutral-500 text-sm font-mono truncate">
+                                {p.address}:{p.port}
+                                {status.isConnected && ` · ${status.sources.length} sources`}
+                                {isReconnecting && ` · retry ${status.reconnectAttempt} in ${secondsUntil(status.reconnectAt)}s`}
+                              </div>
+                            </div>
+                            <button
+                              onClick={() => startEditingProfile(p)}
+                              disabled={status.isConnected}
+                              className="p-2 text-neutral-400 hover:text-white hover:bg-neutral-800 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                              title="Edit Profile"
+                            >
+                              <Edit2 className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDeleteProfile(p.id)}
+                              disabled={profiles.length === 1}
+                              className="p-2 text-neutral-400 hover:text-rose-500 hover:bg-rose-950 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                              title="Delete Profile"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                            <button 
+                               onClick={() => status.isConnected ? disconnectOBS(p.id) : isReconnecting ? cancelReconnect(p.id) : connectToOBS(p)}
+                               className={`px-5 py-3 rounded-full text-xs font-bold tracking-wide uppercase flex items-center gap-2 transition-all active:scale-95 ${status.isConnected || isReconnecting ? 'bg-neutral-800 text-white hover:bg-neutral-700' : 'bg-white hover:bg-neutral-200 text-black'}`}
+                             >
+                               {status.isConnected ? <><Unplug className="w-4 h-4"/> Disconnect</> : isReconnecting ? <><X className="w-4 h-4"/> Stop</> : <><Cast className="w-4 h-4"/> Connect</>}
+                            </button>
+                          </div>
+                          {status.connError && <p className="mt-3 text-rose-500 text-sm font-medium bg-rose-500/10 px-4 py-2 rounded-2xl">{status.connError}</p>}
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  {/* Add/Edit Profile */}
+                  <div className="space-y-5">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                         <label className="block ml-4 mb-2 text-xs font-bold uppercase tracking-widest text-neutral-500">Profile Name</label>
+                         <input 
+                           type="text" 
+                           value={profileDraft.name} 
+                           onChange={e => setProfileDraft({ ...profileDraft, name: e.target.value })} 
+                           className="w-full bg-black border border-neutral-800 rounded-full px-6 py-4 text-white placeholder:text-neutral-600 focus:border-white focus:outline-none transition-colors"
+                           placeholder="Backup"
+                         />
+                      </div>
+                      <div>
+                         <label className="block ml-4 mb-2 text-xs font-bold uppercase tracking-widest text-neutral-500">IP Address</label>
+                         <input 
+                           type="text" 
+                           value={profileDraft.address} 
+                           onChange={e => setProfileDraft({ ...profileDraft, address: e.target.value })} 
+                           className="w-full bg-black border border-neutral-800 rounded-full px-6 py-4 text-white placeholder:text-neutral-600 focus:border-white focus:outline-none transition-colors"
+                           placeholder="localhost"
+                         />
+                      </div>
                     </div>
-                    <div>
-                        <label className="block ml-4 mb-2 text-xs font-bold uppercase tracking-widest text-neutral-500">Password</label>
-                        <input 
-                          type="password" 
-                          value={password} 
-                          onChange={e => setPassword(e.target.value)} 
-                          disabled={isConnected}
-                          className="w-full bg-black border border-neutral-800 rounded-full px-6 py-4 text-white placeholder:text-neutral-600 focus:border-white focus:outline-none transition-colors disabled:opacity-50"
-                          placeholder="••••••"
-                        />
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                          <label className="block ml-4 mb-2 text-xs font-bold uppercase tracking-widest text-neutral-500">Port</label>
+                          <input 
+                            type="text" 
+                            value={profileDraft.port} 
+                            onChange={e => setProfileDraft({ ...profileDraft, port: e.target.value })} 
+                            className="w-full bg-black border border-neutral-800 rounded-full px-6 py-4 text-white placeholder:text-neutral-600 focus:border-white focus:outline-none transition-colors"
+                            placeholder="4455"
+                          />
+                      </div>
+                      <div>
+                          <label className="block ml-4 mb-2 text-xs font-bold uppercase tracking-widest text-neutral-500">Password</label>
+                          <input 
+                            type="password" 
+                            value={profileDraft.password} 
+                            onChange={e => setProfileDraft({ ...profileDraft, password: e.target.value })} 
+                            className="w-full bg-black border border-neutral-800 rounded-full px-6 py-4 text-white placeholder:text-neutral-600 focus:border-white focus:outline-none transition-colors"
+                            placeholder="••••••"
+                          />
+                      </div>
                     </div>
                   </div>
-                </div>
 
-                <button 
-                   onClick={isConnected ? disconnectOBS : connectToOBS}
-                   className={`w-full py-4 rounded-full font-bold tracking-wide uppercase flex items-center justify-center gap-3 transition-all active:scale-95 ${isConnected ? 'bg-neutral-800 text-white hover:bg-neutral-700' : 'bg-white hover:bg-neutral-200 text-black'}`}
-                 >
-                   {isConnected ? <><Unplug className="w-5 h-5"/> Disconnect</> : <><Cast className="w-5 h-5"/> Connect</>}
-                </button>
-                {connError && <p className="text-rose-500 font-medium text-center bg-rose-500/10 py-3 rounded-2xl">{connError}</p>}
-              </div>
-           </div>
-        </div>
+                  <div className="flex gap-2">
+                    <button 
+                       onClick={handleSaveProfile}
+                       disabled={!profileDraft.address.trim() || !profileDraft.port.trim()}
+                       className="flex-1 py-4 rounded-full font-bold tracking-wide uppercase flex items-center justify-center gap-3 transition-all active:scale-95 bg-white hover:bg-neutral-200 text-black disabled:bg-neutral-800 disabled:text-neutral-600"
+                     >
+                       {editingProfileId ? <><Check className="w-5 h-5"/> Save Profile</> : <><Plus className="w-5 h-5"/> Add Profile</>}
+                    </button>
+                    {editingProfileId && (
+                      <button onClick={resetProfileDraft} className="p-4 bg-neutral-800 text-white rounded-full hover:bg-neutral-700 transition-colors" title="Cancel">
+                        <X className="w-6 h-6" />
+                      </button>
+                    )}
+                  </div>
+
+                  {/* Saved Passwords */}
+                  <div className="pt-8 border-t border-neutral-800 space-y-4">
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="ml-4">
+                        <h3 className="text-xs font-bold uppercase tracking-widest text-neutral-500">Saved Passwords</h3>
+                        <p className="text-sm text-neutral-500 mt-1">
+                          {vaultKey
+                            ? 'Encrypted with your passphrase (AES-GCM). Exports never include them.'
+                            : lockedVault
+                              ? 'Saved passwords are locked until you enter the passphrase.'
+                              : 'Not remembered: passwords and the companion token are forgotten when this tab closes.'}
+                        </p>
+                      </div>
+                      <button
+                        onClick={forgetAllCredentials}
+                        className="shrink-0 flex items-center gap-2 px-5 py-3 rounded-full border border-neutral-800 bg-black text-sm font-bold uppercase tracking-wider text-neutral-500 hover:border-rose-500 hover:text-rose-400 transition-all"
+                        title="Clear every password and token, saved or in memory"
+                      >
+                        <Trash2 className="w-4 h-4" /> Forget All
+                      </button>
+                    </div>
+                    {plaintextCleared && (
+                      <p className="ml-4 text-sm text-amber-400">Passwords or the companion token were stored in plain text by an older version and have been removed from storage. Set a passphrase to keep remembering them.</p>
+                    )}
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        onClick={stopRememberingPasswords}
+                        className={`flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${!vaultKey && !lockedVault ? 'bg-neutral-900 border-white text-white' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+                      >
+                        <EyeOff className="w-4 h-4" /> Don't Remember
+                      </button>
+                      <button
+                        onClick={() => (lockedVault ? setIsUnlockPromptOpen(true) : setIsPassphraseFormOpen(!isPassphraseFormOpen))}
+                        className={`flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${vaultKey || lockedVault ? 'bg-neutral-900 border-white text-white' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+                      >
+                        <Lock className="w-4 h-4" /> {lockedVault ? 'Unlock' : vaultKey ? 'Change Passphrase' : 'Encrypt'}
+                      </button>
+                    </div>
+                    {isPassphraseFormOpen && (
+                      <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-2">
+                        <input
+                          type="password"
+                          value={passphraseDraft.passphrase}
+                          onChange={e => setPassphraseDraft({ ...passphraseDraft, passphrase: e.target.value })}
+                          className="w-full bg-black border border-neutral-800 rounded-full px-6 py-4 text-white placeholder:text-neutral-600 focus:border-white focus:outline-none transition-colors"
+                          placeholder="Passphrase"
+                          autoComplete="new-password"
+                        />
+                        <input
+                          type="password"
+                          value={passphraseDraft.confirm}
+                          onChange={e => setPassphraseDraft({ ...passphraseDraft, confirm: e.target.value })}
+                          onKeyDown={e => e.key === 'Enter' && savePassphrase()}
+                          className="w-full bg-black border border-neutral-800 rounded-full px-6 py-4 text-white placeholder:text-neutral-600 focus:border-white focus:outline-none transition-colors"
+                          placeholder="Repeat passphrase"
+                          autoComplete="new-password"
+                        />
+                        <button
+                          onClick={savePassphrase}
+                          disabled={credentialBusy}
+                          className="p-4 bg-white text-black rounded-full hover:bg-neutral-200 transition-all disabled:opacity-50 justify-self-start"
+                          title="Save Passphrase"
+                        >
+                          <Check className="w-5 h-5" />
+                        </button>
+                      </div>
+                    )}
+                    {credentialError && !isUnlockPromptOpen && <p className="ml-4 text-rose-400 text-sm">{credentialError}</p>}
+                  </div>
 
-        {/* Main Interface Area */}
-        <div className={`space-y-16 transition-all duration-700 ${isConnected ? 'opacity-100 scale-100' : 'opacity-30 scale-95 pointer-events-none grayscale'}`}>
+                  <CompanionPanel
+                    config={companionConfig}
+                    onConfigChange={setCompanionConfig}
+                    status={companion.status}
+                    lastActivity={companion.lastActivity}
+                    links={links}
+                  />
+
+                  <SyncPanel
+                    config={syncConfig}
+                    onConfigChange={setSyncConfig}
+                    onToggle={toggleSync}
+                    status={operatorSync.status}
+                    error={operatorSync.error}
+                    lastUpdate={operatorSync.lastUpdate}
+                    leadName={leadProfile?.name}
+                  />
+                </div>
+             </div>
+          </div>
+
+          {/* Main Interface Area */}
+          <div className={`space-y-16 transition-all duration-700 ${isAnyConnected ? 'opacity-100 scale-100' : 'opacity-30 scale-95 pointer-events-none grayscale'}`}>
           
-          {/* Source Selector */}
-          <section>
-            <div className="flex items-center justify-between mb-6 px-4">
-              <h3 className="text-2xl font-medium text-white flex items-center gap-3">
-                <Radio className="w-6 h-6 text-neutral-400" /> Target Media Source
-              </h3>
-              <button onClick={fetchSources} className="p-3 bg-neutral-900 hover:bg-neutral-800 border border-neutral-800 rounded-full text-white transition-all" title="Refresh Sources">
-                <RefreshCw className="w-5 h-5" />
-              </button>
-            </div>
-            
-            {sources.length > 0 ? (
-              <div className="relative group">
-                <select
-                  value={selectedSource}
-                  onChange={(e) => setSelectedSource(e.target.value)}
-                  className="w-full appearance-none bg-black border border-neutral-800 hover:border-neutral-600 rounded-full px-8 py-6 text-xl font-medium text-white focus:border-white focus:outline-none transition-all cursor-pointer shadow-sm"
+            {/* Output Status */}
+            {outputStatus && (
+              <section className="flex flex-wrap items-center gap-3 px-4">
+                <span
+                  className={`flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider ${
+                    outputStatus.streamReconnecting ? 'border-amber-500/50 text-amber-400' : isLive ? 'border-rose-500/50 bg-rose-500/10 text-rose-400' : 'border-neutral-800 text-neutral-500'
+                  }`}
+                  title={`Stream on ${leadProfile?.name ?? 'the lead OBS'}`}
                 >
-                  {sources.map((s) => (
-                    <option key={s.name} value={s.name} className="bg-neutral-900 py-2">{s.name}</option>
-                  ))}
-                </select>
-                <div className="pointer-events-none absolute right-8 top-1/2 -translate-y-1/2 text-neutral-500 group-hover:text-white transition-colors">
-                  <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m6 9 6 6 6-6"/></svg>
+                  <Circle className={`w-2.5 h-2.5 ${isLive ? 'fill-rose-500 text-rose-500 animate-pulse' : 'fill-neutral-700 text-neutral-700'}`} />
+                  {outputStatus.streamReconnecting ? 'Reconnecting' : isLive ? 'Live' : 'Off Air'}
+                  {isLive && <span className="font-mono font-normal normal-case tracking-normal">{formatDuration(outputStatus.streamDurationMs)}</span>}
+                  {isLive && outputStatus.bitrateKbps !== null && (
+                    <span className="font-mono font-normal normal-case tracking-normal text-neutral-400">{Math.round(outputStatus.bitrateKbps)} kbps</span>
+                  )}
+                </span>
+                <span
+                  className={`flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider ${
+                    outputStatus.recordPaused ? 'border-amber-500/50 text-amber-400' : outputStatus.recording ? 'border-rose-500/50 text-rose-400' : 'border-neutral-800 text-neutral-500'
+                  }`}
+                >
+                  {outputStatus.recordPaused ? <Pause className="w-3 h-3" /> : <Circle className={`w-2.5 h-2.5 ${outputStatus.recording ? 'fill-rose-500 text-rose-500' : 'fill-neutral-700 text-neutral-700'}`} />}
+                  {outputStatus.recordPaused ? 'Paused' : outputStatus.recording ? 'Rec' : 'Not Recording'}
+                  {outputStatus.recording && <span className="font-mono font-normal normal-case tracking-normal">{formatDuration(outputStatus.recordDurationMs)}</span>}
+                </span>
+                <div className="flex flex-wrap items-center gap-x-5 gap-y-1 px-2 text-sm font-mono text-neutral-500">
+                  {isLive && (
+                    <span className={framePercent(outputStatus.droppedFrames, outputStatus.totalFrames) >= 1 ? 'text-amber-400' : ''} title="Frames the stream dropped on the network">
+                      Dropped {outputStatus.droppedFrames} ({framePercent(outputStatus.droppedFrames, outputStatus.totalFrames).toFixed(1)}%)
+                    </span>
+                  )}
+                  <span className={framePercent(outputStatus.renderSkippedFrames, outputStatus.renderTotalFrames) >= 1 ? 'text-amber-400' : ''} title="Frames OBS missed rendering">
+                    Lag {outputStatus.renderSkippedFrames} ({framePercent(outputStatus.renderSkippedFrames, outputStatus.renderTotalFrames).toFixed(1)}%)
+                  </span>
+                  <span>CPU {outputStatus.cpuUsage.toFixed(1)}%</span>
+                  <span>{outputStatus.activeFps.toFixed(0)} fps</span>
                 </div>
-              </div>
-            ) : (
-               <div className="p-8 text-center text-neutral-500 border-2 border-dashed border-neutral-800 rounded-[2rem] font-medium">
-                 {isConnected ? 'No compatible media sources found (ffmpeg, vlc, browser).' : 'Connect to OBS to see sources.'}
-               </div>
+                <div className="flex flex-wrap gap-3 md:ml-auto">
+                  <button
+                    onClick={cycleLiveGuard}
+                    className={`flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${liveGuard !== 'off' ? 'bg-neutral-900 border-white text-white' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+                    title="While streaming, hand-fired switches of the on-air source ask first or only go through for links marked safe"
+                  >
+                    <Shield className="w-4 h-4" /> Live Guard: {LIVE_GUARD_LABELS[liveGuard]}
+                  </button>
+                  <button
+                    onClick={() => setRecordChapters(!recordChapters)}
+                    className={`flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${recordChapters ? 'bg-neutral-900 border-white text-white' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+                    title="Mark a chapter named after the link on every switch while recording (OBS 30.2+, Hybrid MP4)"
+                  >
+                    <Bookmark className="w-4 h-4" /> Chapters
+                  </button>
+                </div>
+              </section>
             )}
-          </section>
 
-          {/* Quick Switch Links */}
-          <section>
-            <h3 className="text-2xl font-medium text-white mb-8 px-4 flex items-center gap-3">
-              <Play className="w-6 h-6 text-neutral-400" /> Quick Switch
-            </h3>
+            {/* Source Selector */}
+            <section>
+              <div className="flex items-center justify-between mb-6 px-4">
+                <h3 className="text-2xl font-medium text-white flex items-center gap-3">
+                  <Radio className="w-6 h-6 text-neutral-400" /> Target Media Source
+                </h3>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => setProbeFirst(!probeFirst)}
+                    className={`flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${probeFirst ? 'bg-neutral-900 border-white text-white' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+                    title="Load links into a hidden staging input and only switch once they play"
+                  >
+                    <Activity className="w-4 h-4" /> Probe First
+                  </button>
+                  <label className="flex items-center gap-2 px-5 py-3 rounded-full border border-neutral-800 bg-black text-sm font-bold uppercase tracking-wider text-neutral-500" title="How often thumbnails refresh; they pause while this tab is hidden">
+                    <ImageIcon className="w-4 h-4" />
+                    <select
+                      value={thumbnailSeconds}
+                      onChange={e => setThumbnailSeconds(Number(e.target.value))}
+                      className="bg-transparent text-white focus:outline-none cursor-pointer"
+                    >
+                      {THUMBNAIL_INTERVALS.map(seconds => (
+                        <option key={seconds} value={seconds} className="bg-neutral-900">{seconds === 0 ? 'Off' : `${seconds}s`}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <button
+                    onClick={() => setDashboard(!dashboard)}
+                    className={`flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${dashboard ? 'bg-neutral-900 border-white text-white' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+                    title="Show every compatible source as a card"
+                  >
+                    <LayoutGrid className="w-4 h-4" /> Dashboard
+                  </button>
+                  <button onClick={fetchAllSources} className="p-3 bg-neutral-900 hover:bg-neutral-800 border border-neutral-800 rounded-full text-white transition-all" title="Refresh Sources">
+                    <RefreshCw className="w-5 h-5" />
+                  </button>
+                </div>
+              </div>
             
-            <div className="flex flex-wrap gap-4">
-              {links.map(link => {
-                const isActive = currentSourceUrl === link.url;
-                return (
+              {sources.length > 0 ? (
+                <div className="relative group">
+                  <select
+                    value={selectedSource}
+                    onChange={(e) => setSelectedSource(e.target.value)}
+                    className="w-full appearance-none bg-black border border-neutral-800 hover:border-neutral-600 rounded-full px-8 py-6 text-xl font-medium text-white focus:border-white focus:outline-none transition-all cursor-pointer shadow-sm"
+                  >
+                    {sources.map((s) => (
+                      <option key={s.name} value={s.name} className="bg-neutral-900 py-2">
+                        {s.name}
+                        {connectedProfiles.length > 1 && ` (${connectedProfiles.filter(p => statusOf(p.id).sources.some(ps => ps.name === s.name)).map(p => p.name).join(', ')})`}
+                      </option>
+                    ))}
+                  </select>
+                  <div className="pointer-events-none absolute right-8 top-1/2 -translate-y-1/2 text-neutral-500 group-hover:text-white transition-colors">
+                    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m6 9 6 6 6-6"/></svg>
+                  </div>
+                </div>
+              ) : (
+                 <div className="p-8 text-center text-neutral-500 border-2 border-dashed border-neutral-800 rounded-[2rem] font-medium">
+                   {isAnyConnected ? 'No compatible media sources found. Create one here, or add their kind under Source Kinds.' : 'Connect to OBS to see sources.'}
+                   {isAnyConnected && (
+                     <button
+                       onClick={startCreateSource}
+                       className="mt-4 mx-auto flex items-center gap-2 px-5 py-3 bg-white text-black rounded-full text-sm font-bold uppercase tracking-wider hover:bg-neutral-200 transition-all"
+                     >
+                       <Plus className="w-4 h-4" /> Create Source
+                     </button>
+                   )}
+                 </div>
+              )}
+
+              {/* Target Audio Meter */}
+              {isAnyConnected && sources.some(s => s.name === selectedSource) && (
+                <div className="mt-4 flex items-center gap-4 px-6 py-3 bg-black/50 border border-neutral-800 rounded-full" title={`Audio level of "${selectedSource}"`}>
+                  <Volume2 className="shrink-0 w-4 h-4 text-neutral-500" />
+                  <div className="relative flex-1 h-2 bg-neutral-900 rounded-full overflow-hidden">
+                    <div ref={targetMeter.levelRef} className="absolute inset-0 bg-gradient-to-r from-emerald-500 via-amber-400 to-rose-500" style={{ clipPath: 'inset(0 100% 0 0)' }} />
+                    <div ref={targetMeter.peakRef} className="absolute inset-y-0 w-0.5 -ml-px bg-white" style={{ left: '0%' }} />
+                  </div>
+                  <span ref={targetMeter.labelRef} className="shrink-0 w-20 text-right text-xs font-mono text-neutral-400" />
+                </div>
+              )}
+
+              {/* Live Thumbnails */}
+              {!dashboard && thumbnailSources.some(name => thumbnails[name]) && (
+                <div className="mt-6 grid sm:grid-cols-2 gap-4">
+                  {thumbnailSources.filter(name => thumbnails[name]).map(name => (
+                    <div key={name} className="relative aspect-video bg-neutral-950 border border-neutral-800 rounded-[2rem] overflow-hidden">
+                      <img src={thumbnails[name]} alt={`${name} preview`} className="w-full h-full object-cover" />
+                      <span className="absolute bottom-3 left-4 px-2 py-0.5 rounded-full bg-black/70 text-xs font-medium text-white">
+                        {name}
+                        {name === previewSource && name !== selectedSource && <span className="text-emerald-400"> · Preview</span>}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Source Dashboard */}
+              {dashboard && sources.length > 0 && (
+                <div className="mt-6 grid sm:grid-cols-2 gap-4">
+                  {sources.map(source => {
+                    const url = sourceUrlOf(source.name);
+                    const link = linkForUrl(url);
+                    const health = link && linkHealth[link.id];
+                    const isSelected = source.name === selectedSource;
+                    const onProgram = programInputs.includes(source.name);
+                    const onPreview = !onProgram && studioMode && !!leadStatus?.previewInputs.includes(source.name);
+                    return (
+                      <div
+                        key={source.name}
+                        className={`flex flex-col bg-black border rounded-[2rem] overflow-hidden transition-all ${isSelected ? 'border-white' : 'border-neutral-800 hover:border-neutral-600'}`}
+                      >
+                        <button onClick={() => setSelectedSource(source.name)} className="relative aspect-video bg-neutral-950" title="Make this the target source">
+                          {thumbnails[source.name] ? (
+                            <img src={thumbnails[source.name]} alt="" className="w-full h-full object-cover" />
+                          ) : (
+                            <span className="absolute inset-0 flex items-center justify-center text-neutral-700">
+                              <MonitorPlay className="w-8 h-8" />
+                            </span>
+                          )}
+                          {(onProgram || onPreview) && (
+                            <span className={`absolute top-3 left-3 px-2 py-0.5 rounded-full border text-[10px] font-bold uppercase tracking-widest ${TALLY_BADGES[onProgram ? 'program' : 'preview'].className}`}>
+                              {TALLY_BADGES[onProgram ? 'program' : 'preview'].label}
+                            </span>
+                          )}
+                          {isSelected && (
+                            <span className="absolute top-3 right-3 px-2 py-0.5 rounded-full bg-white text-black text-[10px] font-bold uppercase tracking-widest">Target</span>
+                          )}
+                        </button>
+                        <div className="p-5 space-y-3">
+                          <div className="flex items-center justify-between gap-3">
+                            <span className="text-lg font-medium text-white truncate">{source.name}</span>
+                            {health && (
+                              <span className={`shrink-0 text-xs font-bold uppercase tracking-widest ${HEALTH_BADGES[health].className}`}>{HEALTH_BADGES[health].label}</span>
+                            )}
+                          </div>
+                          <p className="text-sm truncate" title={url ? masked(url) : undefined}>
+                            {link ? <span className="text-emerald-400">{link.name}</span> : <span className="text-neutral-500 font-mono">{url ? masked(url) : 'Empty'}</span>}
+                          </p>
+                          <select
+                            value=""
+                            onChange={e => {
+                              const picked = links.find(l => l.id === e.target.value);
+                              if (picked) switchMedia(picked, source.name);
+                            }}
+                            className="w-full appearance-none bg-neutral-950 border border-neutral-800 rounded-full px-5 py-3 text-white focus:border-white focus:outline-none cursor-pointer"
+                          >
+                            <option value="">Switch to…</option>
+                            {links.map(l => (
+                              <option key={l.id} value={l.id} className="bg-neutral-900">{l.name}{url && resolvedUrlOf(l) === url ? ' (live)' : ''}</option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {/* Per-instance switch targets */}
+              {profiles.length > 1 && (
+                <div className="mt-6 flex flex-wrap gap-3 px-4">
+                  <span className="self-center text-xs font-bold uppercase tracking-widest text-neutral-500 mr-2">Push To</span>
+                  {connectedProfiles.map(p => {
+                    const status = statusOf(p.id);
+                    const hasSource = status.sources.some(s => s.name === selectedSource);
+                    return (
+                      <button
+                        key={p.id}
+                        onClick={() => toggleSwitchTarget(p.id)}
+                        className={`flex items-center gap-2 px-4 py-2 rounded-full border text-sm font-medium transition-all ${p.switchTarget ? 'bg-neutral-900 border-white text-white' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+                        title={hasSource ? masked(status.currentSourceUrl || '') : `"${selectedSource}" not found on ${p.name}`}
+                      >
+                        {p.switchTarget ? <Check className="w-4 h-4" /> : <Circle className="w-4 h-4" />}
+                        {p.name}
+                        {!hasSource && <span className="text-amber-500 text-xs">missing</span>}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+              {/* Studio Mode preview target */}
+              {studioMode && (
+                <div className="mt-6">
+                  <label className="block ml-4 mb-2 text-xs font-bold uppercase tracking-widest text-neutral-500">
+                    Preview Source{leadStatus?.previewScene && ` · ${leadStatus.previewScene}`}
+                  </label>
+                  {previewCandidates.length > 0 ? (
+                    <select
+                      value={previewSource}
+                      onChange={e => setPreviewSource(e.target.value)}
+                      className="w-full appearance-none bg-black border border-neutral-800 hover:border-neutral-600 rounded-full px-8 py-4 text-lg font-medium text-white focus:border-white focus:outline-none transition-all cursor-pointer"
+                    >
+                      {previewCandidates.map(s => (
+                        <option key={s.name} value={s.name} className="bg-neutral-900">{s.name}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <p className="px-8 py-4 text-neutral-500 border border-dashed border-neutral-800 rounded-full">
+                      No compatible source is visible only in the preview scene.
+                    </p>
+                  )}
+                </div>
+              )}
+              {connectedProfiles.filter(p => statusOf(p.id).switchError).map(p => (
+                <p key={p.id} className="mt-4 text-rose-500 font-medium text-center bg-rose-500/10 py-3 rounded-2xl">
+                  {p.name}: {statusOf(p.id).switchError}
+                </p>
+              ))}
+            </section>
+
+            {/* Quick Switch Links */}
+            <section>
+              <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-8 px-4 gap-6">
+                <h3 className="text-2xl font-medium text-white flex items-center gap-3">
+                  <Play className="w-6 h-6 text-neutral-400" /> Quick Switch
+                </h3>
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    onClick={() => setNumberKeys(!numberKeys)}
+                    className={`flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${numberKeys ? 'bg-neutral-900 border-white text-white' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+                    title="Number keys 1–9 fire the first nine links shown"
+                  >
+                    <Keyboard className="w-4 h-4" /> 1–9
+                  </button>
                   <button
-                    key={link.id}
-                    onClick={() => switchMedia(link)}
-                    disabled={!selectedSource}
-                    className={`relative group flex items-center gap-4 pl-6 pr-8 py-5 rounded-full border-2 transition-all duration-200 active:scale-95 disabled:opacity-50 
-                      ${isActive 
-                        ? 'bg-neutral-900 border-emerald-500 shadow-[0_0_20px_rgba(16,185,129,0.2)]' 
-                        : 'bg-black border-neutral-800 hover:border-white hover:bg-neutral-900'}`}
+                    onClick={() => setMidiEnabled(!midiEnabled)}
+                    className={`flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${
+                      midiEnabled && midiFailed
+                        ? 'bg-rose-500/10 border-rose-500 text-rose-400'
+                        : midiEnabled ? 'bg-neutral-900 border-white text-white' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'
+                    }`}
+                    title={midi.status === 'ready' ? `Listening to ${midi.inputNames.join(', ') || 'no devices yet'}` : MIDI_STATUS_LABELS[midi.status]}
                   >
-                    {/* Active Indicator Dot */}
-                    <div className={`w-3 h-3 rounded-full transition-all duration-500 ${isActive ? 'bg-emerald-500 shadow-[0_0_10px_#10b981]' : 'bg-neutral-800 group-hover:bg-neutral-600'}`} />
+                    <Piano className="w-4 h-4" /> MIDI
+                    {midi.status === 'ready' && <span className="text-neutral-500">{midi.inputNames.length}</span>}
+                  </button>
+                  {controlAvailable && (
+                    <button
+                      onClick={handleControlClick}
+                      className={`flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${controlBadge.className}`}
+                      title={controlBadge.title}
+                    >
+                      {operatorSync.lock ? <Lock className="w-4 h-4" /> : <LockOpen className="w-4 h-4" />} {controlBadge.label}
+                    </button>
+                  )}
+                </div>
+                {studioMode && (
+                  <div className="flex flex-wrap gap-3">
+                    {(['program', 'preview'] as const).map(target => (
+                      <button
+                        key={target}
+                        onClick={() => setLoadTarget(target)}
+                        className={`flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${loadTarget === target ? TALLY_BADGES[target].className : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+                        title={target === 'program' ? `Load into ${selectedSource || 'the target source'}` : `Load into ${previewSource || 'the preview source'}`}
+                      >
+                        {target === 'program' ? <MonitorPlay className="w-4 h-4" /> : <Eye className="w-4 h-4" />} {TALLY_BADGES[target].label}
+                      </button>
+                    ))}
+                    <button
+                      onClick={takeAll}
+                      className="flex items-center gap-2 px-6 py-3 rounded-full bg-white text-black text-sm font-bold uppercase tracking-wider hover:bg-neutral-200 transition-all active:scale-95"
+                      title="Transition preview to program"
+                    >
+                      <Play className="w-4 h-4" /> Take
+                    </button>
+                  </div>
+                )}
+              </div>
+              {controlError && <p className="text-rose-400 text-sm -mt-4 mb-6 px-4">{controlError}</p>}
+            
+              {/* Group Tabs & Filter */}
+              <div className="flex flex-col md:flex-row gap-4 md:items-center mb-6 px-4">
+                <div className="flex flex-wrap gap-2 flex-1">
+                  {groups.length > 0 && quickSwitchTabs.map(tab => (
+                    <button
+                      key={tab.id}
+                      onClick={() => openTab(tab.id)}
+                      className={`flex items-center gap-2 px-4 py-2 rounded-full border text-sm font-medium transition-all ${
+                        activeTab === tab.id
+                          ? `bg-neutral-900 ${tab.color ? LINK_COLORS[tab.color].tab : 'border-white text-white'}`
+                          : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'
+                      }`}
+                    >
+                      {tab.color && <span className={`w-2 h-2 rounded-full ${LINK_COLORS[tab.color].dot}`} />}
+                      {tab.name}
+                      <span className="text-neutral-600">{linksInTab(tab.id).length}</span>
+                    </button>
+                  ))}
+                </div>
+                <div className="relative md:w-72">
+                  <Search className="pointer-events-none absolute left-5 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-500" />
+                  <input
+                    type="text"
+                    value={linkFilter}
+                    onChange={e => setLinkFilter(e.target.value)}
+                    onKeyDown={e => { if (e.key === 'Escape') setLinkFilter(''); }}
+                    placeholder="Filter name, URL or tag"
+                    className="w-full bg-black border border-neutral-800 rounded-full pl-12 pr-6 py-3 text-white placeholder:text-neutral-600 focus:border-white focus:outline-none transition-colors"
+                  />
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-4">
+                {visibleLinks.map(link => {
+                  const isActive = currentSourceUrl === resolvedUrlOf(link);
+                  const health = linkHealth[link.id];
+                  const tally = tallyOf(link);
+                  const hotkeyLabel = linkHotkeyLabel(links, numberKeys ? visibleLinks : [], link);
+                  const color = link.color ?? groupOf(link)?.color;
+                  return (
+                    <div key={link.id} {...dragProps(link)} className={`rounded-full transition-all ${dragClassName(link)}`}>
+                    <button
+                      onClick={() => handleQuickSwitch(link)}
+                      disabled={loadTarget === 'preview' ? !previewSource : !selectedSource}
+                      className={`relative group flex items-center gap-4 pl-6 pr-8 py-5 rounded-full border-2 transition-all duration-200 active:scale-95 disabled:opacity-50 
+                        ${isActive 
+                          ? 'bg-neutral-900 border-emerald-500 shadow-[0_0_20px_rgba(16,185,129,0.2)]' 
+                          : 'bg-black border-neutral-800 hover:border-white hover:bg-neutral-900'}
+                        ${firedLinkId === link.id ? 'ring-4 ring-white/60' : ''}
+                        ${learningLinkId === link.id ? 'border-amber-500 animate-pulse' : ''}`}
+                    >
+                      {linkFrames[link.id] && (
+                        <img src={linkFrames[link.id]} alt="" className={`w-16 aspect-video rounded-lg object-cover -my-2 ${isActive ? '' : 'opacity-60 group-hover:opacity-100'}`} />
+                      )}
+
+                      {/* Active Indicator Dot */}
+                      <div className={`w-3 h-3 rounded-full transition-all duration-500 ${isActive ? 'bg-emerald-500 shadow-[0_0_10px_#10b981]' : color ? `${LINK_COLORS[color].dot} opacity-60 group-hover:opacity-100` : 'bg-neutral-800 group-hover:bg-neutral-600'}`} />
                     
-                    <div className="text-left">
-                      <div className={`text-lg font-medium leading-none mb-1 ${isActive ? 'text-white' : 'text-neutral-200 group-hover:text-white'}`}>
-                        {link.name}
+                      <div className="text-left">
+                        <div className={`text-lg font-medium leading-none mb-1 ${isActive ? 'text-white' : 'text-neutral-200 group-hover:text-white'}`}>
+                          {link.name}
+                        </div>
+                        {health && (
+                          <div className={`text-xs font-bold uppercase tracking-widest ${HEALTH_BADGES[health].className}`}>
+                            {HEALTH_BADGES[health].label}
+                          </div>
+                        )}
                       </div>
+                      {tally && (
+                        <span className={`px-2 py-0.5 rounded-full border text-[10px] font-bold uppercase tracking-widest ${TALLY_BADGES[tally].className}`}>
+                          {TALLY_BADGES[tally].label}
+                        </span>
+                      )}
+                      {(hotkeyLabel || link.midi) && (
+                        <span className="absolute -top-2 right-4 px-2 py-0.5 rounded-full bg-neutral-800 text-[10px] font-mono text-neutral-400">
+                          {[hotkeyLabel, link.midi && formatMidiBinding(link.midi)].filter(Boolean).join(' · ')}
+                        </span>
+                      )}
+                    </button>
                     </div>
-                  </button>
-                );
-              })}
-              {links.length === 0 && (
-                <p className="text-neutral-500 px-4 py-2">No links yet. Add them below.</p>
-              )}
-            </div>
-          </section>
-
-          {/* Link Manager */}
-          <section className="bg-neutral-900/30 border border-neutral-800 rounded-[3rem] p-8 md:p-12">
-            <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-12 gap-6">
-              <h3 className="text-2xl font-medium text-white flex items-center gap-3">
-                <LinkIcon className="w-6 h-6 text-neutral-400" /> Link Manager
-              </h3>
-              <div className="flex gap-4">
-                <button onClick={handleExport} className="flex items-center gap-2 px-6 py-3 bg-black border border-neutral-800 hover:border-white rounded-full text-sm font-bold uppercase tracking-wider transition-all">
-                  <Download className="w-4 h-4" /> Export
-                </button>
-                <label className="flex items-center gap-2 px-6 py-3 bg-black border border-neutral-800 hover:border-white rounded-full text-sm font-bold uppercase tracking-wider transition-all cursor-pointer">
-                  <Upload className="w-4 h-4" /> Import
-                  <input type="file" accept=".json" onChange={handleImport} className="hidden" />
-                </label>
+                  );
+                })}
+                {links.length === 0 && (
+                  <p className="text-neutral-500 px-4 py-2">No links yet. Add them below.</p>
+                )}
+                {links.length > 0 && visibleLinks.length === 0 && (
+                  <p className="text-neutral-500 px-4 py-2">No links match.</p>
+                )}
               </div>
-            </div>
-
-            {/* Add/Edit Inputs */}
-            <div className="bg-black p-3 rounded-[2.5rem] border border-neutral-800 mb-8 flex flex-col md:flex-row gap-2 md:items-center">
-              <div className="flex-1">
-                <input 
-                   type="text" 
-                   placeholder="Link Name"
-                   value={tempName}
-                   onChange={e => setTempName(e.target.value)}
-                   className="w-full bg-transparent border-none px-6 py-4 text-white placeholder:text-neutral-600 focus:ring-0 focus:outline-none text-lg"
-                />
+            </section>
+
+            <FailoverPanel
+              sourceName={selectedSource}
+              chain={failoverChains[selectedSource]}
+              onChainChange={patch => updateFailoverChain(selectedSource, patch)}
+              links={links}
+              isOnAir={link => currentSourceUrl === resolvedUrlOf(link)}
+              log={failover.log}
+            />
+
+            <RunOfShowPanel
+              runOfShow={runOfShow}
+              onChange={setRunOfShow}
+              now={schedule.now}
+              cueDue={schedule.cueDue}
+              nextCue={schedule.nextCue}
+              onFireCue={schedule.fireCue}
+              onUpdateCue={schedule.updateCue}
+              onAddCue={handleAddCue}
+              links={links}
+              sources={sources}
+              selectedSource={selectedSource}
+              canFire={isAnyConnected}
+            />
+
+            <HistoryPanel
+              records={switchHistory}
+              selectedSource={selectedSource}
+              links={links}
+              masked={masked}
+              canSwitch={isAnyConnected}
+              onRevert={revertSwitch}
+              onExport={exportHistory}
+            />
+
+            <VariablesPanel
+              variables={variables}
+              onVariablesChange={setVariables}
+              groups={groups}
+              onGroupsChange={setGroups}
+              links={links}
+              exportSecrets={exportSecrets}
+              onExportSecretsChange={setExportSecrets}
+            />
+
+            {/* Link Manager */}
+            <section className="bg-neutral-900/30 border border-neutral-800 rounded-[3rem] p-8 md:p-12">
+              <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-12 gap-6">
+                <h3 className="text-2xl font-medium text-white flex items-center gap-3">
+                  <LinkIcon className="w-6 h-6 text-neutral-400" /> Link Manager
+                </h3>
+                <div className="flex gap-4">
+                  <button onClick={handleExport} className="flex items-center gap-2 px-6 py-3 bg-black border border-neutral-800 hover:border-white rounded-full text-sm font-bold uppercase tracking-wider transition-all">
+                    <Download className="w-4 h-4" /> Export
+                  </button>
+                  <label className="flex items-center gap-2 px-6 py-3 bg-black border border-neutral-800 hover:border-white rounded-full text-sm font-bold uppercase tracking-wider transition-all cursor-pointer">
+                    <Upload className="w-4 h-4" /> Import
+                    <input type="file" accept={IMPORT_ACCEPT} onChange={handleImport} className="hidden" />
+                  </label>
+                </div>
               </div>
-              <div className="hidden md:block w-px h-10 bg-neutral-800 mx-2"></div>
-              <div className="flex-[2]">
-                <input 
-                   type="text" 
-                   placeholder="URL (rtmp://, http://, C:\\path\\...)"
-                   value={tempUrl}
-                   onChange={e => setTempUrl(e.target.value)}
-                   className="w-full bg-transparent border-none px-6 py-4 text-white placeholder:text-neutral-600 focus:ring-0 focus:outline-none text-lg"
-                />
+
+              {/* Groups */}
+              <div className="mb-8 space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  {groups.map(group => (
+                    <div
+                      key={group.id}
+                      className={`group flex items-center gap-2 pl-4 pr-2 py-2 rounded-full border bg-black transition-all ${editingGroupId === group.id ? 'border-white' : 'border-neutral-800 hover:border-neutral-600'}`}
+                    >
+                      <span className={`w-2 h-2 rounded-full ${group.color ? LINK_COLORS[group.color].dot : 'bg-neutral-700'}`} />
+                      <span className="text-sm text-white">{group.name}</span>
+                      <span className="text-xs text-neutral-600">{linksInTab(group.id).length}</span>
+                      {group.defaultSource && (
+                        <span className="text-xs text-neutral-500" title="Default target source">→ {group.defaultSource}</span>
+                      )}
+                      <button onClick={() => startEditingGroup(group)} className="p-1.5 text-neutral-500 hover:text-white rounded-full transition-colors" title="Edit Group">
+                        <Edit2 className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={() => handleDeleteGroup(group.id)} className="p-1.5 text-neutral-500 hover:text-rose-500 rounded-full transition-colors" title="Delete Group (links are kept)">
+                        <X className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex flex-col md:flex-row gap-2 md:items-center">
+                  <div className="relative flex-1">
+                    <Folder className="pointer-events-none absolute left-5 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-500" />
+                    <input
+                      type="text"
+                      placeholder={editingGroupId ? 'Group Name' : 'New Group'}
+                      value={groupDraft.name}
+                      onChange={e => setGroupDraft({ ...groupDraft, name: e.target.value })}
+                      onKeyDown={e => { if (e.key === 'Enter') handleSaveGroup(); }}
+                      className="w-full bg-black border border-neutral-800 rounded-full pl-12 pr-6 py-3 text-white placeholder:text-neutral-600 focus:border-white focus:outline-none transition-colors"
+                    />
+                  </div>
+                  <select
+                    value={groupDraft.defaultSource ?? ''}
+                    onChange={e => setGroupDraft({ ...groupDraft, defaultSource: e.target.value || undefined })}
+                    className="md:w-64 bg-black border border-neutral-800 focus:border-white rounded-full px-6 py-3 text-white focus:outline-none appearance-none cursor-pointer"
+                    title="Source selected when this group's tab is opened"
+                  >
+                    <option value="" className="bg-neutral-900">No default source</option>
+                    {[...new Set([...sources.map(s => s.name), groupDraft.defaultSource ?? ''])].filter(Boolean).map(name => (
+                      <option key={name} value={name} className="bg-neutral-900">{name}{!sources.some(s => s.name === name) ? ' (not found)' : ''}</option>
+                    ))}
+                  </select>
+                  <div className="flex items-center gap-1 px-2">
+                    {LINK_COLOR_KEYS.map(color => (
+                      <button
+                        key={color}
+                        onClick={() => setGroupDraft({ ...groupDraft, color: groupDraft.color === color ? undefined : color })}
+                        className={`w-6 h-6 rounded-full ${LINK_COLORS[color].dot} transition-all ${groupDraft.color === color ? 'ring-2 ring-white ring-offset-2 ring-offset-black' : 'opacity-40 hover:opacity-100'}`}
+                        title={color}
+                      />
+                    ))}
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleSaveGroup}
+                      disabled={!groupDraft.name.trim()}
+                      className="flex items-center gap-2 px-5 py-3 bg-white text-black rounded-full text-sm font-bold uppercase tracking-wider hover:bg-neutral-200 disabled:bg-neutral-800 disabled:text-neutral-600 transition-all"
+                    >
+                      {editingGroupId ? <Check className="w-4 h-4" /> : <Plus className="w-4 h-4" />} {editingGroupId ? 'Save' : 'Group'}
+                    </button>
+                    {editingGroupId && (
+                      <button onClick={resetGroupDraft} className="p-3 bg-neutral-800 text-white rounded-full hover:bg-neutral-700 transition-colors" title="Cancel">
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
               </div>
-              <div className="p-2 flex justify-end">
-                {editingLinkId ? (
-                   <div className="flex gap-2">
-                     <button onClick={saveEditing} className="p-4 bg-white text-black rounded-full hover:scale-105 transition-transform" title="Save Changes">
-                       <Check className="w-6 h-6" />
-                     </button>
-                     <button onClick={() => { setEditingLinkId(null); setTempName(''); setTempUrl(''); }} className="p-4 bg-neutral-800 text-white rounded-full hover:bg-neutral-700 transition-colors" title="Cancel">
-                       <X className="w-6 h-6" />
+
+              {/* Add/Edit Inputs */}
+              <div className="bg-black p-3 rounded-[2.5rem] border border-neutral-800 mb-4 flex flex-col md:flex-row gap-2 md:items-center">
+                <div className="flex-1">
+                  <input 
+                     type="text" 
+                     placeholder="Link Name"
+                     value={tempName}
+                     onChange={e => setTempName(e.target.value)}
+                     className="w-full bg-transparent border-none px-6 py-4 text-white placeholder:text-neutral-600 focus:ring-0 focus:outline-none text-lg"
+                  />
+                </div>
+                <div className="hidden md:block w-px h-10 bg-neutral-800 mx-2"></div>
+                <div className="flex-[2]">
+                  <input 
+                     type="text" 
+                     placeholder="URL (rtmp://, srt://, http://, C:\\path\\...)"
+                     value={tempUrl}
+                     onChange={e => setTempUrl(e.target.value)}
+                     className="w-full bg-transparent border-none px-6 py-4 text-white placeholder:text-neutral-600 focus:ring-0 focus:outline-none text-lg"
+                  />
+                </div>
+                <div className="p-2 flex justify-end gap-2">
+                  <button
+                    onClick={() => setIsLinkSettingsOpen(!isLinkSettingsOpen)}
+                    className={`relative p-4 rounded-full transition-colors ${isLinkSettingsOpen ? 'bg-neutral-700 text-white' : 'bg-neutral-900 text-neutral-400 hover:text-white hover:bg-neutral-800'}`}
+                    title="Source, Scene & Audio Settings"
+                  >
+                    <SlidersHorizontal className="w-6 h-6" />
+                    {hasTempSettingsErrors && <span className="absolute top-2 right-2 w-2.5 h-2.5 rounded-full bg-rose-500" />}
+                  </button>
+                  {editingLinkId ? (
+                     <div className="flex gap-2">
+                       <button onClick={saveEditing} className="p-4 bg-white text-black rounded-full hover:scale-105 transition-transform" title="Save Changes">
+                         <Check className="w-6 h-6" />
+                       </button>
+                       <button onClick={resetLinkDraft} className="p-4 bg-neutral-800 text-white rounded-full hover:bg-neutral-700 transition-colors" title="Cancel">
+                         <X className="w-6 h-6" />
+                       </button>
+                     </div>
+                  ) : (
+                     <button 
+                       onClick={handleAddLink} 
+                       disabled={!tempName.trim() || !tempUrl.trim() || hasTempSettingsErrors}
+                       className="p-4 bg-white text-black rounded-full hover:bg-neutral-200 disabled:bg-neutral-800 disabled:text-neutral-600 transition-all disabled:hover:transform-none hover:rotate-90 duration-300"
+                       title="Add Link"
+                     >
+                       <Plus className="w-6 h-6" />
                      </button>
-                   </div>
-                ) : (
-                   <button 
-                     onClick={handleAddLink} 
-                     disabled={!tempName.trim() || !tempUrl.trim()}
-                     className="p-4 bg-white text-black rounded-full hover:bg-neutral-200 disabled:bg-neutral-800 disabled:text-neutral-600 transition-all disabled:hover:transform-none hover:rotate-90 duration-300"
-                     title="Add Link"
-                   >
-                     <Plus className="w-6 h-6" />
-                   </button>
-                )}
+                  )}
+                </div>
+              </div>
+
+              {/* URL check & resolved preview */}
+              {tempUrl.trim() && (
+                <div className="mb-4 px-6 flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+                  {tempCheck?.protocol && (
+                    <span className={`shrink-0 px-2 py-0.5 rounded-full border text-[10px] font-bold uppercase tracking-widest ${tempCheck.error ? 'border-rose-500/50 text-rose-400' : 'border-neutral-700 text-neutral-400'}`}>
+                      {STREAM_PROTOCOL_LABELS[tempCheck.protocol]}
+                    </span>
+                  )}
+                  {templateNames(tempUrl).length > 0 && (
+                    <span className="min-w-0 truncate font-mono" title={masked(tempResolved.url)}>
+                      <span className="text-neutral-600">→ </span>
+                      <span className="text-neutral-400">{masked(tempResolved.url)}</span>
+                    </span>
+                  )}
+                  {tempResolved.missing.length > 0 && (
+                    <span className="text-xs font-bold uppercase tracking-widest text-amber-400">
+                      Undefined {tempResolved.missing.map(name => `{${name}}`).join(' ')}
+                    </span>
+                  )}
+                  {tempCheck?.error && <span className="text-rose-400">{tempCheck.error}</span>}
+                  {tempCheck?.warnings.map(warning => <span key={warning} className="text-amber-400">{warning}</span>)}
+                </div>
+              )}
+
+              {/* SRT Options */}
+              {tempSrt && (
+                <div className="mb-4 grid grid-cols-2 md:grid-cols-4 gap-2">
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={tempSrt.latency}
+                    onChange={e => setTempSrtOption('latency', e.target.value.trim())}
+                    placeholder="Latency (µs)"
+                    title="SRT latency in microseconds, as ffmpeg reads it"
+                    className="bg-black border border-neutral-800 rounded-full px-6 py-3 text-sm font-mono text-white placeholder:text-neutral-600 focus:border-white focus:outline-none"
+                  />
+                  <select
+                    value={tempSrt.mode}
+                    onChange={e => setTempSrtOption('mode', e.target.value)}
+                    className="bg-black border border-neutral-800 focus:border-white rounded-full px-6 py-3 text-sm text-white focus:outline-none appearance-none cursor-pointer"
+                    title="SRT connection mode"
+                  >
+                    <option value="" className="bg-neutral-900">Mode: default</option>
+                    {SRT_MODES.map(mode => (
+                      <option key={mode} value={mode} className="bg-neutral-900">{mode}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={tempSrt.streamid}
+                    onChange={e => setTempSrtOption('streamid', e.target.value)}
+                    placeholder="Stream ID"
+                    className="bg-black border border-neutral-800 rounded-full px-6 py-3 text-sm font-mono text-white placeholder:text-neutral-600 focus:border-white focus:outline-none"
+                  />
+                  <input
+                    type="password"
+                    value={tempSrt.passphrase}
+                    onChange={e => setTempSrtOption('passphrase', e.target.value)}
+                    placeholder="Passphrase"
+                    title="10–79 characters; a {variable} keeps it out of the link itself"
+                    autoComplete="off"
+                    className="bg-black border border-neutral-800 rounded-full px-6 py-3 text-sm font-mono text-white placeholder:text-neutral-600 focus:border-white focus:outline-none"
+                  />
+                </div>
+              )}
+
+              {/* Group, Color & Tags */}
+              <div className="mb-8 flex flex-col md:flex-row gap-2 md:items-center">
+                <select
+                  value={tempGroupId}
+                  onChange={e => setTempGroupId(e.target.value)}
+                  className="md:w-64 bg-black border border-neutral-800 focus:border-white rounded-full px-6 py-3 text-white focus:outline-none appearance-none cursor-pointer"
+                >
+                  <option value="" className="bg-neutral-900">No group</option>
+                  {groups.map(group => (
+                    <option key={group.id} value={group.id} className="bg-neutral-900">{group.name}</option>
+                  ))}
+                </select>
+                <div className="relative flex-1">
+                  <Tag className="pointer-events-none absolute left-5 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-500" />
+                  <input
+                    type="text"
+                    placeholder="Tags, comma separated"
+                    value={tempTags}
+                    onChange={e => setTempTags(e.target.value)}
+                    className="w-full bg-black border border-neutral-800 rounded-full pl-12 pr-6 py-3 text-white placeholder:text-neutral-600 focus:border-white focus:outline-none transition-colors"
+                  />
+                </div>
+                <div className="flex items-center gap-1 px-2" title="Link color (defaults to the group's)">
+                  {LINK_COLOR_KEYS.map(color => (
+                    <button
+                      key={color}
+                      onClick={() => setTempColor(tempColor === color ? undefined : color)}
+                      className={`w-6 h-6 rounded-full ${LINK_COLORS[color].dot} transition-all ${tempColor === color ? 'ring-2 ring-white ring-offset-2 ring-offset-black' : 'opacity-40 hover:opacity-100'}`}
+                      title={color}
+                    />
+                  ))}
+                </div>
+                <button
+                  onClick={() => setTempSafe(!tempSafe)}
+                  className={`shrink-0 flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${tempSafe ? 'bg-neutral-900 border-white text-white' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+                  title="Can switch the on-air source while streaming without the live guard stepping in"
+                >
+                  <Shield className="w-4 h-4" /> Safe
+                </button>
               </div>
-            </div>
-
-            {/* Links List */}
-            <div className="space-y-4 max-h-[600px] overflow-y-auto pr-2 custom-scrollbar">
-              {links.map(link => {
-                 const isActive = currentSourceUrl === link.url;
-                 return (
-                  <div key={link.id} className={`group flex items-center justify-between p-4 pl-8 bg-black/50 border rounded-[2rem] transition-all hover:border-neutral-600 ${isActive ? 'border-emerald-500 bg-neutral-900/30' : 'border-neutral-800'}`}>
-                    <div className="min-w-0 flex-1 mr-6">
-                      <div className="flex items-center gap-3 mb-1">
-                        <span className={`text-lg font-medium ${isActive ? 'text-emerald-400' : 'text-white'}`}>{link.name}</span>
-                        {isActive && <Circle className="w-2.5 h-2.5 fill-emerald-500 text-emerald-500 animate-pulse" />}
+
+              {/* Per-Kind Source Settings */}
+              {isLinkSettingsOpen && (
+                <div className="bg-black p-6 md:p-8 rounded-[2.5rem] border border-neutral-800 mb-8 grid md:grid-cols-2 gap-8">
+                  {LINK_SETTING_KINDS.map(kind => (
+                    <div key={kind} className="space-y-4">
+                      <h4 className="ml-4 text-xs font-bold uppercase tracking-widest text-neutral-500">{LINK_SETTING_KIND_LABELS[kind]}</h4>
+                      {LINK_SETTING_FIELDS[kind].map(field => {
+                        const value = tempSettings[kind][field.key] ?? '';
+                        const error = tempSettingsResult.errors[`${kind}.${field.key}`];
+                        const setValue = (next: string) => setTempSettings({ ...tempSettings, [kind]: { ...tempSettings[kind], [field.key]: next } });
+                        const inputClass = `w-full bg-black border rounded-full px-6 py-3 text-white placeholder:text-neutral-600 focus:outline-none transition-colors ${error ? 'border-rose-500' : 'border-neutral-800 focus:border-white'}`;
+                        return (
+                          <div key={field.key}>
+                            <label className="block ml-4 mb-2 text-sm text-neutral-400">{field.label}</label>
+                            {field.type === 'boolean' ? (
+                              <select value={value} onChange={e => setValue(e.target.value)} className={`${inputClass} appearance-none cursor-pointer`}>
+                                <option value="" className="bg-neutral-900">Keep OBS setting</option>
+                                <option value="true" className="bg-neutral-900">On</option>
+                                <option value="false" className="bg-neutral-900">Off</option>
+                              </select>
+                            ) : field.key === 'css' ? (
+                              <textarea
+                                value={value}
+                                onChange={e => setValue(e.target.value)}
+                                rows={3}
+                                placeholder="Keep OBS setting"
+                                className={`${inputClass} rounded-[1.5rem] font-mono text-sm`}
+                              />
+                            ) : (
+                              <input
+                                type="text"
+                                inputMode={field.type === 'number' ? 'numeric' : 'text'}
+                                value={value}
+                                onChange={e => setValue(e.target.value)}
+                                placeholder={field.min !== undefined ? `${field.min}–${field.max}` : 'Keep OBS setting'}
+                                className={inputClass}
+                              />
+                            )}
+                            {error && <p className="ml-4 mt-1 text-sm text-rose-500">{error}</p>}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ))}
+
+                  {/* Scene & Transition */}
+                  <div className="md:col-span-2 space-y-4 pt-6 border-t border-neutral-800">
+                    <h4 className="ml-4 text-xs font-bold uppercase tracking-widest text-neutral-500">Scene &amp; Transition</h4>
+                    <div className="grid md:grid-cols-3 gap-4">
+                      <div>
+                        <label className="block ml-4 mb-2 text-sm text-neutral-400">Go to Scene</label>
+                        <select
+                          value={tempSceneAction.sceneName}
+                          onChange={e => setTempSceneAction({ ...tempSceneAction, sceneName: e.target.value })}
+                          className="w-full bg-black border border-neutral-800 focus:border-white rounded-full px-6 py-3 text-white focus:outline-none appearance-none cursor-pointer"
+                        >
+                          <option value="" className="bg-neutral-900">Stay on current scene</option>
+                          {[...new Set([...sceneNames, tempSceneAction.sceneName])].filter(Boolean).map(name => (
+                            <option key={name} value={name} className="bg-neutral-900">{name}{!sceneNames.includes(name) ? ' (not found)' : ''}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block ml-4 mb-2 text-sm text-neutral-400">Transition</label>
+                        <select
+                          value={tempSceneAction.transitionName}
+                          onChange={e => setTempSceneAction({ ...tempSceneAction, transitionName: e.target.value })}
+                          disabled={!tempSceneAction.sceneName}
+                          className="w-full bg-black border border-neutral-800 focus:border-white rounded-full px-6 py-3 text-white focus:outline-none appearance-none cursor-pointer disabled:text-neutral-600 disabled:cursor-not-allowed"
+                        >
+                          <option value="" className="bg-neutral-900">OBS current transition</option>
+                          {[...new Set([...transitionNames, tempSceneAction.transitionName])].filter(Boolean).map(name => (
+                            <option key={name} value={name} className="bg-neutral-900">{name}{!transitionNames.includes(name) ? ' (not found)' : ''}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block ml-4 mb-2 text-sm text-neutral-400">Duration (ms)</label>
+                        <input
+                          type="text"
+                          inputMode="numeric"
+                          value={tempSceneAction.transitionDuration}
+                          onChange={e => setTempSceneAction({ ...tempSceneAction, transitionDuration: e.target.value })}
+                          disabled={!tempSceneAction.sceneName}
+                          placeholder="Keep OBS setting"
+                          className={`w-full bg-black border rounded-full px-6 py-3 text-white placeholder:text-neutral-600 focus:outline-none transition-colors disabled:text-neutral-600 ${tempSceneResult.errors.transitionDuration ? 'border-rose-500' : 'border-neutral-800 focus:border-white'}`}
+                        />
+                        {tempSceneResult.errors.transitionDuration && <p className="ml-4 mt-1 text-sm text-rose-500">{tempSceneResult.errors.transitionDuration}</p>}
                       </div>
-                      <div className="text-neutral-500 text-sm truncate font-mono">{link.url}</div>
                     </div>
-                    <div className="flex gap-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
-                      <button onClick={() => startEditing(link)} className="p-3 text-neutral-400 hover:text-white hover:bg-neutral-800 rounded-full transition-colors">
-                        <Edit2 className="w-5 h-5" />
-                      </button>
-                      <button onClick={() => handleDeleteLink(link.id)} className="p-3 text-neutral-400 hover:text-rose-500 hover:bg-rose-950 rounded-full transition-colors">
-                        <X className="w-5 h-5" />
-                      </button>
+                    <button
+                      onClick={() => setTempSceneAction({ ...tempSceneAction, hideDuringReload: !tempSceneAction.hideDuringReload })}
+                      className={`flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${tempSceneAction.hideDuringReload ? 'bg-neutral-900 border-white text-white' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+                      title="Hide the source in every scene while the new URL loads, then show it once it plays"
+                    >
+                      <EyeOff className="w-4 h-4" /> Hide During Reload
+                    </button>
+                  </div>
+
+                  {/* Audio */}
+                  <div className="md:col-span-2 space-y-4 pt-6 border-t border-neutral-800">
+                    <h4 className="ml-4 text-xs font-bold uppercase tracking-widest text-neutral-500">Audio</h4>
+                    <div className="grid md:grid-cols-3 gap-4">
+                      <div>
+                        <label className="block ml-4 mb-2 text-sm text-neutral-400">Fade Out / In (ms)</label>
+                        <input
+                          type="text"
+                          inputMode="numeric"
+                          value={tempAudio.fadeMs}
+                          onChange={e => setTempAudio({ ...tempAudio, fadeMs: e.target.value })}
+                          placeholder="No fade"
+                          className={`w-full bg-black border rounded-full px-6 py-3 text-white placeholder:text-neutral-600 focus:outline-none transition-colors ${tempAudioResult.errors.fadeMs ? 'border-rose-500' : 'border-neutral-800 focus:border-white'}`}
+                        />
+                        {tempAudioResult.errors.fadeMs && <p className="ml-4 mt-1 text-sm text-rose-500">{tempAudioResult.errors.fadeMs}</p>}
+                      </div>
+                      <div>
+                        <label className="block ml-4 mb-2 text-sm text-neutral-400">Volume (dB)</label>
+                        <input
+                          type="text"
+                          inputMode="decimal"
+                          value={tempAudio.volumeDb}
+                          onChange={e => setTempAudio({ ...tempAudio, volumeDb: e.target.value })}
+                          placeholder="Keep current volume"
+                          className={`w-full bg-black border rounded-full px-6 py-3 text-white placeholder:text-neutral-600 focus:outline-none transition-colors ${tempAudioResult.errors.volumeDb ? 'border-rose-500' : 'border-neutral-800 focus:border-white'}`}
+                        />
+                        {tempAudioResult.errors.volumeDb && <p className="ml-4 mt-1 text-sm text-rose-500">{tempAudioResult.errors.volumeDb}</p>}
+                      </div>
+                      <div>
+                        <label className="block ml-4 mb-2 text-sm text-neutral-400">Monitoring</label>
+                        <select
+                          value={tempAudio.monitorType}
+                          onChange={e => setTempAudio({ ...tempAudio, monitorType: e.target.value as MonitorType | '' })}
+                          className="w-full bg-black border border-neutral-800 focus:border-white rounded-full px-6 py-3 text-white focus:outline-none appearance-none cursor-pointer"
+                        >
+                          <option value="" className="bg-neutral-900">Keep OBS setting</option>
+                          {(Object.keys(MONITOR_TYPE_LABELS) as MonitorType[]).map(type => (
+                            <option key={type} value={type} className="bg-neutral-900">{MONITOR_TYPE_LABELS[type]}</option>
+                          ))}
+                        </select>
+                      </div>
                     </div>
+                    <button
+                      onClick={() => setTempAudio({ ...tempAudio, muteDuringReload: !tempAudio.muteDuringReload })}
+                      className={`flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${tempAudio.muteDuringReload ? 'bg-neutral-900 border-white text-white' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+                      title="Mute the source while the new URL loads and unmute it once it plays"
+                    >
+                      <VolumeX className="w-4 h-4" /> Mute During Reload
+                    </button>
                   </div>
-                 );
-              })}
-            </div>
-          </section>
+                </div>
+              )}
+
+              {/* Links List */}
+              <div className="space-y-4 max-h-[600px] overflow-y-auto pr-2 custom-scrollbar">
+                {links.map(link => {
+                   const resolved = resolveLinkUrl(link);
+                   const urlError = resolved.missing.length === 0 ? parseStreamUrl(resolved.url).error : null;
+                   const isActive = currentSourceUrl === resolved.url;
+                   const health = linkHealth[link.id];
+                   const tally = tallyOf(link);
+                   const group = groupOf(link);
+                   const color = link.color ?? group?.color;
+                   return (
+                    <div key={link.id} {...dragProps(link)} className={`group flex items-center justify-between p-4 pl-3 bg-black/50 border rounded-[2rem] transition-all hover:border-neutral-600 ${isActive ? 'border-emerald-500 bg-neutral-900/30' : 'border-neutral-800'} ${dragClassName(link)}`}>
+                      <GripVertical className="shrink-0 w-5 h-5 mr-3 text-neutral-700 group-hover:text-neutral-500 cursor-grab active:cursor-grabbing" />
+                      <div className="min-w-0 flex-1 mr-6">
+                        <div className="flex items-center gap-3 mb-1">
+                          {color && <span className={`shrink-0 w-2.5 h-2.5 rounded-full ${LINK_COLORS[color].dot}`} />}
+                          <span className={`text-lg font-medium ${isActive ? 'text-emerald-400' : 'text-white'}`}>{link.name}</span>
+                          {isActive && <Circle className="w-2.5 h-2.5 fill-emerald-500 text-emerald-500 animate-pulse" />}
+                          {tally && (
+                            <span className={`px-2 py-0.5 rounded-full border text-[10px] font-bold uppercase tracking-widest ${TALLY_BADGES[tally].className}`}>
+                              {TALLY_BADGES[tally].label}
+                            </span>
+                          )}
+                          {health && (
+                            <span className={`text-xs font-bold uppercase tracking-widest ${HEALTH_BADGES[health].className}`}>
+                              {HEALTH_BADGES[health].label}
+                            </span>
+                          )}
+                          {group && (
+                            <span className="flex items-center gap-1 text-xs text-neutral-500">
+                              <Folder className="w-3 h-3" /> {group.name}
+                            </span>
+                          )}
+                          {link.tags?.map(tag => (
+                            <span key={tag} className="px-2 py-0.5 rounded-full bg-neutral-900 text-[10px] text-neutral-400">#{tag}</span>
+                          ))}
+                        </div>
+                        <div className="flex items-center gap-3 min-w-0">
+                          <div className="text-neutral-500 text-sm truncate font-mono" title={masked(resolved.url)}>{masked(link.url)}</div>
+                          {resolved.missing.length > 0 && (
+                            <span className="shrink-0 px-2 py-0.5 rounded-full border border-amber-500/50 text-amber-400 text-[10px] font-bold uppercase tracking-widest" title="Define these under Variables before switching">
+                              Missing {resolved.missing.map(name => `{${name}}`).join(' ')}
+                            </span>
+                          )}
+                          {urlError && (
+                            <span className="shrink-0 px-2 py-0.5 rounded-full border border-rose-500/50 text-rose-400 text-[10px] font-bold uppercase tracking-widest" title={urlError}>
+                              Check URL
+                            </span>
+                          )}
+                          {countLinkSettings(link.settings) > 0 && (
+                            <span className="shrink-0 flex items-center gap-1 text-xs text-neutral-400" title="Custom source settings">
+                              <SlidersHorizontal className="w-3 h-3" /> {countLinkSettings(link.settings)}
+                            </span>
+                          )}
+                          {link.sceneAction?.sceneName && (
+                            <span className="shrink-0 flex items-center gap-1 text-xs text-neutral-400" title={`Goes to scene${link.sceneAction.transitionName ? ` via ${link.sceneAction.transitionName}` : ''}`}>
+                              <Clapperboard className="w-3 h-3" /> {link.sceneAction.sceneName}
+                            </span>
+                          )}
+                          {link.sceneAction?.hideDuringReload && (
+                            <span className="shrink-0 text-neutral-400" title="Hidden during reload">
+                              <EyeOff className="w-3 h-3" />
+                            </span>
+                          )}
+                          {link.safe && (
+                            <span className="shrink-0 text-neutral-400" title="Safe to switch while live">
+                              <Shield className="w-3 h-3" />
+                            </span>
+                          )}
+                          {link.audio && (
+                            <span
+                              className="shrink-0 flex items-center gap-1 text-xs text-neutral-400"
+                              title={[
+                                link.audio.muteDuringReload && 'Muted during reload',
+                                link.audio.fadeMs && `${link.audio.fadeMs} ms fade`,
+                                link.audio.monitorType && MONITOR_TYPE_LABELS[link.audio.monitorType],
+                              ].filter(Boolean).join(' · ') || 'Audio level'}
+                            >
+                              <Volume2 className="w-3 h-3" /> {link.audio.volumeDb !== undefined && `${link.audio.volumeDb} dB`}
+                            </span>
+                          )}
+                          {(link.hotkey || link.midi) && (
+                            <span className="shrink-0 flex items-center gap-1 text-xs font-mono text-neutral-400" title="Bound controls">
+                              <Keyboard className="w-3 h-3" /> {[link.hotkey && linkHotkeyLabel(links, [], link), link.midi && formatMidiBinding(link.midi)].filter(Boolean).join(' · ')}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                      {learningLinkId === link.id && (
+                        <span className="shrink-0 mr-4 text-xs font-bold uppercase tracking-widest text-amber-400 animate-pulse">
+                          Press a key{midiEnabled && ' or pad'} · Esc cancels · Backspace clears
+                        </span>
+                      )}
+                      <div className="flex gap-2 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                        <button
+                          onClick={() => setLearningLinkId(learningLinkId === link.id ? null : link.id)}
+                          className={`p-3 rounded-full transition-colors ${learningLinkId === link.id ? 'text-amber-400 bg-amber-500/10' : 'text-neutral-400 hover:text-white hover:bg-neutral-800'}`}
+                          title="Learn hotkey / MIDI"
+                        >
+                          <Keyboard className="w-5 h-5" />
+                        </button>
+                        <button onClick={() => startEditing(link)} className="p-3 text-neutral-400 hover:text-white hover:bg-neutral-800 rounded-full transition-colors">
+                          <Edit2 className="w-5 h-5" />
+                        </button>
+                        <button onClick={() => handleDeleteLink(link.id)} className="p-3 text-neutral-400 hover:text-rose-500 hover:bg-rose-950 rounded-full transition-colors">
+                          <X className="w-5 h-5" />
+                        </button>
+                      </div>
+                    </div>
+                   );
+                })}
+              </div>
+            </section>
+
+            {/* Sources */}
+            <section id="source-manager" className="bg-neutral-900/30 border border-neutral-800 rounded-[3rem] p-8 md:p-12">
+              <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mb-8">
+                <div>
+                  <h3 className="text-2xl font-medium text-white flex items-center gap-3">
+                    <Layers className="w-6 h-6 text-neutral-400" /> Sources
+                  </h3>
+                  <p className="text-neutral-500 text-sm mt-2">
+                    Create, duplicate, rename and place inputs in OBS{managedProfiles.length > 1 && ` on all ${managedProfiles.length} switch targets`}.
+                  </p>
+                </div>
+                {sceneNames.length > 0 && (
+                  <label className="flex items-center gap-2 px-5 py-3 rounded-full border border-neutral-800 bg-black text-sm font-bold uppercase tracking-wider text-neutral-500" title="Scene that duplicates land in and positions apply to">
+                    <Move className="w-4 h-4" />
+                    <select
+                      value={arrangeScene}
+                      onChange={e => setLayoutScene(e.target.value)}
+                      className="bg-transparent text-white focus:outline-none cursor-pointer normal-case tracking-normal font-medium"
+                    >
+                      {sceneNames.map(name => <option key={name} value={name} className="bg-neutral-900">{name}</option>)}
+                    </select>
+                  </label>
+                )}
+              </div>
+
+              {sources.length > 0 && (
+                <div className="space-y-2 mb-6">
+                  {sources.map(source => {
+                    const url = sourceUrlOf(source.name);
+                    const link = linkForUrl(url);
+                    const isRenaming = renamingSource?.name === source.name;
+                    return (
+                      <div key={source.name} className="group flex flex-wrap items-center gap-3 px-6 py-3 bg-black/50 border border-neutral-800 rounded-[2rem] text-sm">
+                        {isRenaming ? (
+                          <input
+                            autoFocus
+                            value={renamingSource.draft}
+                            onChange={e => setRenamingSource({ name: source.name, draft: e.target.value })}
+                            onKeyDown={e => {
+                              if (e.key === 'Enter') handleRenameSource();
+                              if (e.key === 'Escape') setRenamingSource(null);
+                            }}
+                            className="flex-1 min-w-0 bg-black border border-neutral-800 rounded-full px-4 py-1.5 text-sm text-white focus:border-white focus:outline-none"
+                          />
+                        ) : (
+                          <span className="shrink-0 text-white font-medium">{source.name}</span>
+                        )}
+                        <span className="shrink-0 px-2 py-0.5 rounded-full border border-neutral-700 text-neutral-400 text-[10px] font-bold uppercase tracking-widest">
+                          {getKindAdapter(source.kind)?.label ?? source.kind}
+                        </span>
+                        {!isRenaming && (
+                          <span className="flex-1 min-w-0 truncate" title={url ? masked(url) : undefined}>
+                            {link ? <span className="text-emerald-400">{link.name}</span> : <span className="text-neutral-500 font-mono">{url ? masked(url) : 'Empty'}</span>}
+                          </span>
+                        )}
+                        <div className="shrink-0 flex items-center gap-1">
+                          {isRenaming ? (
+                            <>
+                              <button onClick={handleRenameSource} disabled={sourceBusy} className="p-2 text-neutral-400 hover:text-white rounded-full transition-colors disabled:opacity-50" title="Save Name">
+                                <Check className="w-4 h-4" />
+                              </button>
+                              <button onClick={() => setRenamingSource(null)} className="p-2 text-neutral-400 hover:text-white rounded-full transition-colors" title="Cancel">
+                                <X className="w-4 h-4" />
+                              </button>
+                            </>
+                          ) : (
+                            <>
+                              <select
+                                value=""
+                                onChange={e => handlePlaceSource(source.name, e.target.value as LayoutPreset)}
+                                disabled={sourceBusy || !arrangeScene}
+                                className="bg-black border border-neutral-800 rounded-full px-3 py-1.5 text-xs text-neutral-400 focus:border-white focus:outline-none cursor-pointer disabled:opacity-50"
+                                title={`Position in "${arrangeScene}"`}
+                              >
+                                <option value="" className="bg-neutral-900">Position…</option>
+                                {LAYOUT_PRESETS.map(preset => <option key={preset} value={preset} className="bg-neutral-900">{LAYOUT_PRESET_LABELS[preset]}</option>)}
+                              </select>
+                              <button onClick={() => handleDuplicateSource(source.name)} disabled={sourceBusy || !arrangeScene} className="p-2 text-neutral-500 hover:text-white rounded-full transition-colors disabled:opacity-50" title={`Duplicate into "${arrangeScene}"`}>
+                                <Copy className="w-4 h-4" />
+                              </button>
+                              <button onClick={() => setRenamingSource({ name: source.name, draft: source.name })} disabled={sourceBusy} className="p-2 text-neutral-500 hover:text-white rounded-full transition-colors disabled:opacity-50" title="Rename">
+                                <Edit2 className="w-4 h-4" />
+                              </button>
+                              <button onClick={() => handleRemoveSource(source.name)} disabled={sourceBusy} className="p-2 text-neutral-500 hover:text-rose-500 rounded-full transition-colors disabled:opacity-50" title="Remove from OBS">
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              <div className="flex flex-col lg:flex-row gap-2 lg:items-center">
+                <input
+                  ref={sourceNameInputRef}
+                  value={sourceDraft.name}
+                  onChange={e => setSourceDraft({ ...sourceDraft, name: e.target.value })}
+                  onKeyDown={e => e.key === 'Enter' && handleCreateSource()}
+                  placeholder="New source name"
+                  className="flex-1 min-w-0 bg-black border border-neutral-800 rounded-full px-6 py-3 text-sm text-white focus:border-white focus:outline-none"
+                />
+                <select
+                  value={sourceDraft.kind}
+                  onChange={e => setSourceDraft({ ...sourceDraft, kind: e.target.value })}
+                  className="lg:w-48 bg-black border border-neutral-800 rounded-full px-6 py-3 text-sm text-white focus:border-white focus:outline-none cursor-pointer"
+                  title="Input kind"
+                >
+                  {listKindAdapters().map(adapter => <option key={adapter.kind} value={adapter.kind} className="bg-neutral-900">{adapter.label}</option>)}
+                </select>
+                <select
+                  value={createScene}
+                  onChange={e => setSourceDraft({ ...sourceDraft, sceneName: e.target.value })}
+                  disabled={sceneNames.length === 0}
+                  className="lg:w-44 bg-black border border-neutral-800 rounded-full px-6 py-3 text-sm text-white focus:border-white focus:outline-none cursor-pointer disabled:opacity-50"
+                  title="Scene to add it to"
+                >
+                  {sceneNames.length === 0 && <option value="">No scenes</option>}
+                  {sceneNames.map(name => <option key={name} value={name} className="bg-neutral-900">{name}</option>)}
+                </select>
+                <select
+                  value={sourceDraft.linkId}
+                  onChange={e => setSourceDraft({ ...sourceDraft, linkId: e.target.value })}
+                  className="lg:w-44 bg-black border border-neutral-800 rounded-full px-6 py-3 text-sm text-white focus:border-white focus:outline-none cursor-pointer"
+                  title="Link to load straight away"
+                >
+                  <option value="" className="bg-neutral-900">Start empty</option>
+                  {links.map(link => <option key={link.id} value={link.id} className="bg-neutral-900">{link.name}</option>)}
+                </select>
+                <button
+                  onClick={handleCreateSource}
+                  disabled={!sourceDraft.name.trim() || !createScene || sourceBusy}
+                  className="shrink-0 p-3 bg-white text-black rounded-full hover:bg-neutral-200 transition-all disabled:opacity-50 self-start lg:self-auto"
+                  title="Create Source"
+                >
+                  <Plus className="w-5 h-5" />
+                </button>
+              </div>
+              {getKindAdapter(sourceDraft.kind)?.createDefaults && (
+                <p className="text-neutral-600 text-xs mt-3 px-4">Starts with ingest defaults for {getKindAdapter(sourceDraft.kind)?.label}; change them in OBS or per link.</p>
+              )}
+              {sourceError && <p className="text-rose-400 text-sm mt-3 px-4">{sourceError}</p>}
+            </section>
+
+            <SourceKindsPanel customKinds={customKinds} onCustomKindsChange={updateCustomKinds} />
+
+          </div>
+        </main>
+        </>
+      )}
+
+      {/* Unlock Saved Passwords */}
+      {isUnlockPromptOpen && lockedVault && (
+        <UnlockPrompt
+          busy={credentialBusy}
+          error={credentialError}
+          onUnlock={unlockVault}
+          onDismiss={() => {
+            setIsUnlockPromptOpen(false);
+            setCredentialError(null);
+          }}
+        />
+      )}
 
-        </div>
-      </main>
+      {/* Import Preview */}
+      {pendingImport && (
+        <ImportPreview
+          fileName={pendingImport.fileName}
+          parsed={pendingImport.parsed}
+          entries={importEntries}
+          newProfileCount={importableProfiles.length}
+          onCancel={() => setPendingImport(null)}
+          onConfirm={confirmImport}
+        />
+      )}
 
       {/* Custom Scrollbar for pure black theme */}
       
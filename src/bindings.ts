@@ -0,0 +1,78 @@
+import type { LinkItem, MidiBinding } from './types';
+
+// --- Keyboard ---
+// Keys that only modify others; never bindable on their own
+const MODIFIER_CODES = new Set(['ControlLeft', 'ControlRight', 'AltLeft', 'AltRight', 'ShiftLeft', 'ShiftRight', 'MetaLeft', 'MetaRight']);
+const HOTKEY_PATTERN = /^(Ctrl\+)?(Alt\+)?(Shift\+)?[A-Za-z0-9]+$/;
+// Top-row or numpad 1–9 fire the first nine shown links when number keys are on
+const NUMBER_KEY_PATTERN = /^(?:Digit|Numpad)([1-9])$/;
+
+// The KeyboardEvent fields a hotkey is built from
+export type KeyPress = {
+  code: string;
+  ctrlKey: boolean;
+  altKey: boolean;
+  shiftKey: boolean;
+  metaKey: boolean;
+};
+
+// Uses `code` rather than `key` so bindings survive keyboard layout changes
+export const hotkeyFromEvent = (event: KeyPress) => {
+  if (!event.code || event.metaKey || MODIFIER_CODES.has(event.code)) return null;
+  return [event.ctrlKey && 'Ctrl', event.altKey && 'Alt', event.shiftKey && 'Shift', event.code].filter(Boolean).join('+');
+};
+
+export const formatHotkey = (hotkey: string) => hotkey
+  .split('+')
+  .map(part => part.replace(/^Key(?=.)/, '').replace(/^Digit/, '').replace(/^Numpad(\d)$/, 'Num $1'))
+  .join('+');
+
+// A link's own key wins; number keys index into `numbered` (the links currently shown, or none when off)
+export const findLinkForHotkey = (links: LinkItem[], hotkey: string, numbered: LinkItem[]) => {
+  const bound = links.find(l => l.hotkey === hotkey);
+  if (bound) return bound;
+  const match = NUMBER_KEY_PATTERN.exec(hotkey);
+  return match ? numbered[Number(match[1]) - 1] : undefined;
+};
+
+// Label shown on a link button: its own key, else its number key
+export const linkHotkeyLabel = (links: LinkItem[], numbered: LinkItem[], link: LinkItem) => {
+  if (link.hotkey) return formatHotkey(link.hotkey);
+  const index = numbered.indexOf(link);
+  const digit = String(index + 1);
+  return index !== -1 && index < 9 && !links.some(l => l.hotkey === `Digit${digit}`) ? digit : null;
+};
+
+export const sanitizeHotkey = (raw: unknown) =>
+  typeof raw === 'string' && HOTKEY_PATTERN.test(raw) ? raw : undefined;
+
+// --- MIDI ---
+// Presses only: note-on with velocity, or a CC going above zero (pads send 127, then 0 on release)
+export const parseMidiMessage = (data: Uint8Array): MidiBinding | null => {
+  if (data.length < 3) return null;
+  const [status, number, value] = data;
+  const channel = (status & 0x0f) + 1;
+  switch (status & 0xf0) {
+    case 0x90:
+      return value > 0 ? { type: 'note', channel, number } : null;
+    case 0xb0:
+      return value > 0 ? { type: 'cc', channel, number } : null;
+    default:
+      return null;
+  }
+};
+
+export const sameMidiBinding = (a?: MidiBinding, b?: MidiBinding) =>
+  !!a && !!b && a.type === b.type && a.channel === b.channel && a.number === b.number;
+
+export const formatMidiBinding = ({ type, channel, number }: MidiBinding) =>
+  `${type === 'note' ? 'Note' : 'CC'} ${number} · Ch ${channel}`;
+
+export const sanitizeMidiBinding = (raw: unknown): MidiBinding | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const { type, channel, number } = raw as Record<string, unknown>;
+  if (type !== 'note' && type !== 'cc') return undefined;
+  if (!Number.isInteger(channel) || (channel as number) < 1 || (channel as number) > 16) return undefined;
+  if (!Number.isInteger(number) || (number as number) < 0 || (number as number) > 127) return undefined;
+  return { type, channel: channel as number, number: number as number };
+};
@@ -0,0 +1,65 @@
+import type { LinkItem } from '../types';
+import { DEFAULT_COMPANION_CONFIG } from '../hooks/useCompanion';
+import type { CompanionActivity, CompanionConfig, CompanionStatus } from '../hooks/useCompanion';
+import type { Badge } from './badges';
+
+const COMPANION_BADGES: Record<CompanionStatus, Badge> = {
+  off: { label: 'Off', className: 'bg-neutral-700' },
+  connecting: { label: 'Connecting', className: 'bg-neutral-400 animate-pulse' },
+  connected: { label: 'Connected', className: 'bg-emerald-500' },
+  reconnecting: { label: 'Reconnecting', className: 'bg-amber-500 animate-pulse' },
+  invalid: { label: 'Invalid URL', className: 'bg-rose-500' },
+};
+
+type CompanionPanelProps = {
+  config: CompanionConfig;
+  onConfigChange: (config: CompanionConfig) => void;
+  status: CompanionStatus;
+  lastActivity: CompanionActivity | null;
+  // To name the link behind the last remote switch
+  links: LinkItem[];
+};
+
+/** Settings for the companion server that lets bots and scripts switch, and what it last did. */
+export default function CompanionPanel({ config, onConfigChange, status, lastActivity, links }: CompanionPanelProps) {
+  const lastLink = links.find(l => l.id === lastActivity?.linkId);
+
+  return (
+    <div className="pt-8 border-t border-neutral-800 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="ml-4">
+          <h3 className="text-xs font-bold uppercase tracking-widest text-neutral-500">Companion Server</h3>
+          <p className="text-sm text-neutral-500 mt-1">HTTP and WebSocket control for bots and scripts (<span className="font-mono">npm run companion</span>)</p>
+        </div>
+        <button
+          onClick={() => onConfigChange({ ...config, enabled: !config.enabled })}
+          className={`shrink-0 flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${config.enabled ? 'bg-neutral-900 border-white text-white' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+        >
+          <span className={`rounded-full h-2.5 w-2.5 ${COMPANION_BADGES[status].className}`}></span>
+          {COMPANION_BADGES[status].label}
+        </button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <input
+          type="text"
+          value={config.url}
+          onChange={e => onConfigChange({ ...config, url: e.target.value })}
+          className="w-full bg-black border border-neutral-800 rounded-full px-6 py-4 text-white placeholder:text-neutral-600 focus:border-white focus:outline-none transition-colors font-mono"
+          placeholder={DEFAULT_COMPANION_CONFIG.url}
+        />
+        <input
+          type="password"
+          value={config.token}
+          onChange={e => onConfigChange({ ...config, token: e.target.value })}
+          className="w-full bg-black border border-neutral-800 rounded-full px-6 py-4 text-white placeholder:text-neutral-600 focus:border-white focus:outline-none transition-colors"
+          placeholder="Token"
+        />
+      </div>
+      {lastActivity && (
+        <p className="ml-4 text-sm text-neutral-500">
+          Last change: <span className="text-white">{lastLink?.name ?? 'Unlisted URL'}</span> on {lastActivity.sourceName} at {new Date(lastActivity.at).toLocaleTimeString()}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { Activity, ChevronDown, ChevronUp, Pin, Plus, RefreshCw, ShieldAlert, X } from 'lucide-react';
+import type { FailoverChain, FailoverEvent, LinkItem } from '../types';
+import { DEFAULT_STALL_SECONDS } from '../hooks/useFailover';
+
+type FailoverPanelProps = {
+  // Source whose chain is shown; '' while none is selected
+  sourceName: string;
+  chain: FailoverChain | undefined;
+  // Creates the chain with defaults when the source has none yet
+  onChainChange: (patch: Partial<FailoverChain>) => void;
+  links: LinkItem[];
+  isOnAir: (link: LinkItem) => boolean;
+  log: FailoverEvent[];
+};
+
+/** The selected source's failover chain, its settings, and what failover did lately on any source. */
+export default function FailoverPanel({ sourceName, chain, onChainChange, links, isOnAir, log }: FailoverPanelProps) {
+  const [linkToAdd, setLinkToAdd] = useState('');
+  const linkIds = chain?.linkIds ?? [];
+
+  const moveLink = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= linkIds.length) return;
+    const next = [...linkIds];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChainChange({ linkIds: next });
+  };
+
+  const addLink = () => {
+    onChainChange({ linkIds: [...linkIds, linkToAdd] });
+    setLinkToAdd('');
+  };
+
+  return (
+    <section className="bg-neutral-900/30 border border-neutral-800 rounded-[3rem] p-8 md:p-12">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-8 gap-6">
+        <h3 className="text-2xl font-medium text-white flex items-center gap-3">
+          <ShieldAlert className="w-6 h-6 text-neutral-400" /> Failover
+          {sourceName && <span className="text-neutral-500 text-lg">· {sourceName}</span>}
+        </h3>
+        {chain && (
+          <div className="flex flex-wrap gap-3">
+            <button
+              onClick={() => onChainChange({ enabled: !chain.enabled })}
+              className={`flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${chain.enabled ? 'bg-neutral-900 border-white text-white' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+            >
+              <Activity className="w-4 h-4" /> Auto
+            </button>
+            <button
+              onClick={() => onChainChange({ returnToPrimary: !chain.returnToPrimary })}
+              className={`flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${chain.returnToPrimary ? 'bg-neutral-900 border-white text-white' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+              title="Switch back to the primary once it plays again"
+            >
+              <RefreshCw className="w-4 h-4" /> Return
+            </button>
+            <button
+              onClick={() => onChainChange({ locked: !chain.locked })}
+              className={`flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${chain.locked ? 'bg-amber-500/10 border-amber-500 text-amber-400' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+              title="Pin the current link and pause automatic switching"
+            >
+              <Pin className="w-4 h-4" /> {chain.locked ? 'Pinned' : 'Pin'}
+            </button>
+            <label className="flex items-center gap-2 px-5 py-3 rounded-full border border-neutral-800 bg-black text-sm font-bold uppercase tracking-wider text-neutral-500">
+              Stall
+              <input
+                type="number"
+                min={1}
+                value={chain.stallSeconds}
+                onChange={e => onChainChange({ stallSeconds: Math.max(1, Number(e.target.value) || DEFAULT_STALL_SECONDS) })}
+                className="w-12 bg-transparent text-white text-center focus:outline-none"
+              />
+              s
+            </label>
+          </div>
+        )}
+      </div>
+
+      {/* Chain Links */}
+      <div className="space-y-3 mb-6">
+        {linkIds.map((linkId, index) => {
+          const link = links.find(l => l.id === linkId);
+          if (!link) return null;
+          const isActive = isOnAir(link);
+          return (
+            <div key={linkId} className={`flex items-center gap-4 p-3 pl-6 bg-black/50 border rounded-[2rem] ${isActive ? 'border-emerald-500' : 'border-neutral-800'}`}>
+              <span className="w-20 shrink-0 text-xs font-bold uppercase tracking-widest text-neutral-500">
+                {index === 0 ? 'Primary' : `Backup ${index}`}
+              </span>
+              <span className={`flex-1 min-w-0 truncate font-medium ${isActive ? 'text-emerald-400' : 'text-white'}`}>{link.name}</span>
+              <button onClick={() => moveLink(index, -1)} disabled={index === 0} className="p-2 text-neutral-400 hover:text-white hover:bg-neutral-800 rounded-full transition-colors disabled:opacity-30" title="Move Up">
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button onClick={() => moveLink(index, 1)} disabled={index === linkIds.length - 1} className="p-2 text-neutral-400 hover:text-white hover:bg-neutral-800 rounded-full transition-colors disabled:opacity-30" title="Move Down">
+                <ChevronDown className="w-4 h-4" />
+              </button>
+              <button onClick={() => onChainChange({ linkIds: linkIds.filter(id => id !== linkId) })} className="p-2 text-neutral-400 hover:text-rose-500 hover:bg-rose-950 rounded-full transition-colors" title="Remove from Chain">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2 mb-8">
+        <select
+          value={linkToAdd}
+          onChange={e => setLinkToAdd(e.target.value)}
+          disabled={!sourceName}
+          className="flex-1 appearance-none bg-black border border-neutral-800 rounded-full px-6 py-4 text-white focus:border-white focus:outline-none cursor-pointer disabled:opacity-50"
+        >
+          <option value="">Add a link to the chain…</option>
+          {links.filter(l => !linkIds.includes(l.id)).map(l => (
+            <option key={l.id} value={l.id} className="bg-neutral-900">{l.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={addLink}
+          disabled={!sourceName || !linkToAdd}
+          className="p-4 bg-white text-black rounded-full hover:bg-neutral-200 disabled:bg-neutral-800 disabled:text-neutral-600 transition-all"
+          title="Add to Chain"
+        >
+          <Plus className="w-6 h-6" />
+        </button>
+      </div>
+
+      {/* Failover Events */}
+      <div className="space-y-2 max-h-64 overflow-y-auto pr-2 custom-scrollbar">
+        {log.map(event => (
+          <div key={event.id} className="flex items-center gap-4 px-6 py-3 bg-black/50 border border-neutral-800 rounded-full text-sm">
+            <span className="font-mono text-neutral-500">{new Date(event.at).toLocaleTimeString()}</span>
+            <span className="text-neutral-400 truncate">{event.sourceName}</span>
+            <span className="flex-1 min-w-0 truncate text-white">
+              {event.from ?? '—'} → {event.to ?? <span className="text-rose-500">none</span>}
+            </span>
+            <span className="text-amber-400 truncate">{event.reason}</span>
+          </div>
+        ))}
+        {log.length === 0 && (
+          <p className="text-neutral-500 px-4 py-2">No failover events yet.</p>
+        )}
+      </div>
+    </section>
+  );
+}
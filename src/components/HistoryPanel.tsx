@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Crosshair, Download, History, Undo2 } from 'lucide-react';
+import type { LinkItem, SwitchRecord } from '../types';
+import { SWITCH_TRIGGER_LABELS, canRevert } from '../history';
+
+type HistoryPanelProps = {
+  records: SwitchRecord[];
+  // Revert and the source filter work on it
+  selectedSource: string;
+  links: LinkItem[];
+  // Hides secret values left in recorded URLs
+  masked: (text: string) => string;
+  canSwitch: boolean;
+  onRevert: (record: SwitchRecord) => void;
+  onExport: (format: 'csv' | 'json') => void;
+};
+
+/** Every recorded switch, newest first, with one-click revert and CSV/JSON export. */
+export default function HistoryPanel({ records, selectedSource, links, masked, canSwitch, onRevert, onExport }: HistoryPanelProps) {
+  const [filter, setFilter] = useState<'all' | 'selected'>('all');
+
+  const shown = filter === 'selected' ? records.filter(r => r.sourceName === selectedSource) : records;
+  const lastRevertable = records.find(r => r.sourceName === selectedSource && canRevert(r));
+
+  return (
+    <section className="bg-neutral-900/30 border border-neutral-800 rounded-[3rem] p-8 md:p-12">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-8 gap-6">
+        <h3 className="text-2xl font-medium text-white flex items-center gap-3">
+          <History className="w-6 h-6 text-neutral-400" /> History
+        </h3>
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={() => lastRevertable && onRevert(lastRevertable)}
+            disabled={!lastRevertable || !canSwitch}
+            className="flex items-center gap-2 px-5 py-3 rounded-full border border-neutral-800 bg-black text-sm font-bold uppercase tracking-wider text-neutral-500 hover:border-white hover:text-white transition-all disabled:opacity-50"
+            title={lastRevertable ? `Put ${selectedSource} back on ${masked(lastRevertable.previousUrl ?? '')}` : 'Nothing to revert for the selected source'}
+          >
+            <Undo2 className="w-4 h-4" /> Revert
+          </button>
+          <button
+            onClick={() => setFilter(filter === 'all' ? 'selected' : 'all')}
+            className={`flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${filter === 'selected' ? 'bg-neutral-900 border-white text-white' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+            title="Only show switches of the selected source"
+          >
+            <Crosshair className="w-4 h-4" /> {filter === 'selected' ? selectedSource || 'Selected' : 'All Sources'}
+          </button>
+          {(['csv', 'json'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => onExport(format)}
+              disabled={records.length === 0}
+              className="flex items-center gap-2 px-5 py-3 bg-black border border-neutral-800 hover:border-white rounded-full text-sm font-bold uppercase tracking-wider transition-all disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" /> {format}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2 max-h-96 overflow-y-auto pr-2 custom-scrollbar">
+        {shown.map(record => (
+          <div key={record.id} className="group flex items-center gap-4 px-6 py-3 bg-black/50 border border-neutral-800 rounded-full text-sm">
+            <span className="shrink-0 font-mono text-neutral-500" title={new Date(record.at).toLocaleString()}>{new Date(record.at).toLocaleTimeString()}</span>
+            <span className={`shrink-0 w-20 text-xs font-bold uppercase tracking-widest ${record.trigger === 'external' ? 'text-amber-400' : record.trigger === 'failover' ? 'text-rose-400' : 'text-neutral-400'}`}>
+              {SWITCH_TRIGGER_LABELS[record.trigger]}
+            </span>
+            <span className="shrink-0 text-neutral-400 truncate max-w-[20%]">{record.sourceName}</span>
+            <span className="flex-1 min-w-0 truncate" title={masked(`${record.previousUrl ?? 'unknown'} → ${record.url}`)}>
+              <span className="text-neutral-500">{links.find(l => l.id === record.previousLinkId)?.name ?? (record.previousUrl ? masked(record.previousUrl) : '—')}</span>
+              <span className="text-neutral-600"> → </span>
+              <span className="text-white">{record.linkName ?? masked(record.url)}</span>
+            </span>
+            {record.outcome && <span className="shrink-0 max-w-[25%] truncate text-neutral-400" title={record.outcome}>{record.outcome}</span>}
+            <button
+              onClick={() => onRevert(record)}
+              disabled={!canRevert(record) || !canSwitch}
+              className="shrink-0 p-2 -my-1 text-neutral-500 hover:text-white hover:bg-neutral-800 rounded-full transition-all opacity-0 group-hover:opacity-100 disabled:hidden"
+              title="Switch back to the previous URL"
+            >
+              <Undo2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        {shown.length === 0 && (
+          <p className="text-neutral-500 px-4 py-2">No switches recorded yet.</p>
+        )}
+      </div>
+    </section>
+  );
+}
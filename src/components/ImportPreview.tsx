@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { Check, FileWarning, Radio, SlidersHorizontal, Upload, X } from 'lucide-react';
+import { MERGE_STRATEGY_LABELS } from '../transfer';
+import type { ImportEntry, ImportEntryStatus, ImportSourceKind, MergeStrategy, ParsedImport } from '../transfer';
+import type { Badge } from './badges';
+
+const IMPORT_STATUS_BADGES: Record<ImportEntryStatus, Badge> = {
+  new: { label: 'New', className: 'border-emerald-500/50 text-emerald-400' },
+  changed: { label: 'Changed', className: 'border-amber-500/50 text-amber-400' },
+  duplicate: { label: 'Duplicate', className: 'border-neutral-700 text-neutral-500' },
+};
+
+const IMPORT_KIND_LABELS: Record<ImportSourceKind, string> = {
+  bundle: 'Export',
+  legacy: 'Link list (old export)',
+  m3u: 'M3U playlist',
+  csv: 'CSV',
+};
+
+const MERGE_STRATEGY_HINTS: Record<MergeStrategy, string> = {
+  'skip': 'Links whose URL is already in the list are left out',
+  'overwrite': 'Links whose URL is already in the list replace the existing entry',
+  'keep-both': 'Every link is added, even if its URL is already in the list',
+};
+
+// What the operator picked in the dialog
+export type ImportOptions = {
+  strategy: MergeStrategy;
+  applySettings: boolean;
+  addProfiles: boolean;
+};
+
+type ImportPreviewProps = {
+  fileName: string;
+  parsed: ParsedImport;
+  // The file's links against the current list
+  entries: ImportEntry[];
+  // OBS connections in the file that aren't known yet
+  newProfileCount: number;
+  onCancel: () => void;
+  onConfirm: (options: ImportOptions) => void;
+};
+
+/** Dialog listing what a parsed file would add or change, with the merge strategy to apply. */
+export default function ImportPreview({ fileName, parsed, entries, newProfileCount, onCancel, onConfirm }: ImportPreviewProps) {
+  const [options, setOptions] = useState<ImportOptions>({ strategy: 'skip', applySettings: false, addProfiles: false });
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-neutral-950 border border-neutral-800 rounded-[3rem] p-8 md:p-10">
+        <div className="flex justify-between items-start gap-6 mb-6">
+          <div className="min-w-0">
+            <h3 className="text-2xl font-medium text-white flex items-center gap-3">
+              <Upload className="w-6 h-6 text-neutral-400" /> Import
+            </h3>
+            <p className="text-neutral-500 text-sm mt-1 truncate">{fileName} · {IMPORT_KIND_LABELS[parsed.kind]}</p>
+          </div>
+          <button onClick={onCancel} className="p-3 text-neutral-400 hover:text-white hover:bg-neutral-800 rounded-full transition-colors" title="Cancel">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar space-y-6">
+          {parsed.errors.length > 0 && (
+            <div className="p-5 rounded-[2rem] border border-rose-900 bg-rose-950/30">
+              <p className="flex items-center gap-2 text-rose-400 text-sm font-bold uppercase tracking-widest mb-3">
+                <FileWarning className="w-4 h-4" /> {parsed.errors.length} {parsed.errors.length === 1 ? 'problem' : 'problems'}
+              </p>
+              <ul className="space-y-1 text-sm font-mono text-rose-300/80">
+                {parsed.errors.map((error, i) => <li key={i}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {entries.length > 0 && (
+            <div>
+              <p className="ml-4 mb-3 text-xs font-bold uppercase tracking-widest text-neutral-500">
+                {(['new', 'changed', 'duplicate'] as const).map(status => `${entries.filter(e => e.status === status).length} ${IMPORT_STATUS_BADGES[status].label.toLowerCase()}`).join(' · ')}
+              </p>
+              <div className="space-y-2">
+                {entries.map(({ link, status, existing }, i) => (
+                  <div key={i} className="flex items-center gap-4 px-5 py-3 rounded-full border border-neutral-800 bg-black/50">
+                    <span className={`shrink-0 px-2 py-0.5 rounded-full border text-[10px] font-bold uppercase tracking-widest ${IMPORT_STATUS_BADGES[status].className}`}>
+                      {IMPORT_STATUS_BADGES[status].label}
+                    </span>
+                    <span className="text-white shrink-0">{link.name}</span>
+                    {existing && existing.name !== link.name && (
+                      <span className="text-neutral-500 text-sm shrink-0">was {existing.name}</span>
+                    )}
+                    <span className="text-neutral-500 text-sm font-mono truncate">{link.url}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {parsed.variables && parsed.variables.length > 0 && (
+            <p className="ml-4 text-sm text-neutral-500">
+              Variables: <span className="font-mono text-neutral-400">{parsed.variables.map(v => `{${v.name}}${v.secret && !v.value ? ' (secret, blank)' : ''}`).join(', ')}</span>
+            </p>
+          )}
+        </div>
+
+        {(entries.length > 0 || parsed.settings || newProfileCount > 0) && (
+          <div className="pt-6 mt-6 border-t border-neutral-800 space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(MERGE_STRATEGY_LABELS) as MergeStrategy[]).map(strategy => (
+                <button
+                  key={strategy}
+                  onClick={() => setOptions({ ...options, strategy })}
+                  className={`flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${options.strategy === strategy ? 'bg-neutral-900 border-white text-white' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+                  title={MERGE_STRATEGY_HINTS[strategy]}
+                >
+                  {MERGE_STRATEGY_LABELS[strategy]}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {parsed.settings && (
+                <button
+                  onClick={() => setOptions({ ...options, applySettings: !options.applySettings })}
+                  className={`flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${options.applySettings ? 'bg-neutral-900 border-white text-white' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+                >
+                  <SlidersHorizontal className="w-4 h-4" /> Apply Settings
+                </button>
+              )}
+              {newProfileCount > 0 && (
+                <button
+                  onClick={() => setOptions({ ...options, addProfiles: !options.addProfiles })}
+                  className={`flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${options.addProfiles ? 'bg-neutral-900 border-white text-white' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+                  title="Passwords are never exported; enter them after importing"
+                >
+                  <Radio className="w-4 h-4" /> Add {newProfileCount} OBS {newProfileCount === 1 ? 'Connection' : 'Connections'}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-6">
+          <button onClick={onCancel} className="px-6 py-3 bg-neutral-800 text-white rounded-full text-sm font-bold uppercase tracking-wider hover:bg-neutral-700 transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(options)}
+            disabled={entries.length === 0 && !options.applySettings && !options.addProfiles}
+            className="flex items-center gap-2 px-6 py-3 bg-white text-black rounded-full text-sm font-bold uppercase tracking-wider hover:bg-neutral-200 disabled:bg-neutral-800 disabled:text-neutral-600 transition-all"
+          >
+            <Check className="w-4 h-4" /> Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import { useEffect, useState } from 'react';
+import { Circle, Eye, Lock, LockOpen, MonitorPlay, Play, Settings, ShieldCheck, Sun } from 'lucide-react';
+import type { LinkColor, LinkHealth, LinkItem, OBSSource } from '../types';
+import { LINK_COLORS } from '../groups';
+import { formatDuration } from '../schedule';
+import type { OutputStatus } from '../obs/outputs';
+import { useWakeLock } from '../hooks/useWakeLock';
+import type { WakeLockStatus } from '../hooks/useWakeLock';
+import { HEALTH_BADGES, TALLY_BADGES } from './badges';
+import type { Badge, Tally } from './badges';
+
+// How long an armed tile waits for its confirming tap
+const ARMED_TILE_TIMEOUT_MS = 4000;
+
+const WAKE_LOCK_LABELS: Record<WakeLockStatus, string> = {
+  off: 'Screen may sleep',
+  held: 'Screen stays on',
+  unsupported: 'This browser can\'t keep the screen on',
+  denied: 'The browser refused to keep the screen on',
+};
+
+// One link as its tile shows it
+export type OperatorTile = {
+  link: LinkItem;
+  active: boolean;
+  health?: LinkHealth;
+  tally: Tally | null;
+  color?: LinkColor;
+  // Last frame seen on air
+  frame?: string;
+  // Just fired by a hotkey or MIDI press
+  fired: boolean;
+};
+
+export type OperatorTab = { id: string; name: string; color?: LinkColor };
+
+type OperatorViewProps = {
+  connectedNames: string[];
+  outputStatus: OutputStatus | null;
+  sources: OBSSource[];
+  selectedSource: string;
+  onSelectSource: (name: string) => void;
+  studioMode: boolean;
+  loadTarget: Tally;
+  onLoadTarget: (target: Tally) => void;
+  onTake: () => void;
+  // The control pill, or null while operator sync can't offer it
+  control: (Badge & { title: string; locked: boolean }) | null;
+  onControlClick: () => void;
+  confirmSwitch: boolean;
+  onConfirmSwitch: (confirm: boolean) => void;
+  keepAwake: boolean;
+  onKeepAwake: (keepAwake: boolean) => void;
+  errors: string[];
+  // Group tabs; left out when there are no groups
+  tabs: OperatorTab[];
+  activeTab: string;
+  onOpenTab: (tab: string) => void;
+  tiles: OperatorTile[];
+  // Whether there are links at all, for the empty message
+  hasLinks: boolean;
+  canSwitch: boolean;
+  onSwitch: (link: LinkItem) => void;
+  onClose: () => void;
+};
+
+/**
+ * Touch-first layout for running the show: big link tiles, the target source and the toggles an operator
+ * needs on a tablet. With confirm on, the first tap arms a tile and a second tap on the same tile switches.
+ */
+export default function OperatorView({
+  connectedNames,
+  outputStatus,
+  sources,
+  selectedSource,
+  onSelectSource,
+  studioMode,
+  loadTarget,
+  onLoadTarget,
+  onTake,
+  control,
+  onControlClick,
+  confirmSwitch,
+  onConfirmSwitch,
+  keepAwake,
+  onKeepAwake,
+  errors,
+  tabs,
+  activeTab,
+  onOpenTab,
+  tiles,
+  hasLinks,
+  canSwitch,
+  onSwitch,
+  onClose,
+}: OperatorViewProps) {
+  const [armedLinkId, setArmedLinkId] = useState<string | null>(null);
+  const wakeLock = useWakeLock(keepAwake);
+  const isConnected = connectedNames.length > 0;
+
+  const handleTap = (link: LinkItem) => {
+    if (confirmSwitch && armedLinkId !== link.id) {
+      setArmedLinkId(link.id);
+      return;
+    }
+    setArmedLinkId(null);
+    onSwitch(link);
+  };
+
+  // An armed tile that isn't confirmed in time goes back to normal
+  useEffect(() => {
+    if (!armedLinkId) return;
+    const timer = setTimeout(() => setArmedLinkId(null), ARMED_TILE_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [armedLinkId]);
+
+  return (
+    <div className="w-full max-w-7xl flex flex-col gap-6 select-none">
+      <div className="flex flex-wrap items-center gap-3">
+        <span
+          className={`flex items-center gap-2 px-5 py-4 rounded-full border text-sm font-bold uppercase tracking-wider ${isConnected ? 'border-emerald-500/50 text-emerald-400' : 'border-rose-500/50 text-rose-400'}`}
+          title={connectedNames.join(', ') || 'Not connected to OBS'}
+        >
+          <Circle className={`w-2.5 h-2.5 ${isConnected ? 'fill-emerald-500 text-emerald-500' : 'fill-rose-500 text-rose-500'}`} />
+          {isConnected ? `${connectedNames.length} OBS` : 'Offline'}
+        </span>
+        {(outputStatus?.streaming || outputStatus?.recording) && (
+          <span className="flex items-center gap-2 px-5 py-4 rounded-full border border-rose-500/50 bg-rose-500/10 text-sm font-bold uppercase tracking-wider text-rose-400">
+            <Circle className="w-2.5 h-2.5 fill-rose-500 text-rose-500 animate-pulse" />
+            {[outputStatus.streaming && `Live ${formatDuration(outputStatus.streamDurationMs)}`, outputStatus.recording && (outputStatus.recordPaused ? 'Rec Paused' : 'Rec')].filter(Boolean).join(' · ')}
+          </span>
+        )}
+        <select
+          value={selectedSource}
+          onChange={e => onSelectSource(e.target.value)}
+          disabled={sources.length === 0}
+          className="flex-1 min-w-48 appearance-none bg-black border border-neutral-800 rounded-full px-6 py-4 text-lg font-medium text-white focus:border-white focus:outline-none cursor-pointer disabled:text-neutral-600"
+          title="Target source"
+        >
+          {sources.length === 0 && <option value="">No sources</option>}
+          {sources.map(s => <option key={s.name} value={s.name} className="bg-neutral-900">{s.name}</option>)}
+        </select>
+        {studioMode && (
+          <>
+            {(['program', 'preview'] as const).map(target => (
+              <button
+                key={target}
+                onClick={() => onLoadTarget(target)}
+                className={`flex items-center gap-2 px-5 py-4 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${loadTarget === target ? TALLY_BADGES[target].className : 'bg-black border-neutral-800 text-neutral-500'}`}
+              >
+                {target === 'program' ? <MonitorPlay className="w-4 h-4" /> : <Eye className="w-4 h-4" />} {TALLY_BADGES[target].label}
+              </button>
+            ))}
+            <button
+              onClick={onTake}
+              className="flex items-center gap-2 px-8 py-4 rounded-full bg-white text-black text-sm font-bold uppercase tracking-wider active:scale-95 transition-all"
+            >
+              <Play className="w-4 h-4" /> Take
+            </button>
+          </>
+        )}
+        {control && (
+          <button
+            onClick={onControlClick}
+            className={`flex items-center gap-2 px-5 py-4 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${control.className}`}
+            title={control.title}
+          >
+            {control.locked ? <Lock className="w-4 h-4" /> : <LockOpen className="w-4 h-4" />} {control.label}
+          </button>
+        )}
+        <button
+          onClick={() => onConfirmSwitch(!confirmSwitch)}
+          className={`flex items-center gap-2 px-5 py-4 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${confirmSwitch ? 'bg-neutral-900 border-white text-white' : 'bg-black border-neutral-800 text-neutral-500'}`}
+          title="Tap a tile twice to switch; hotkeys and MIDI still fire at once"
+        >
+          <ShieldCheck className="w-4 h-4" /> Confirm
+        </button>
+        <button
+          onClick={() => onKeepAwake(!keepAwake)}
+          className={`flex items-center gap-2 px-5 py-4 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${
+            keepAwake && (wakeLock === 'unsupported' || wakeLock === 'denied')
+              ? 'bg-amber-500/10 border-amber-500 text-amber-400'
+              : keepAwake ? 'bg-neutral-900 border-white text-white' : 'bg-black border-neutral-800 text-neutral-500'
+          }`}
+          title={WAKE_LOCK_LABELS[wakeLock]}
+        >
+          <Sun className="w-4 h-4" /> Awake
+        </button>
+        <button
+          onClick={onClose}
+          className="p-4 bg-neutral-900 border border-neutral-800 rounded-full text-white transition-all"
+          title="Back to setup"
+        >
+          <Settings className="w-5 h-5" />
+        </button>
+      </div>
+
+      {errors.map((error, i) => (
+        <p key={i} className="text-rose-500 font-medium text-center bg-rose-500/10 py-3 rounded-2xl">{error}</p>
+      ))}
+
+      {tabs.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {tabs.map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => onOpenTab(tab.id)}
+              className={`flex items-center gap-2 px-6 py-4 rounded-full border text-base font-medium transition-all ${
+                activeTab === tab.id
+                  ? `bg-neutral-900 ${tab.color ? LINK_COLORS[tab.color].tab : 'border-white text-white'}`
+                  : 'bg-black border-neutral-800 text-neutral-500'
+              }`}
+            >
+              {tab.color && <span className={`w-2.5 h-2.5 rounded-full ${LINK_COLORS[tab.color].dot}`} />}
+              {tab.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-4">
+        {tiles.map(({ link, active, health, tally, color, frame, fired }) => {
+          const armed = armedLinkId === link.id;
+          return (
+            <button
+              key={link.id}
+              onClick={() => handleTap(link)}
+              disabled={!canSwitch}
+              className={`relative aspect-video bg-neutral-950 border-4 rounded-[2rem] overflow-hidden text-left touch-manipulation transition-all active:scale-[0.98] disabled:opacity-50
+                ${armed ? 'border-amber-400' : active ? 'border-emerald-500 shadow-[0_0_30px_rgba(16,185,129,0.25)]' : 'border-neutral-800'}
+                ${fired ? 'ring-4 ring-white/60' : ''}`}
+            >
+              {frame && (
+                <img src={frame} alt="" className={`absolute inset-0 w-full h-full object-cover ${active ? 'opacity-70' : 'opacity-40'}`} />
+              )}
+              <span className="absolute inset-0 bg-gradient-to-t from-black via-black/30 to-transparent" />
+              <span className="absolute top-4 left-4 right-4 flex items-center gap-2">
+                {color && <span className={`w-3 h-3 rounded-full ${LINK_COLORS[color].dot}`} />}
+                {tally && (
+                  <span className={`px-2 py-0.5 rounded-full border text-[10px] font-bold uppercase tracking-widest ${TALLY_BADGES[tally].className}`}>
+                    {TALLY_BADGES[tally].label}
+                  </span>
+                )}
+                {active && <Circle className="ml-auto w-3 h-3 fill-emerald-500 text-emerald-500 animate-pulse" />}
+              </span>
+              <span className="absolute left-5 right-5 bottom-4">
+                <span className={`block text-xl md:text-2xl font-medium leading-tight truncate ${active ? 'text-emerald-400' : 'text-white'}`}>{link.name}</span>
+                {health && (
+                  <span className={`block mt-1 text-xs font-bold uppercase tracking-widest ${HEALTH_BADGES[health].className}`}>{HEALTH_BADGES[health].label}</span>
+                )}
+              </span>
+              {armed && (
+                <span className="absolute inset-0 flex items-center justify-center bg-amber-500/20 text-amber-300 text-lg font-bold uppercase tracking-widest">
+                  Tap again to switch
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+      {tiles.length === 0 && (
+        <p className="text-neutral-500 text-center py-12 border-2 border-dashed border-neutral-800 rounded-[2rem]">
+          {hasLinks ? 'No links in this group.' : 'No links yet. Add them in setup.'}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import { useState } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import { CalendarClock, ChevronDown, ChevronUp, Pause, Play, Plus, RotateCcw, SkipForward, X } from 'lucide-react';
+import type { CueStatus, LinkItem, OBSSource, ScheduleCue } from '../types';
+import { formatDuration, parseClockTime, parseDuration, resetCues } from '../schedule';
+import type { RunOfShow } from '../schedule';
+import type { Badge } from './badges';
+
+const CUE_STATUS_BADGES: Record<CueStatus, Badge> = {
+  pending: { label: 'Pending', className: 'border-neutral-700 text-neutral-400' },
+  fired: { label: 'Fired', className: 'border-emerald-500/50 text-emerald-400' },
+  failed: { label: 'Failed', className: 'border-rose-500/50 text-rose-400' },
+  skipped: { label: 'Skipped', className: 'border-neutral-800 text-neutral-600' },
+};
+
+type RunOfShowPanelProps = {
+  runOfShow: RunOfShow;
+  onChange: Dispatch<SetStateAction<RunOfShow>>;
+  // Countdown clock and due times from useRunOfShow, which keeps firing cues while this panel is closed
+  now: number;
+  cueDue: (number | null)[];
+  nextCue: number;
+  onFireCue: (cue: ScheduleCue) => void;
+  onUpdateCue: (id: string, patch: Partial<ScheduleCue>) => void;
+  // Queues a new pending cue
+  onAddCue: (cue: Omit<ScheduleCue, 'id' | 'status'>) => void;
+  links: LinkItem[];
+  sources: OBSSource[];
+  // New cues target it unless another source is picked
+  selectedSource: string;
+  canFire: boolean;
+};
+
+/** The cue list with its countdown and run/hold controls, plus the form that queues new cues. */
+export default function RunOfShowPanel({
+  runOfShow,
+  onChange,
+  now,
+  cueDue,
+  nextCue,
+  onFireCue,
+  onUpdateCue,
+  onAddCue,
+  links,
+  sources,
+  selectedSource,
+  canFire,
+}: RunOfShowPanelProps) {
+  const [cueLinkId, setCueLinkId] = useState('');
+  const [cueSource, setCueSource] = useState('');
+  const [cueTiming, setCueTiming] = useState<ScheduleCue['timing']>('at');
+  const [cueTimeText, setCueTimeText] = useState('');
+
+  const hasCues = runOfShow.cues.length > 0;
+  const cueTimeValue = cueTiming === 'at' ? parseClockTime(cueTimeText) : parseDuration(cueTimeText);
+  const cueSourceName = cueSource || selectedSource;
+
+  const handleAddCue = () => {
+    if (!cueLinkId || !cueSourceName || cueTimeValue === null) return;
+    onAddCue({
+      linkId: cueLinkId,
+      sourceName: cueSourceName,
+      timing: cueTiming,
+      at: cueTiming === 'at' ? cueTimeValue : undefined,
+      afterMs: cueTiming === 'after' ? cueTimeValue : undefined,
+    });
+    setCueLinkId('');
+    setCueTimeText('');
+  };
+
+  const moveCue = (index: number, delta: number) => {
+    onChange(prev => {
+      const cues = [...prev.cues];
+      const target = index + delta;
+      if (target < 0 || target >= cues.length) return prev;
+      [cues[index], cues[target]] = [cues[target], cues[index]];
+      return { ...prev, cues };
+    });
+  };
+
+  const toggleRun = () => {
+    onChange(prev => prev.running ? { ...prev, running: false } : { ...prev, running: true, anchorAt: Date.now() });
+  };
+
+  const goNextCue = () => {
+    if (nextCue !== -1) onFireCue(runOfShow.cues[nextCue]);
+  };
+
+  const resetRunOfShow = () => {
+    onChange(prev => ({ cues: resetCues(prev.cues), running: false, anchorAt: null }));
+  };
+
+  return (
+    <section className="bg-neutral-900/30 border border-neutral-800 rounded-[3rem] p-8 md:p-12">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-8 gap-6">
+        <h3 className="text-2xl font-medium text-white flex items-center gap-3">
+          <CalendarClock className="w-6 h-6 text-neutral-400" /> Run of Show
+        </h3>
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={toggleRun}
+            disabled={nextCue === -1 && !runOfShow.running}
+            className={`flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all disabled:opacity-50 ${runOfShow.running ? 'bg-neutral-900 border-emerald-500 text-emerald-400' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+            title={runOfShow.running ? 'Hold: stop firing cues automatically' : 'Fire cues automatically when they come due'}
+          >
+            {runOfShow.running ? <><Pause className="w-4 h-4" /> Hold</> : <><Play className="w-4 h-4" /> Run</>}
+          </button>
+          <button
+            onClick={goNextCue}
+            disabled={nextCue === -1 || !canFire}
+            className="flex items-center gap-2 px-5 py-3 rounded-full border border-neutral-800 bg-black text-sm font-bold uppercase tracking-wider text-neutral-500 hover:border-white hover:text-white transition-all disabled:opacity-50"
+            title="Fire the next cue now"
+          >
+            <SkipForward className="w-4 h-4" /> Go Next
+          </button>
+          <button
+            onClick={resetRunOfShow}
+            disabled={!hasCues}
+            className="flex items-center gap-2 px-5 py-3 rounded-full border border-neutral-800 bg-black text-sm font-bold uppercase tracking-wider text-neutral-500 hover:border-neutral-600 transition-all disabled:opacity-50"
+            title="Mark every cue pending again"
+          >
+            <RotateCcw className="w-4 h-4" /> Reset
+          </button>
+        </div>
+      </div>
+
+      {/* Next Cue Countdown */}
+      {nextCue !== -1 && (() => {
+        const cue = runOfShow.cues[nextCue];
+        const due = cueDue[nextCue];
+        return (
+          <div className="flex items-center gap-6 mb-6 p-6 bg-black border border-neutral-800 rounded-[2rem]">
+            <span className={`font-mono text-4xl tabular-nums ${runOfShow.running ? 'text-white' : 'text-neutral-500'}`}>
+              {due !== null ? formatDuration(due - now) : '--:--'}
+            </span>
+            <div className="min-w-0">
+              <p className="text-xs font-bold uppercase tracking-widest text-neutral-500">{runOfShow.running ? 'Next cue' : 'Held'}</p>
+              <p className="text-white truncate">
+                {links.find(l => l.id === cue.linkId)?.name ?? 'Deleted link'} <span className="text-neutral-500">→ {cue.sourceName}</span>
+              </p>
+            </div>
+          </div>
+        );
+      })()}
+
+      {/* Cues */}
+      <div className="space-y-3 mb-6">
+        {runOfShow.cues.map((cue, index) => {
+          const link = links.find(l => l.id === cue.linkId);
+          const due = cueDue[index];
+          return (
+            <div key={cue.id} className={`flex items-center gap-4 p-3 pl-6 bg-black/50 border rounded-[2rem] ${index === nextCue ? 'border-white' : 'border-neutral-800'} ${cue.status === 'skipped' ? 'opacity-50' : ''}`}>
+              <span className="w-24 shrink-0 font-mono text-sm text-neutral-400" title={cue.timing === 'after' ? `${formatDuration(cue.afterMs ?? 0)} after the previous cue` : undefined}>
+                {cue.firedAt
+                  ? new Date(cue.firedAt).toLocaleTimeString()
+                  : due !== null ? new Date(due).toLocaleTimeString() : `+${formatDuration(cue.afterMs ?? 0)}`}
+              </span>
+              <span className={`shrink-0 px-2 py-0.5 rounded-full border text-[10px] font-bold uppercase tracking-widest ${CUE_STATUS_BADGES[cue.status].className}`}>
+                {CUE_STATUS_BADGES[cue.status].label}
+              </span>
+              <span className="flex-1 min-w-0 truncate">
+                <span className={link ? 'text-white' : 'text-rose-400'}>{link?.name ?? 'Deleted link'}</span>
+                <span className="text-neutral-500"> → {cue.sourceName}</span>
+              </span>
+              {cue.outcome && <span className="shrink-0 max-w-[40%] truncate text-sm text-neutral-400" title={cue.outcome}>{cue.outcome}</span>}
+              <button onClick={() => moveCue(index, -1)} disabled={index === 0} className="p-2 text-neutral-400 hover:text-white hover:bg-neutral-800 rounded-full transition-colors disabled:opacity-30" title="Move Up">
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button onClick={() => moveCue(index, 1)} disabled={index === runOfShow.cues.length - 1} className="p-2 text-neutral-400 hover:text-white hover:bg-neutral-800 rounded-full transition-colors disabled:opacity-30" title="Move Down">
+                <ChevronDown className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onUpdateCue(cue.id, { status: cue.status === 'skipped' ? 'pending' : 'skipped' })}
+                disabled={cue.status === 'fired' || cue.status === 'failed'}
+                className="p-2 text-neutral-400 hover:text-white hover:bg-neutral-800 rounded-full transition-colors disabled:opacity-30"
+                title={cue.status === 'skipped' ? 'Unskip' : 'Skip'}
+              >
+                <SkipForward className="w-4 h-4" />
+              </button>
+              <button onClick={() => onChange(prev => ({ ...prev, cues: prev.cues.filter(c => c.id !== cue.id) }))} className="p-2 text-neutral-400 hover:text-rose-500 hover:bg-rose-950 rounded-full transition-colors" title="Remove Cue">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          );
+        })}
+        {!hasCues && (
+          <p className="text-neutral-500 px-4 py-2">No cues yet. Queue links below at a clock time or after the previous cue.</p>
+        )}
+      </div>
+
+      {/* Add Cue */}
+      <div className="flex flex-col md:flex-row gap-2">
+        <select
+          value={cueLinkId}
+          onChange={e => setCueLinkId(e.target.value)}
+          className="flex-1 appearance-none bg-black border border-neutral-800 rounded-full px-6 py-4 text-white focus:border-white focus:outline-none cursor-pointer"
+        >
+          <option value="">Link…</option>
+          {links.map(l => (
+            <option key={l.id} value={l.id} className="bg-neutral-900">{l.name}</option>
+          ))}
+        </select>
+        <select
+          value={cueSourceName}
+          onChange={e => setCueSource(e.target.value)}
+          className="md:w-56 appearance-none bg-black border border-neutral-800 rounded-full px-6 py-4 text-white focus:border-white focus:outline-none cursor-pointer"
+        >
+          <option value="">Source…</option>
+          {[...new Set([...sources.map(src => src.name), cueSourceName])].filter(Boolean).map(name => (
+            <option key={name} value={name} className="bg-neutral-900">{name}</option>
+          ))}
+        </select>
+        <div className="flex rounded-full border border-neutral-800 bg-black p-1">
+          {(['at', 'after'] as const).map(timing => (
+            <button
+              key={timing}
+              onClick={() => setCueTiming(timing)}
+              className={`px-4 rounded-full text-sm font-bold uppercase tracking-wider transition-colors ${cueTiming === timing ? 'bg-neutral-800 text-white' : 'text-neutral-500 hover:text-white'}`}
+            >
+              {timing === 'at' ? 'At' : 'After'}
+            </button>
+          ))}
+        </div>
+        <input
+          type="text"
+          value={cueTimeText}
+          onChange={e => setCueTimeText(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') handleAddCue(); }}
+          placeholder={cueTiming === 'at' ? '14:30:00' : '5m, 1:30'}
+          className={`md:w-36 bg-black border rounded-full px-6 py-4 text-white font-mono placeholder:text-neutral-600 focus:outline-none transition-colors ${cueTimeText && cueTimeValue === null ? 'border-rose-500' : 'border-neutral-800 focus:border-white'}`}
+        />
+        <button
+          onClick={handleAddCue}
+          disabled={!cueLinkId || !cueSourceName || cueTimeValue === null}
+          className="p-4 bg-white text-black rounded-full hover:bg-neutral-200 disabled:bg-neutral-800 disabled:text-neutral-600 transition-all"
+          title="Add Cue"
+        >
+          <Plus className="w-6 h-6" />
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { Check, Plus, Puzzle, X } from 'lucide-react';
+import type { CustomKind } from '../types';
+import { BUILT_IN_KINDS, getKindAdapter, isValidKindId } from '../obs/kindAdapters';
+
+const EMPTY_KIND_DRAFT: CustomKind = { kind: '', label: '', urlKey: '', playlist: false, mediaStatus: false };
+
+type SourceKindsPanelProps = {
+  customKinds: CustomKind[];
+  onCustomKindsChange: (kinds: CustomKind[]) => void;
+};
+
+/** The switchable input kinds: the built-in ones and operator-defined plugin kinds, with a form to add more. */
+export default function SourceKindsPanel({ customKinds, onCustomKindsChange }: SourceKindsPanelProps) {
+  const [kindDraft, setKindDraft] = useState<CustomKind>(EMPTY_KIND_DRAFT);
+  const [kindError, setKindError] = useState<string | null>(null);
+
+  const handleAddKind = () => {
+    const kind = kindDraft.kind.trim();
+    const urlKey = kindDraft.urlKey.trim();
+    if (!isValidKindId(kind)) {
+      setKindError('Kind ids use letters, digits, "_", "." and "-" only.');
+    } else if (BUILT_IN_KINDS.includes(kind) || customKinds.some(k => k.kind === kind)) {
+      setKindError(`"${kind}" is already registered.`);
+    } else if (!urlKey) {
+      setKindError('Name the setting that holds the URL.');
+    } else {
+      onCustomKindsChange([...customKinds, {
+        ...kindDraft,
+        kind,
+        urlKey,
+        label: kindDraft.label.trim() || kind,
+        localFlagKey: kindDraft.localFlagKey?.trim() || undefined,
+      }]);
+      setKindDraft(EMPTY_KIND_DRAFT);
+      setKindError(null);
+    }
+  };
+
+  return (
+    <section className="bg-neutral-900/30 border border-neutral-800 rounded-[3rem] p-8 md:p-12">
+      <div className="mb-8">
+        <h3 className="text-2xl font-medium text-white flex items-center gap-3">
+          <Puzzle className="w-6 h-6 text-neutral-400" /> Source Kinds
+        </h3>
+        <p className="text-neutral-500 text-sm mt-2">Inputs of these kinds can be switched. Add plugin kinds by the setting their URL lives in.</p>
+      </div>
+
+      <div className="space-y-2 mb-6">
+        {[...BUILT_IN_KINDS.map(kind => ({ kind, custom: null })), ...customKinds.map(custom => ({ kind: custom.kind, custom }))].map(({ kind, custom }) => {
+          const adapter = getKindAdapter(kind);
+          return (
+            <div key={kind} className="group flex items-center gap-4 px-6 py-3 bg-black/50 border border-neutral-800 rounded-full text-sm">
+              <span className="shrink-0 text-white font-medium">{adapter?.label ?? kind}</span>
+              <span className="flex-1 min-w-0 truncate font-mono text-neutral-500">
+                {kind}{custom && ` · ${custom.urlKey}${custom.playlist ? '[]' : ''}${custom.localFlagKey ? ` · ${custom.localFlagKey}` : ''}`}
+              </span>
+              {adapter?.mediaStatus && (
+                <span className="shrink-0 px-2 py-0.5 rounded-full border border-neutral-700 text-neutral-400 text-[10px] font-bold uppercase tracking-widest" title="Reports media state to health checks and failover">Media State</span>
+              )}
+              {custom ? (
+                <button
+                  onClick={() => onCustomKindsChange(customKinds.filter(k => k.kind !== kind))}
+                  className="shrink-0 p-2 -my-1 text-neutral-500 hover:text-rose-500 rounded-full transition-colors opacity-0 group-hover:opacity-100"
+                  title="Remove Kind"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              ) : (
+                <span className="shrink-0 text-xs font-bold uppercase tracking-widest text-neutral-600">Built-in</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-2 lg:items-center">
+        <input
+          value={kindDraft.kind}
+          onChange={e => setKindDraft({ ...kindDraft, kind: e.target.value })}
+          placeholder="Kind id (e.g. media_playlist_source)"
+          className="flex-1 min-w-0 bg-black border border-neutral-800 rounded-full px-6 py-3 text-sm font-mono text-white focus:border-white focus:outline-none"
+        />
+        <input
+          value={kindDraft.label}
+          onChange={e => setKindDraft({ ...kindDraft, label: e.target.value })}
+          placeholder="Label"
+          className="lg:w-40 bg-black border border-neutral-800 rounded-full px-6 py-3 text-sm text-white focus:border-white focus:outline-none"
+        />
+        <input
+          value={kindDraft.urlKey}
+          onChange={e => setKindDraft({ ...kindDraft, urlKey: e.target.value })}
+          placeholder="URL setting"
+          className="lg:w-36 bg-black border border-neutral-800 rounded-full px-6 py-3 text-sm font-mono text-white focus:border-white focus:outline-none"
+        />
+        <input
+          value={kindDraft.localFlagKey ?? ''}
+          onChange={e => setKindDraft({ ...kindDraft, localFlagKey: e.target.value })}
+          placeholder="Local file flag"
+          title="Optional boolean setting turned on for local paths"
+          className="lg:w-36 bg-black border border-neutral-800 rounded-full px-6 py-3 text-sm font-mono text-white focus:border-white focus:outline-none"
+        />
+        {([['playlist', 'Playlist', 'URL is stored as a VLC-style playlist'], ['mediaStatus', 'Media State', 'Input reports media state (GetMediaInputStatus)']] as const).map(([key, label, title]) => (
+          <button
+            key={key}
+            onClick={() => setKindDraft({ ...kindDraft, [key]: !kindDraft[key] })}
+            className={`flex items-center justify-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${kindDraft[key] ? 'bg-neutral-900 border-white text-white' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+            title={title}
+          >
+            {kindDraft[key] && <Check className="w-4 h-4" />} {label}
+          </button>
+        ))}
+        <button
+          onClick={handleAddKind}
+          disabled={!kindDraft.kind.trim()}
+          className="shrink-0 p-3 bg-white text-black rounded-full hover:bg-neutral-200 transition-all disabled:opacity-50 self-start lg:self-auto"
+          title="Add Kind"
+        >
+          <Plus className="w-5 h-5" />
+        </button>
+      </div>
+      {kindError && <p className="text-rose-400 text-sm mt-3 px-4">{kindError}</p>}
+    </section>
+  );
+}
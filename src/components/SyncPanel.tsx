@@ -0,0 +1,56 @@
+import type { SyncConfig, SyncStatus } from '../hooks/useOperatorSync';
+import type { Badge } from './badges';
+
+const SYNC_BADGES: Record<SyncStatus, Badge> = {
+  off: { label: 'Off', className: 'bg-neutral-700' },
+  offline: { label: 'Waiting for OBS', className: 'bg-neutral-400 animate-pulse' },
+  syncing: { label: 'Syncing', className: 'bg-neutral-400 animate-pulse' },
+  synced: { label: 'Synced', className: 'bg-emerald-500' },
+  error: { label: 'Error', className: 'bg-rose-500' },
+};
+
+type SyncPanelProps = {
+  config: SyncConfig;
+  onConfigChange: (config: SyncConfig) => void;
+  // Turning sync on may replace the library, so the switcher asks first
+  onToggle: () => void;
+  status: SyncStatus;
+  error: string | null;
+  lastUpdate: { updatedBy: string; updatedAt: number } | null;
+  // OBS whose profile holds the shared library
+  leadName: string | undefined;
+};
+
+/** Settings for sharing the link library through the lead OBS, and who changed it last. */
+export default function SyncPanel({ config, onConfigChange, onToggle, status, error, lastUpdate, leadName }: SyncPanelProps) {
+  return (
+    <div className="pt-8 border-t border-neutral-800 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="ml-4">
+          <h3 className="text-xs font-bold uppercase tracking-widest text-neutral-500">Operator Sync</h3>
+          <p className="text-sm text-neutral-500 mt-1">Keep the link library in {leadName ?? 'the lead OBS'}'s profile, live for everyone connected to it</p>
+        </div>
+        <button
+          onClick={onToggle}
+          className={`shrink-0 flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${config.enabled ? 'bg-neutral-900 border-white text-white' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+        >
+          <span className={`rounded-full h-2.5 w-2.5 ${SYNC_BADGES[status].className}`}></span>
+          {SYNC_BADGES[status].label}
+        </button>
+      </div>
+      <input
+        type="text"
+        value={config.operatorName}
+        onChange={e => onConfigChange({ ...config, operatorName: e.target.value })}
+        className="w-full bg-black border border-neutral-800 rounded-full px-6 py-4 text-white placeholder:text-neutral-600 focus:border-white focus:outline-none transition-colors"
+        placeholder="Your name, shown to other operators"
+      />
+      {error && <p className="ml-4 text-rose-400 text-sm">{error}</p>}
+      {config.enabled && lastUpdate && (
+        <p className="ml-4 text-sm text-neutral-500">
+          Last change by <span className="text-white">{lastUpdate.updatedBy || 'an unnamed operator'}</span> at {new Date(lastUpdate.updatedAt).toLocaleTimeString()}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { KeyRound, Lock } from 'lucide-react';
+
+type UnlockPromptProps = {
+  busy: boolean;
+  error: string | null;
+  onUnlock: (passphrase: string) => void;
+  // Carries on without the saved passwords
+  onDismiss: () => void;
+};
+
+/** Modal asking for the passphrase of the saved passwords found on load. */
+export default function UnlockPrompt({ busy, error, onUnlock, onDismiss }: UnlockPromptProps) {
+  const [passphrase, setPassphrase] = useState('');
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className="w-full max-w-md bg-neutral-950 border border-neutral-800 rounded-[3rem] p-8 md:p-10 space-y-6">
+        <div>
+          <h3 className="text-2xl font-medium text-white flex items-center gap-3">
+            <KeyRound className="w-6 h-6 text-neutral-400" /> Unlock Passwords
+          </h3>
+          <p className="text-neutral-500 text-sm mt-1">Your OBS passwords are saved encrypted. Enter the passphrase to use them.</p>
+        </div>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && onUnlock(passphrase)}
+          className="w-full bg-black border border-neutral-800 rounded-full px-6 py-4 text-white placeholder:text-neutral-600 focus:border-white focus:outline-none transition-colors"
+          placeholder="Passphrase"
+          autoComplete="current-password"
+          autoFocus
+        />
+        {error && <p className="ml-4 text-rose-400 text-sm">{error}</p>}
+        <div className="flex gap-2">
+          <button
+            onClick={() => onUnlock(passphrase)}
+            disabled={busy || !passphrase}
+            className="flex-1 py-4 rounded-full font-bold tracking-wide uppercase flex items-center justify-center gap-3 transition-all active:scale-95 bg-white hover:bg-neutral-200 text-black disabled:bg-neutral-800 disabled:text-neutral-600"
+          >
+            <Lock className="w-5 h-5" /> {busy ? 'Unlocking…' : 'Unlock'}
+          </button>
+          <button
+            onClick={onDismiss}
+            className="px-6 py-4 bg-neutral-800 text-white rounded-full font-bold tracking-wide uppercase hover:bg-neutral-700 transition-colors"
+            title="Continue without saved passwords"
+          >
+            Not Now
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { Braces, Download, Eye, EyeOff, Lock, Plus, X } from 'lucide-react';
+import type { LinkGroup, LinkItem, TemplateVariable } from '../types';
+import { SECRET_MASK, isValidVariableName, templateNames } from '../variables';
+
+type VariablesPanelProps = {
+  variables: TemplateVariable[];
+  onVariablesChange: (variables: TemplateVariable[]) => void;
+  // Groups carry their own overrides
+  groups: LinkGroup[];
+  onGroupsChange: (groups: LinkGroup[]) => void;
+  links: LinkItem[];
+  exportSecrets: boolean;
+  onExportSecretsChange: (exportSecrets: boolean) => void;
+};
+
+/**
+ * Edits the template variables, globally or as one group's overrides. Names used in a link URL but defined
+ * nowhere are offered as one-click additions.
+ */
+export default function VariablesPanel({
+  variables,
+  onVariablesChange,
+  groups,
+  onGroupsChange,
+  links,
+  exportSecrets,
+  onExportSecretsChange,
+}: VariablesPanelProps) {
+  // Group whose overrides are being edited; '' edits the global values
+  const [scopeId, setScopeId] = useState('');
+  const [newVariableName, setNewVariableName] = useState('');
+  const [showSecrets, setShowSecrets] = useState(false);
+
+  const scopeGroup = groups.find(g => g.id === scopeId);
+  const undefinedVariables = [...new Set(links.flatMap(l => templateNames(l.url)))].filter(name => !variables.some(v => v.name === name));
+
+  // Names that look like credentials start out secret
+  const handleAddVariable = (name: string) => {
+    if (!isValidVariableName(name) || variables.some(v => v.name === name)) return;
+    onVariablesChange([...variables, { name, value: '', secret: /key|pass|secret|token/i.test(name) }]);
+    setNewVariableName('');
+  };
+
+  const updateVariable = (name: string, fields: Partial<TemplateVariable>) => {
+    onVariablesChange(variables.map(v => v.name === name ? { ...v, ...fields } : v));
+  };
+
+  // An empty value removes the override so the global one applies again
+  const setGroupVariable = (groupId: string, name: string, value: string) => {
+    onGroupsChange(groups.map(g => {
+      if (g.id !== groupId) return g;
+      const rest = Object.entries(g.variables ?? {}).filter(([key]) => key !== name);
+      const next = Object.fromEntries(value ? [...rest, [name, value]] : rest);
+      return { ...g, variables: Object.keys(next).length > 0 ? next : undefined };
+    }));
+  };
+
+  const handleRemoveVariable = (name: string) => {
+    onVariablesChange(variables.filter(v => v.name !== name));
+    onGroupsChange(groups.map(g => {
+      if (!g.variables || !(name in g.variables)) return g;
+      const rest = Object.entries(g.variables).filter(([key]) => key !== name);
+      return { ...g, variables: rest.length > 0 ? Object.fromEntries(rest) : undefined };
+    }));
+  };
+
+  return (
+    <section className="bg-neutral-900/30 border border-neutral-800 rounded-[3rem] p-8 md:p-12">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-8 gap-6">
+        <div>
+          <h3 className="text-2xl font-medium text-white flex items-center gap-3">
+            <Braces className="w-6 h-6 text-neutral-400" /> Variables
+          </h3>
+          <p className="text-neutral-500 text-sm mt-2">Use <span className="font-mono">{'{name}'}</span> in link URLs, e.g. <span className="font-mono">{'srt://{host}:{port}?streamid={key}'}</span>. Groups can override any value.</p>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <select
+            value={scopeId}
+            onChange={e => setScopeId(e.target.value)}
+            className="bg-black border border-neutral-800 focus:border-white rounded-full px-5 py-3 text-sm text-white focus:outline-none appearance-none cursor-pointer"
+            title="Edit the global values or a group's overrides"
+          >
+            <option value="" className="bg-neutral-900">Global</option>
+            {groups.map(group => (
+              <option key={group.id} value={group.id} className="bg-neutral-900">{group.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setShowSecrets(!showSecrets)}
+            className={`flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${showSecrets ? 'bg-neutral-900 border-white text-white' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+            title="Show secret values while editing"
+          >
+            {showSecrets ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />} Secrets
+          </button>
+          <button
+            onClick={() => onExportSecretsChange(!exportSecrets)}
+            className={`flex items-center gap-2 px-5 py-3 rounded-full border text-sm font-bold uppercase tracking-wider transition-all ${exportSecrets ? 'bg-neutral-900 border-amber-500 text-amber-400' : 'bg-black border-neutral-800 text-neutral-500 hover:border-neutral-600'}`}
+            title="Include secret values in the next export"
+          >
+            <Download className="w-4 h-4" /> {exportSecrets ? 'Export Secrets' : 'Secrets Not Exported'}
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2 mb-6">
+        {variables.map(variable => {
+          const usedBy = links.filter(l => templateNames(l.url).includes(variable.name)).length;
+          const override = scopeGroup?.variables?.[variable.name] ?? '';
+          const globalShown = variable.secret && !showSecrets ? variable.value && SECRET_MASK : variable.value;
+          return (
+            <div key={variable.name} className="group flex items-center gap-4 px-6 py-2 bg-black/50 border border-neutral-800 rounded-full text-sm">
+              <span className="shrink-0 w-40 truncate font-mono text-white" title={`Used by ${usedBy} ${usedBy === 1 ? 'link' : 'links'}`}>{`{${variable.name}}`}</span>
+              <input
+                type={variable.secret && !showSecrets ? 'password' : 'text'}
+                value={scopeGroup ? override : variable.value}
+                onChange={e => (scopeGroup
+                  ? setGroupVariable(scopeGroup.id, variable.name, e.target.value)
+                  : updateVariable(variable.name, { value: e.target.value }))}
+                placeholder={scopeGroup ? `Global: ${globalShown || 'undefined'}` : 'Value'}
+                autoComplete="off"
+                className="flex-1 min-w-0 bg-transparent border-none py-2 font-mono text-white placeholder:text-neutral-600 focus:ring-0 focus:outline-none"
+              />
+              {!scopeGroup && !variable.value && (
+                <span className="shrink-0 text-xs font-bold uppercase tracking-widest text-amber-400">Undefined</span>
+              )}
+              <span className="shrink-0 text-xs text-neutral-600">{usedBy}</span>
+              <button
+                onClick={() => updateVariable(variable.name, { secret: !variable.secret })}
+                className={`shrink-0 p-2 rounded-full transition-colors ${variable.secret ? 'text-amber-400' : 'text-neutral-600 hover:text-white'}`}
+                title={variable.secret ? 'Secret: masked and left out of exports' : 'Mark as secret'}
+              >
+                <Lock className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleRemoveVariable(variable.name)}
+                className="shrink-0 p-2 text-neutral-500 hover:text-rose-500 rounded-full transition-colors opacity-0 group-hover:opacity-100"
+                title="Remove Variable"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          );
+        })}
+        {variables.length === 0 && (
+          <p className="text-neutral-500 px-4 py-2">No variables yet.</p>
+        )}
+      </div>
+
+      {undefinedVariables.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-4 px-4">
+          <span className="text-xs font-bold uppercase tracking-widest text-amber-400">Used but not defined</span>
+          {undefinedVariables.map(name => (
+            <button
+              key={name}
+              onClick={() => handleAddVariable(name)}
+              className="flex items-center gap-1 px-3 py-1 rounded-full border border-amber-500/50 text-amber-400 text-sm font-mono hover:bg-amber-500/10 transition-colors"
+              title="Add Variable"
+            >
+              <Plus className="w-3 h-3" /> {name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          value={newVariableName}
+          onChange={e => setNewVariableName(e.target.value.trim())}
+          onKeyDown={e => e.key === 'Enter' && handleAddVariable(newVariableName)}
+          placeholder="New variable, e.g. stream_key"
+          className="flex-1 min-w-0 bg-black border border-neutral-800 rounded-full px-6 py-3 text-sm font-mono text-white focus:border-white focus:outline-none"
+        />
+        <button
+          onClick={() => handleAddVariable(newVariableName)}
+          disabled={!isValidVariableName(newVariableName) || variables.some(v => v.name === newVariableName)}
+          className="shrink-0 p-3 bg-white text-black rounded-full hover:bg-neutral-200 transition-all disabled:opacity-50"
+          title="Add Variable"
+        >
+          <Plus className="w-5 h-5" />
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,22 @@
+import { HEALTH_LABELS } from '../obs/health';
+import type { LinkHealth } from '../types';
+
+// --- Badges shared by the switcher and its panels ---
+
+// Which bus a link shows on, or is loaded into, in Studio Mode
+export type Tally = 'program' | 'preview';
+
+export type Badge = { label: string; className: string };
+
+export const HEALTH_BADGES: Record<LinkHealth, Badge> = {
+  checking: { label: HEALTH_LABELS.checking, className: 'text-neutral-400 animate-pulse' },
+  healthy: { label: HEALTH_LABELS.healthy, className: 'text-emerald-400' },
+  stalled: { label: HEALTH_LABELS.stalled, className: 'text-amber-400' },
+  failed: { label: HEALTH_LABELS.failed, className: 'text-rose-500' },
+};
+
+// Broadcast tally colours: red on program, green on preview
+export const TALLY_BADGES: Record<Tally, Badge> = {
+  program: { label: 'Program', className: 'bg-rose-500/10 border-rose-500 text-rose-400' },
+  preview: { label: 'Preview', className: 'bg-emerald-500/10 border-emerald-500 text-emerald-400' },
+};
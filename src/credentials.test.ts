@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { deriveVaultKey, openVault, parseVault, sealSecrets } from './credentials';
+
+const PASSPHRASE = 'correct horse battery';
+// Key derivation is slow on purpose
+const VAULT_TIMEOUT_MS = 20000;
+
+describe('credential vault', () => {
+  it('opens what it sealed with the same passphrase', async () => {
+    const secrets = { passwords: { studio: 'obs-pass', backup: 'other' }, companionToken: 'tok' };
+    const vault = await sealSecrets(await deriveVaultKey(PASSPHRASE), secrets);
+    expect(JSON.stringify(vault)).not.toContain('obs-pass');
+    expect(parseVault(JSON.parse(JSON.stringify(vault)))).toEqual(vault);
+
+    const opened = await openVault(vault, PASSPHRASE);
+    expect(opened.secrets).toEqual(secrets);
+    // Re-sealing with the reopened key gets a fresh IV but opens the same
+    const resealed = await sealSecrets(opened.vaultKey, opened.secrets);
+    expect(resealed.iv).not.toBe(vault.iv);
+    expect((await openVault(resealed, PASSPHRASE)).secrets).toEqual(secrets);
+  }, VAULT_TIMEOUT_MS);
+
+  it('rejects a wrong passphrase', async () => {
+    const vault = await sealSecrets(await deriveVaultKey(PASSPHRASE), { passwords: {}, companionToken: '' });
+    await expect(openVault(vault, 'wrong passphrase')).rejects.toThrow();
+  }, VAULT_TIMEOUT_MS);
+
+  it('opens vaults sealed before the companion token was kept', async () => {
+    const { key, salt } = await deriveVaultKey(PASSPHRASE);
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify({ studio: 'obs-pass', broken: 4 })));
+    const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+    const vault = { version: 1 as const, salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+    expect((await openVault(vault, PASSPHRASE)).secrets).toEqual({ passwords: { studio: 'obs-pass' }, companionToken: '' });
+  }, VAULT_TIMEOUT_MS);
+
+  it('ignores anything that is not a vault', () => {
+    expect(parseVault(null)).toBeNull();
+    expect(parseVault({ version: 2, salt: 'a', iv: 'b', data: 'c' })).toBeNull();
+    expect(parseVault({ version: 1, salt: 'a', iv: 'b' })).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+// OBS passwords and the companion token are only ever stored encrypted with a key derived from the operator's passphrase
+export type CredentialVault = {
+  version: 1;
+  salt: string;
+  iv: string;
+  data: string;
+};
+
+export type VaultKey = {
+  key: CryptoKey;
+  salt: Uint8Array<ArrayBuffer>;
+};
+
+// Profile id -> password
+export type SavedPasswords = Record<string, string>;
+
+export type VaultSecrets = {
+  passwords: SavedPasswords;
+  companionToken: string;
+};
+
+const PBKDF2_ITERATIONS = 600000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+// Slow on purpose; the key itself never leaves WebCrypto
+export const deriveVaultKey = async (passphrase: string, salt = crypto.getRandomValues(new Uint8Array(16))): Promise<VaultKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+  return { key, salt };
+};
+
+// Every save gets a fresh IV; AES-GCM must never reuse one under the same key
+export const sealSecrets = async ({ key, salt }: VaultKey, secrets: VaultSecrets): Promise<CredentialVault> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(secrets)));
+  return { version: 1, salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+const sanitizePasswords = (raw: unknown): SavedPasswords => (raw && typeof raw === 'object' && !Array.isArray(raw)
+  ? Object.fromEntries(Object.entries(raw).filter((entry): entry is [string, string] => typeof entry[1] === 'string'))
+  : {});
+
+// Vaults sealed before the companion token was kept hold just the password map
+const sanitizeSecrets = (raw: unknown): VaultSecrets => {
+  if (!raw || typeof raw !== 'object' || !('passwords' in raw)) return { passwords: sanitizePasswords(raw), companionToken: '' };
+  const { passwords, companionToken } = raw as Record<string, unknown>;
+  return { passwords: sanitizePasswords(passwords), companionToken: typeof companionToken === 'string' ? companionToken : '' };
+};
+
+// Rejects when the passphrase is wrong: the GCM tag doesn't verify
+export const openVault = async (vault: CredentialVault, passphrase: string) => {
+  const vaultKey = await deriveVaultKey(passphrase, fromBase64(vault.salt));
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(vault.iv) }, vaultKey.key, fromBase64(vault.data));
+  return { vaultKey, secrets: sanitizeSecrets(JSON.parse(new TextDecoder().decode(plain))) };
+};
+
+export const parseVault = (raw: unknown): CredentialVault | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const { version, salt, iv, data } = raw as Record<string, unknown>;
+  if (version !== 1 || typeof salt !== 'string' || typeof iv !== 'string' || typeof data !== 'string') return null;
+  return { version, salt, iv, data };
+};
@@ -0,0 +1,63 @@
+import type { LinkColor, LinkGroup, LinkItem } from './types';
+import { sanitizeGroupVariables } from './variables';
+
+// Full class names so Tailwind picks them up
+export const LINK_COLORS: Record<LinkColor, { dot: string; tab: string }> = {
+  rose: { dot: 'bg-rose-500', tab: 'border-rose-500 text-rose-400' },
+  amber: { dot: 'bg-amber-500', tab: 'border-amber-500 text-amber-400' },
+  emerald: { dot: 'bg-emerald-500', tab: 'border-emerald-500 text-emerald-400' },
+  sky: { dot: 'bg-sky-500', tab: 'border-sky-500 text-sky-400' },
+  violet: { dot: 'bg-violet-500', tab: 'border-violet-500 text-violet-400' },
+  fuchsia: { dot: 'bg-fuchsia-500', tab: 'border-fuchsia-500 text-fuchsia-400' },
+};
+
+export const LINK_COLOR_KEYS = Object.keys(LINK_COLORS) as LinkColor[];
+
+// Quick Switch tabs besides the groups themselves
+export const ALL_TAB = 'all';
+export const UNGROUPED_TAB = 'ungrouped';
+
+export const sanitizeColor = (raw: unknown) =>
+  typeof raw === 'string' && raw in LINK_COLORS ? raw as LinkColor : undefined;
+
+// Trimmed, de-duplicated and lower-cased so filtering is case-insensitive
+export const sanitizeTags = (raw: unknown) => {
+  if (!Array.isArray(raw)) return undefined;
+  const tags = [...new Set(raw.filter((t): t is string => typeof t === 'string').map(t => t.trim().toLowerCase()).filter(Boolean))];
+  return tags.length > 0 ? tags : undefined;
+};
+
+export const parseTags = (text: string) => sanitizeTags(text.split(','));
+
+export const sanitizeGroupList = (raw: unknown) => (Array.isArray(raw) ? raw : [])
+  .map((group): LinkGroup | null => {
+    if (!group || typeof group !== 'object') return null;
+    const { id, name, color, defaultSource, variables } = group as Record<string, unknown>;
+    if (typeof id !== 'string' || !id || typeof name !== 'string' || !name) return null;
+    return {
+      id,
+      name,
+      color: sanitizeColor(color),
+      defaultSource: typeof defaultSource === 'string' && defaultSource ? defaultSource : undefined,
+      variables: sanitizeGroupVariables(variables),
+    };
+  })
+  .filter((group): group is LinkGroup => group !== null);
+
+// Every whitespace-separated term must appear in the name, URL or a tag
+export const matchesLinkFilter = (link: LinkItem, filter: string) => {
+  const terms = filter.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = [link.name, link.url, ...(link.tags ?? [])].join(' ').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
+
+// Moves a link to the position of another; dropping on a later link places it after, on an earlier one before
+export const moveLinkTo = (links: LinkItem[], linkId: string, targetId: string) => {
+  const from = links.findIndex(l => l.id === linkId);
+  const to = links.findIndex(l => l.id === targetId);
+  if (from === -1 || to === -1 || from === to) return links;
+  const next = [...links];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { HISTORY_LIMIT, appendSwitchRecord, canRevert, historyToCsv, maskHistory, sanitizeHistory } from './history';
+import { SECRET_MASK } from './variables';
+import type { SwitchRecord } from './types';
+
+const record = (fields: Partial<SwitchRecord> = {}): SwitchRecord => ({
+  id: '1',
+  at: Date.UTC(2026, 0, 1, 12),
+  sourceName: 'Camera',
+  previousUrl: 'srt://old:9000',
+  url: 'srt://new:9000',
+  trigger: 'click',
+  ...fields,
+});
+
+describe('switch history', () => {
+  it('keeps the newest entries first and drops the oldest past the limit', () => {
+    let history: SwitchRecord[] = [];
+    for (let i = 0; i <= HISTORY_LIMIT; i++) history = appendSwitchRecord(history, record({ id: String(i) }));
+    expect(history).toHaveLength(HISTORY_LIMIT);
+    expect(history[0].id).toBe(String(HISTORY_LIMIT));
+    expect(history.at(-1)?.id).toBe('1');
+  });
+
+  it('drops malformed entries and defaults unknown triggers to external', () => {
+    const history = sanitizeHistory([
+      record({ linkId: 'cam', previousLinkId: 'old' }),
+      { ...record(), trigger: 'telepathy' },
+      { id: 'x', at: 'yesterday', sourceName: 'Camera', url: 'srt://x' },
+      null,
+    ]);
+    expect(history).toHaveLength(2);
+    expect(history[0]).toMatchObject({ linkId: 'cam', previousLinkId: 'old' });
+    expect(history[1].trigger).toBe('external');
+  });
+
+  it('masks secrets in entries that hold resolved URLs', () => {
+    const [masked] = maskHistory([record({ previousUrl: 'srt://a?passphrase=hunter22', url: 'srt://b?passphrase=hunter22' })], ['hunter22']);
+    expect(masked.previousUrl).toBe(`srt://a?passphrase=${SECRET_MASK}`);
+    expect(masked.url).toBe(`srt://b?passphrase=${SECRET_MASK}`);
+  });
+
+  it('only reverts to URLs it can still play', () => {
+    expect(canRevert(record())).toBe(true);
+    expect(canRevert(record({ previousUrl: null }))).toBe(false);
+    expect(canRevert(record({ previousUrl: 'srt://new:9000' }))).toBe(false);
+    expect(canRevert(record({ previousUrl: `srt://a?passphrase=${SECRET_MASK}` }))).toBe(false);
+    expect(canRevert(record({ previousUrl: 'srt://a?passphrase={key}', previousLinkId: 'remote' }))).toBe(true);
+  });
+
+  it('exports CSV oldest first with quoted fields', () => {
+    const csv = historyToCsv([record({ id: '2', outcome: 'Healthy, "finally"' }), record({ id: '1', previousUrl: null })]);
+    expect(csv.split('\r\n')).toEqual([
+      'time,source,trigger,link,previous_url,url,outcome',
+      '2026-01-01T12:00:00.000Z,Camera,click,,,srt://new:9000,',
+      '2026-01-01T12:00:00.000Z,Camera,click,,srt://old:9000,srt://new:9000,"Healthy, ""finally"""',
+    ]);
+  });
+});
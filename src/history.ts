@@ -0,0 +1,75 @@
+import type { SwitchRecord, SwitchTrigger } from './types';
+import { SECRET_MASK, maskSecrets } from './variables';
+
+// Oldest entries drop off past this so localStorage stays bounded
+export const HISTORY_LIMIT = 2000;
+
+export const SWITCH_TRIGGER_LABELS: Record<SwitchTrigger, string> = {
+  click: 'Click',
+  hotkey: 'Hotkey',
+  midi: 'MIDI',
+  failover: 'Failover',
+  schedule: 'Schedule',
+  revert: 'Revert',
+  external: 'External',
+};
+
+const TRIGGERS = Object.keys(SWITCH_TRIGGER_LABELS) as SwitchTrigger[];
+
+// Newest first, like the panel shows it
+export const appendSwitchRecord = (history: SwitchRecord[], record: SwitchRecord) =>
+  [record, ...history].slice(0, HISTORY_LIMIT);
+
+export const sanitizeHistory = (raw: unknown) => (Array.isArray(raw) ? raw : [])
+  .map((entry): SwitchRecord | null => {
+    if (!entry || typeof entry !== 'object') return null;
+    const { id, at, sourceName, previousUrl, url, previousLinkId, linkId, linkName, trigger, outcome } = entry as Record<string, unknown>;
+    if (typeof id !== 'string' || typeof at !== 'number' || typeof sourceName !== 'string' || typeof url !== 'string') return null;
+    return {
+      id,
+      at,
+      sourceName,
+      previousUrl: typeof previousUrl === 'string' ? previousUrl : null,
+      url,
+      previousLinkId: typeof previousLinkId === 'string' ? previousLinkId : undefined,
+      linkId: typeof linkId === 'string' ? linkId : undefined,
+      linkName: typeof linkName === 'string' ? linkName : undefined,
+      trigger: TRIGGERS.includes(trigger as SwitchTrigger) ? trigger as SwitchTrigger : 'external',
+      outcome: typeof outcome === 'string' ? outcome : undefined,
+    };
+  })
+  .filter((record): record is SwitchRecord => record !== null)
+  .slice(0, HISTORY_LIMIT);
+
+// Entries saved before history kept templates hold resolved URLs
+export const maskHistory = (history: SwitchRecord[], secrets: string[]) => history.map(record => ({
+  ...record,
+  url: maskSecrets(record.url, secrets),
+  previousUrl: record.previousUrl && maskSecrets(record.previousUrl, secrets),
+}));
+
+// A masked URL no link holds can't be played again
+export const canRevert = (record: SwitchRecord) => !!record.previousUrl && record.previousUrl !== record.url
+  && (!!record.previousLinkId || !record.previousUrl.includes(SECRET_MASK));
+
+const csvField = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Oldest first, which reads better in a post-show report
+export const historyToCsv = (history: SwitchRecord[]) => [
+  ['time', 'source', 'trigger', 'link', 'previous_url', 'url', 'outcome'].join(','),
+  ...[...history].reverse().map(record => [
+    new Date(record.at).toISOString(),
+    record.sourceName,
+    record.trigger,
+    record.linkName ?? '',
+    record.previousUrl ?? '',
+    record.url,
+    record.outcome ?? '',
+  ].map(csvField).join(',')),
+].join('\r\n');
+
+export const historyToJson = (history: SwitchRecord[]) => JSON.stringify(
+  [...history].reverse().map(record => ({ ...record, time: new Date(record.at).toISOString() })),
+  null,
+  2,
+);
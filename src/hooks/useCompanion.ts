@@ -0,0 +1,137 @@
+import { useEffect, useRef, useState } from 'react';
+import type { LinkGroup, LinkItem, LiveGuard, TemplateVariable } from '../types';
+import { getReconnectDelay } from '../obs/IngestController';
+
+export type CompanionConfig = {
+  enabled: boolean;
+  // Base URL of the companion server, e.g. http://localhost:4460
+  url: string;
+  token: string;
+};
+
+// 'invalid' while the URL isn't a usable http(s) address, e.g. half-typed
+export type CompanionStatus = 'off' | 'connecting' | 'connected' | 'reconnecting' | 'invalid';
+
+// Remote switch reported by the companion's event stream
+export type CompanionActivity = {
+  sourceName: string;
+  linkId: string | null;
+  at: number;
+};
+
+// Everything the companion switches by. Links go as templates with the variables to fill them; it keeps
+// secret values in memory only, so they never reach its links file, its API or its event stream.
+export type CompanionSync = {
+  links: LinkItem[];
+  variables: TemplateVariable[];
+  groups: LinkGroup[];
+  defaultSource: string;
+  liveGuard: LiveGuard;
+  // Operator holding control from another browser; the companion refuses to switch meanwhile
+  lockedBy: string | null;
+};
+
+export const DEFAULT_COMPANION_CONFIG: CompanionConfig = { enabled: false, url: 'http://localhost:4460', token: '' };
+
+// Null unless the base is an http(s) URL; `new WebSocket` throws on anything it can't parse
+const toEventsUrl = ({ url, token }: CompanionConfig) => {
+  let base: URL;
+  try {
+    base = new URL(url.trim());
+  } catch {
+    return null;
+  }
+  if (base.protocol !== 'http:' && base.protocol !== 'https:') return null;
+  return `${base.href.replace(/\/+$/, '').replace(/^http/, 'ws')}/events?token=${encodeURIComponent(token)}`;
+};
+
+/**
+ * Keeps the companion server's link list in step with the app over its event socket, reconnecting
+ * with the same backoff as OBS connections. The app stays the source of truth for links, and for the
+ * live guard and control lock the companion applies to its own switches.
+ */
+export function useCompanion(config: CompanionConfig, sync: CompanionSync) {
+  const [status, setStatus] = useState<CompanionStatus>('off');
+  const [lastActivity, setLastActivity] = useState<CompanionActivity | null>(null);
+  const socketRef = useRef<WebSocket | null>(null);
+
+  const syncRef = useRef(sync);
+  useEffect(() => { syncRef.current = sync; });
+
+  const sendSync = () => {
+    const socket = socketRef.current;
+    if (socket?.readyState !== WebSocket.OPEN) return;
+    socket.send(JSON.stringify({ type: 'sync', ...syncRef.current }));
+  };
+  const sendSyncRef = useRef(sendSync);
+  useEffect(() => { sendSyncRef.current = sendSync; });
+
+  const { enabled, url, token } = config;
+  useEffect(() => {
+    if (!enabled || !url || !token) {
+      setStatus('off');
+      return;
+    }
+
+    const eventsUrl = toEventsUrl({ enabled, url, token });
+    if (!eventsUrl) {
+      setStatus('invalid');
+      return;
+    }
+
+    let attempt = 0;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let stopped = false;
+
+    const open = () => {
+      setStatus(attempt === 0 ? 'connecting' : 'reconnecting');
+      let socket: WebSocket;
+      try {
+        socket = new WebSocket(eventsUrl);
+      } catch (error) {
+        console.warn('Companion socket could not be opened', error);
+        setStatus('invalid');
+        return;
+      }
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        attempt = 0;
+        setStatus('connected');
+        sendSyncRef.current();
+      };
+      socket.onmessage = event => {
+        try {
+          const message = JSON.parse(event.data as string) as { type?: string } & Partial<CompanionActivity>;
+          if (message.type === 'active' && message.sourceName) {
+            setLastActivity({ sourceName: message.sourceName, linkId: message.linkId ?? null, at: message.at ?? Date.now() });
+          }
+        } catch {
+          // Ignore malformed events
+        }
+      };
+      socket.onclose = () => {
+        if (socketRef.current === socket) socketRef.current = null;
+        if (stopped) return;
+        attempt += 1;
+        setStatus('reconnecting');
+        timer = setTimeout(open, getReconnectDelay(attempt));
+      };
+    };
+    open();
+
+    return () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [enabled, url, token]);
+
+  // Push every change; callers memoize `sync` so it only changes with its content
+  useEffect(() => {
+    sendSyncRef.current();
+  }, [sync]);
+
+  return { status, lastActivity };
+}
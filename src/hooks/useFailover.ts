@@ -0,0 +1,176 @@
+import { useEffect, useRef, useState } from 'react';
+import type { IngestController } from '../obs/IngestController';
+import { FAILED_MEDIA_STATES, STALLING_MEDIA_STATES } from '../obs/health';
+import { reportsMediaState } from '../obs/kindAdapters';
+import type { FailoverChain, FailoverEvent, LinkItem, SwitchOutcome } from '../types';
+
+const POLL_INTERVAL_MS = 2000;
+const RECOVERY_CHECK_MS = 30000;
+const LOG_LIMIT = 50;
+
+// Until a chain sets its own
+export const DEFAULT_STALL_SECONDS = 8;
+
+let nextEventId = 1;
+
+/**
+ * Watches every enabled failover chain's source on one controller and walks down the chain when the media
+ * fails, ends or stalls while meant to be playing; with "return to primary" the primary is probed off air and switched back once it plays.
+ * Runs against a single instance so instances never race each other; pass undefined to stop it, e.g. while
+ * another operator holds control.
+ */
+export function useFailover(
+  controller: IngestController | undefined,
+  chains: Record<string, FailoverChain>,
+  links: LinkItem[],
+  // Puts a link on air; its URL is still a template
+  switchLink: (link: LinkItem, sourceName: string) => Promise<SwitchOutcome>,
+  resolveLinkUrl: (link: LinkItem) => { url: string; missing: string[] },
+  // Why switches are refused right now, for the log
+  refusal: string | null,
+) {
+  const [log, setLog] = useState<FailoverEvent[]>([]);
+
+  // Bookkeeping per source: chain position, when the stall started, last recovery probe
+  const positions = useRef(new Map<string, number>());
+  const stallSince = useRef(new Map<string, number>());
+  const recoveryCheckedAt = useRef(new Map<string, number>());
+  const busy = useRef(new Set<string>());
+  // Chains as of the latest render, for checks made after a probe
+  const latestChains = useRef(chains);
+
+  const logEvent = (entry: Omit<FailoverEvent, 'id' | 'at'>) => {
+    setLog(prev => [{ ...entry, id: String(nextEventId++), at: Date.now() }, ...prev].slice(0, LOG_LIMIT));
+  };
+
+  // Walks down the chain from the current position until a backup comes up healthy
+  const triggerFailover = async (sourceName: string, reason: string) => {
+    const chain = chains[sourceName];
+    if (!chain?.enabled || chain.locked || busy.current.has(sourceName)) return;
+
+    busy.current.add(sourceName);
+    try {
+      const position = positions.current.get(sourceName) ?? 0;
+      let from = links.find(l => l.id === chain.linkIds[position])?.name ?? null;
+      let why = reason;
+
+      for (let next = Math.max(0, position + 1); next < chain.linkIds.length; next++) {
+        const link = links.find(l => l.id === chain.linkIds[next]);
+        if (!link) continue;
+
+        const health = await switchLink(link, sourceName);
+        if (health === 'refused') {
+          logEvent({ sourceName, from, to: null, reason: `${why}; switch refused (${refusal ?? 'live guard'})` });
+          return;
+        }
+        if (health === 'missing') {
+          logEvent({ sourceName, from, to: null, reason: `${why}; "${sourceName}" not found on any switch target` });
+          return;
+        }
+        logEvent({ sourceName, from, to: link.name, reason: why });
+        // Browser sources and superseded probes can't report health; trust the switch
+        if (health === 'healthy' || health === null) return;
+        from = link.name;
+        why = `Backup ${health}`;
+      }
+
+      logEvent({ sourceName, from, to: null, reason: `${why}; no backups left` });
+    } finally {
+      busy.current.delete(sourceName);
+      stallSince.current.delete(sourceName);
+    }
+  };
+
+  // Probes the primary off air via the staging input and switches back once it plays again
+  const checkPrimaryRecovery = async (controller: IngestController, sourceName: string, kind: string) => {
+    const chain = chains[sourceName];
+    const primary = links.find(l => l.id === chain?.linkIds[0]);
+    if (!chain || !primary || busy.current.has(sourceName)) return;
+    const { url: primaryUrl, missing } = resolveLinkUrl(primary);
+    if (missing.length > 0) return;
+
+    busy.current.add(sourceName);
+    try {
+      const health = await controller.probeOffAir(kind, { ...primary, url: primaryUrl });
+      const current = latestChains.current[sourceName];
+      if (health !== 'healthy' || !current?.enabled || current.locked) return;
+      const from = links.find(l => l.id === chain.linkIds[positions.current.get(sourceName) ?? 0])?.name ?? null;
+      logEvent({ sourceName, from, to: primary.name, reason: 'Primary recovered' });
+    } catch (error) {
+      console.warn(`Primary recovery check for "${sourceName}" failed`, error);
+      return;
+    } finally {
+      busy.current.delete(sourceName);
+    }
+    await switchLink(primary, sourceName);
+  };
+
+  // One monitoring pass over every enabled chain
+  const monitor = async (controller: IngestController) => {
+    for (const [sourceName, chain] of Object.entries(chains)) {
+      if (!chain.enabled || chain.locked || chain.linkIds.length < 2 || busy.current.has(sourceName)) continue;
+      const source = controller.findSource(sourceName);
+      // Browser sources expose no media state to watch
+      if (!source || !reportsMediaState(source.kind)) continue;
+
+      try {
+        const mediaState = await controller.fetchMediaState(sourceName);
+        if (mediaState === null) return;
+        if (FAILED_MEDIA_STATES.has(mediaState)) {
+          triggerFailover(sourceName, `Media ${mediaState.replace('OBS_MEDIA_STATE_', '').toLowerCase()}`);
+          continue;
+        }
+
+        if (STALLING_MEDIA_STATES.has(mediaState)) {
+          const since = stallSince.current.get(sourceName) ?? Date.now();
+          stallSince.current.set(sourceName, since);
+          if (Date.now() - since >= chain.stallSeconds * 1000) {
+            triggerFailover(sourceName, `Stalled for ${chain.stallSeconds}s`);
+          }
+          continue;
+        }
+        stallSince.current.delete(sourceName);
+        // Paused or stopped by an operator: nothing to fail over from
+        if (mediaState !== 'OBS_MEDIA_STATE_PLAYING') continue;
+
+        const position = positions.current.get(sourceName) ?? 0;
+        const lastCheck = recoveryCheckedAt.current.get(sourceName) ?? 0;
+        if (chain.returnToPrimary && position > 0 && Date.now() - lastCheck >= RECOVERY_CHECK_MS) {
+          recoveryCheckedAt.current.set(sourceName, Date.now());
+          checkPrimaryRecovery(controller, sourceName, source.kind);
+        }
+      } catch (error) {
+        console.warn(`Failover monitor for "${sourceName}" failed`, error);
+      }
+    }
+  };
+
+  // Timers and OBS events call through refs so they always see the latest render
+  const monitorRef = useRef(monitor);
+  const triggerRef = useRef(triggerFailover);
+  useEffect(() => {
+    latestChains.current = chains;
+    monitorRef.current = monitor;
+    triggerRef.current = triggerFailover;
+  });
+
+  useEffect(() => {
+    if (!controller) return;
+    const id = setInterval(() => monitorRef.current(controller), POLL_INTERVAL_MS);
+    const unsubscribe = controller.on('MediaInputPlaybackEnded', ({ inputName }) => {
+      triggerRef.current(inputName, 'Playback ended');
+    });
+    return () => {
+      clearInterval(id);
+      unsubscribe();
+    };
+  }, [controller]);
+
+  // Manual or automatic, any switch moves the chain position to wherever the link sits in the chain
+  const noteSwitch = (sourceName: string, linkId: string) => {
+    positions.current.set(sourceName, chains[sourceName]?.linkIds.indexOf(linkId) ?? -1);
+    stallSince.current.delete(sourceName);
+  };
+
+  return { log, noteSwitch };
+}
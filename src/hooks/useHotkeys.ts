@@ -0,0 +1,22 @@
+import { useEffect, useRef } from 'react';
+import { hotkeyFromEvent } from '../bindings';
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement
+  && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Window-wide key presses as hotkey strings; ignored while typing in a field and on auto-repeat
+export function useHotkeys(onHotkey: (hotkey: string, event: KeyboardEvent) => void) {
+  const handlerRef = useRef(onHotkey);
+  useEffect(() => { handlerRef.current = onHotkey; });
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat || isTypingTarget(event.target)) return;
+      const hotkey = hotkeyFromEvent(event);
+      if (hotkey) handlerRef.current(hotkey, event);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { OBSEventTypes } from 'obs-websocket-js';
+import type { ConnectionProfile } from '../types';
+import { INITIAL_CONTROLLER_STATE, IngestController } from '../obs/IngestController';
+import type { IngestControllerState } from '../obs/IngestController';
+import { isFrameBlack } from '../obs/frames';
+
+const toParams = ({ address, port, password }: ConnectionProfile) => ({ address, port, password });
+
+/**
+ * Keeps one IngestController per connection profile and mirrors each controller's state into React.
+ * Controllers are created lazily on first use and live until their profile is removed or the host unmounts.
+ */
+export function useIngestControllers(profiles: ConnectionProfile[]) {
+  const controllers = useRef(new Map<string, IngestController>());
+  const [states, setStates] = useState<Record<string, IngestControllerState>>({});
+  // Bumped whenever a controller is created or removed so event subscriptions can follow
+  const [version, setVersion] = useState(0);
+
+  const profilesRef = useRef(profiles);
+  useEffect(() => {
+    profilesRef.current = profiles;
+    // Keep reconnect details and log labels in sync with edits
+    profiles.forEach(p => {
+      const controller = controllers.current.get(p.id);
+      if (!controller) return;
+      controller.label = p.name;
+      controller.setParams(toParams(p));
+    });
+  }, [profiles]);
+
+  const getController = useCallback((profileId: string) => {
+    let controller = controllers.current.get(profileId);
+    if (controller) return controller;
+
+    const profile = profilesRef.current.find(p => p.id === profileId);
+    controller = new IngestController({ label: profile?.name, checkFrameBlack: isFrameBlack });
+    controller.subscribe(state => setStates(prev => ({ ...prev, [profileId]: state })));
+    controllers.current.set(profileId, controller);
+    setVersion(v => v + 1);
+    return controller;
+  }, []);
+
+  const removeController = useCallback((profileId: string) => {
+    controllers.current.get(profileId)?.destroy();
+    controllers.current.delete(profileId);
+    setStates(prev => {
+      const next = { ...prev };
+      delete next[profileId];
+      return next;
+    });
+    setVersion(v => v + 1);
+  }, []);
+
+  useEffect(() => {
+    const active = controllers.current;
+    return () => {
+      active.forEach(controller => controller.destroy());
+      active.clear();
+    };
+  }, []);
+
+  const stateOf = useCallback((profileId: string) => states[profileId] ?? INITIAL_CONTROLLER_STATE, [states]);
+
+  // Only existing controllers; never creates one
+  const controllerOf = useCallback((profileId: string) => controllers.current.get(profileId), []);
+
+  const entries = useCallback(() => [...controllers.current.entries()], []);
+
+  return {
+    version,
+    stateOf,
+    controllerOf,
+    entries,
+    getController,
+    removeController,
+    connect: (profile: ConnectionProfile) => getController(profile.id).connect(toParams(profile)),
+    disconnect: (profileId: string) => controllers.current.get(profileId)?.disconnect() ?? Promise.resolve(),
+    cancelReconnect: (profileId: string) => controllers.current.get(profileId)?.cancelReconnect(),
+  };
+}
+
+export type IngestControllers = ReturnType<typeof useIngestControllers>;
+
+// Subscribes a handler to an OBS event on every controller, following controllers as they come and go
+export function useIngestEvent<Event extends keyof OBSEventTypes>(
+  ingest: IngestControllers,
+  event: Event,
+  handler: (profileId: string, data: OBSEventTypes[Event]) => void,
+) {
+  const handlerRef = useRef(handler);
+  useEffect(() => { handlerRef.current = handler; });
+
+  const { version, entries } = ingest;
+  useEffect(() => {
+    const unsubscribes = entries().map(([profileId, controller]) =>
+      controller.on(event, data => handlerRef.current(profileId, data))
+    );
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [version, entries, event]);
+}
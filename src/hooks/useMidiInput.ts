@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState } from 'react';
+import type { MidiBinding } from '../types';
+import { parseMidiMessage } from '../bindings';
+
+export type MidiStatus = 'off' | 'pending' | 'ready' | 'unsupported' | 'denied';
+
+/**
+ * Listens to every connected MIDI input while enabled and reports pad/button presses.
+ * Devices plugged in later are picked up; access is only requested once enabled, since it prompts.
+ */
+export function useMidiInput(enabled: boolean, onPress: (binding: MidiBinding) => void) {
+  const [status, setStatus] = useState<MidiStatus>('off');
+  const [inputNames, setInputNames] = useState<string[]>([]);
+
+  const handlerRef = useRef(onPress);
+  useEffect(() => { handlerRef.current = onPress; });
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus('off');
+      setInputNames([]);
+      return;
+    }
+    if (!('requestMIDIAccess' in navigator)) {
+      setStatus('unsupported');
+      return;
+    }
+
+    let access: MIDIAccess | null = null;
+    let cancelled = false;
+
+    const handleMessage = (event: MIDIMessageEvent) => {
+      const binding = event.data && parseMidiMessage(event.data);
+      if (binding) handlerRef.current(binding);
+    };
+
+    const attachInputs = () => {
+      if (!access) return;
+      const inputs = [...access.inputs.values()];
+      inputs.forEach(input => { input.onmidimessage = handleMessage; });
+      setInputNames(inputs.map(input => input.name || input.id));
+    };
+
+    setStatus('pending');
+    navigator.requestMIDIAccess()
+      .then(result => {
+        if (cancelled) return;
+        access = result;
+        access.onstatechange = attachInputs;
+        attachInputs();
+        setStatus('ready');
+      })
+      .catch(error => {
+        console.warn("MIDI access failed", error);
+        if (!cancelled) setStatus('denied');
+      });
+
+    return () => {
+      cancelled = true;
+      if (!access) return;
+      access.onstatechange = null;
+      access.inputs.forEach(input => { input.onmidimessage = null; });
+    };
+  }, [enabled]);
+
+  return { status, inputNames };
+}
@@ -0,0 +1,293 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { IngestController } from '../obs/IngestController';
+import { getErrorMessage } from '../obs/IngestController';
+import {
+  CONTROL_SLOT,
+  LIBRARY_SLOT,
+  LOCK_HEARTBEAT_MS,
+  SYNC_EVENT_TYPE,
+  SYNC_REALM,
+  isLockLive,
+  isSyncMessage,
+  libraryFingerprint,
+  sanitizeControlLock,
+  sanitizeSharedLibrary,
+} from '../sync';
+import type { ControlLock, LibraryContent, SharedLibrary, SyncSlot } from '../sync';
+
+export type SyncConfig = {
+  enabled: boolean;
+  // Shown to other operators while this browser holds control
+  operatorName: string;
+};
+
+export type SyncStatus = 'off' | 'offline' | 'syncing' | 'synced' | 'error';
+
+export const DEFAULT_SYNC_CONFIG: SyncConfig = { enabled: false, operatorName: '' };
+
+// Edits land in OBS once typing settles
+const PUSH_DEBOUNCE_MS = 600;
+
+/**
+ * Shares the link library through OBS persistent data on the given controller's instance and keeps it live
+ * between operators: every write is announced with a CustomEvent so other clients pull it straight away.
+ * On connect the copy in OBS wins; OBS is only seeded from this browser when it holds no library yet.
+ * Also manages the control lock, which the holder refreshes until it releases it or goes away.
+ */
+export function useOperatorSync(
+  controller: IngestController | undefined,
+  config: SyncConfig,
+  clientId: string,
+  content: LibraryContent,
+  onRemoteLibrary: (library: SharedLibrary) => void,
+) {
+  const [status, setStatus] = useState<SyncStatus>('off');
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdate, setLastUpdate] = useState<{ updatedBy: string; updatedAt: number } | null>(null);
+  const [lock, setLock] = useState<ControlLock | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const fingerprint = useMemo(() => libraryFingerprint(content), [content]);
+  const latestRef = useRef({ content, fingerprint, onRemoteLibrary, operatorName: config.operatorName });
+  useEffect(() => { latestRef.current = { content, fingerprint, onRemoteLibrary, operatorName: config.operatorName }; });
+
+  // Set while connected, for the debounced push below
+  const pushRef = useRef<(() => Promise<void>) | null>(null);
+  const { enabled } = config;
+  const active = enabled && !!controller;
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus('off');
+      setLock(null);
+      return;
+    }
+    if (!controller) {
+      setStatus('offline');
+      setLock(null);
+      return;
+    }
+
+    let cancelled = false;
+    // Revision of the library last adopted or written; -1 until the first pull so OBS's copy always wins then
+    let revision = -1;
+    let synced: string | null = null;
+    let ready = false;
+
+    const announce = (slot: SyncSlot) =>
+      controller.call('BroadcastCustomEvent', { eventData: { type: SYNC_EVENT_TYPE, slot, clientId } });
+
+    const readLibrary = async () => {
+      const { slotValue } = await controller.call('GetPersistentData', { realm: SYNC_REALM, slotName: LIBRARY_SLOT });
+      return sanitizeSharedLibrary(slotValue);
+    };
+
+    const push = async () => {
+      const { content: local, fingerprint: localFingerprint, operatorName } = latestRef.current;
+      if (!ready || cancelled || localFingerprint === synced) return;
+      setStatus('syncing');
+      try {
+        // Last write wins; the revision only has to move past every copy anyone has seen
+        const remote = await readLibrary();
+        const library: SharedLibrary = {
+          version: 1,
+          revision: Math.max(revision, remote?.revision ?? 0) + 1,
+          updatedAt: Date.now(),
+          updatedBy: operatorName,
+          clientId,
+          ...local,
+        };
+        await controller.call('SetPersistentData', { realm: SYNC_REALM, slotName: LIBRARY_SLOT, slotValue: library });
+        await announce('library');
+        if (cancelled) return;
+        revision = library.revision;
+        synced = localFingerprint;
+        setLastUpdate({ updatedBy: library.updatedBy, updatedAt: library.updatedAt });
+        setStatus('synced');
+        setError(null);
+      } catch (e) {
+        if (cancelled) return;
+        setStatus('error');
+        setError(`Failed to share the library: ${getErrorMessage(e, String(e))}`);
+      }
+    };
+
+    const pullLibrary = async () => {
+      setStatus('syncing');
+      try {
+        const library = await readLibrary();
+        if (cancelled) return;
+        ready = true;
+        if (!library) {
+          await push();
+          return;
+        }
+        if (library.revision > revision) {
+          revision = library.revision;
+          synced = libraryFingerprint(library);
+          setLastUpdate({ updatedBy: library.updatedBy, updatedAt: library.updatedAt });
+          latestRef.current.onRemoteLibrary(library);
+        }
+        setStatus('synced');
+        setError(null);
+      } catch (e) {
+        if (cancelled) return;
+        setStatus('error');
+        setError(`Failed to load the shared library: ${getErrorMessage(e, String(e))}`);
+      }
+    };
+
+    const pullLock = async () => {
+      try {
+        const { slotValue } = await controller.call('GetPersistentData', { realm: SYNC_REALM, slotName: CONTROL_SLOT });
+        if (!cancelled) setLock(sanitizeControlLock(slotValue));
+      } catch (e) {
+        console.warn('Failed to read the control lock', e);
+      }
+    };
+
+    pushRef.current = push;
+    pullLibrary();
+    pullLock();
+
+    const unsubscribe = controller.on('CustomEvent', ({ eventData }) => {
+      if (!isSyncMessage(eventData) || eventData.clientId === clientId) return;
+      if (eventData.slot === 'library') pullLibrary();
+      else pullLock();
+    });
+
+    return () => {
+      cancelled = true;
+      pushRef.current = null;
+      unsubscribe();
+    };
+  }, [controller, enabled, clientId]);
+
+  // Share local edits once they settle
+  useEffect(() => {
+    if (!active) return;
+    const timer = setTimeout(() => { pushRef.current?.(); }, PUSH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [active, fingerprint]);
+
+  const liveLock = isLockLive(lock, now) ? lock : null;
+  const hasControl = liveLock?.clientId === clientId;
+  const lockedOut = !!liveLock && !hasControl;
+  // Why switches, takes included, are refused here; null while this browser may switch
+  const refusal = lockedOut ? `${liveLock?.operator} has control` : null;
+
+  const writeLock = async (next: ControlLock | null) => {
+    if (!controller) return;
+    await controller.call('SetPersistentData', { realm: SYNC_REALM, slotName: CONTROL_SLOT, slotValue: next });
+    await controller.call('BroadcastCustomEvent', { eventData: { type: SYNC_EVENT_TYPE, slot: 'control', clientId } });
+  };
+
+  const readLock = async () => {
+    if (!controller) return null;
+    const { slotValue } = await controller.call('GetPersistentData', { realm: SYNC_REALM, slotName: CONTROL_SLOT });
+    return sanitizeControlLock(slotValue);
+  };
+
+  // Takes the lock unless someone else holds a live one; `force` takes it over regardless
+  const takeControl = async (force = false) => {
+    if (!active || !controller?.identified) return 'Not connected';
+    try {
+      const current = await readLock();
+      const at = Date.now();
+      if (!force && isLockLive(current, at) && current.clientId !== clientId) {
+        setLock(current);
+        return `${current.operator} has control`;
+      }
+      const next = { clientId, operator: latestRef.current.operatorName || 'Unnamed operator', since: at, heartbeatAt: at };
+      await writeLock(next);
+      setLock(next);
+      setNow(at);
+      return null;
+    } catch (e) {
+      return `Failed to take control: ${getErrorMessage(e, String(e))}`;
+    }
+  };
+
+  const releaseControl = async () => {
+    if (!controller?.identified) {
+      setLock(null);
+      return null;
+    }
+    try {
+      const current = await readLock();
+      if (current?.clientId === clientId) await writeLock(null);
+      setLock(current?.clientId === clientId ? null : current);
+      return null;
+    } catch (e) {
+      return `Failed to release control: ${getErrorMessage(e, String(e))}`;
+    }
+  };
+
+  // The holder refreshes the lock so others don't treat it as abandoned; losing it to a takeover just stops
+  useEffect(() => {
+    if (!hasControl || !controller) return;
+    let stopped = false;
+    const timer = setInterval(async () => {
+      try {
+        const { slotValue } = await controller.call('GetPersistentData', { realm: SYNC_REALM, slotName: CONTROL_SLOT });
+        const current = sanitizeControlLock(slotValue);
+        if (stopped) return;
+        if (current?.clientId !== clientId) {
+          setLock(current);
+          return;
+        }
+        const next = { ...current, operator: latestRef.current.operatorName || current.operator, heartbeatAt: Date.now() };
+        await controller.call('SetPersistentData', { realm: SYNC_REALM, slotName: CONTROL_SLOT, slotValue: next });
+        if (!stopped) {
+          setLock(next);
+          setNow(next.heartbeatAt);
+        }
+      } catch (e) {
+        console.warn('Failed to refresh the control lock', e);
+      }
+    }, LOCK_HEARTBEAT_MS);
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+    };
+  }, [hasControl, controller, clientId]);
+
+  // Give the lock back when sync is turned off or the page goes; a crashed tab's lock just goes stale
+  useEffect(() => {
+    if (!hasControl || !controller) return;
+    return () => {
+      if (!controller.identified) return;
+      // Also runs after a takeover, when the lock in OBS is someone else's and must stay
+      controller.call('GetPersistentData', { realm: SYNC_REALM, slotName: CONTROL_SLOT })
+        .then(async ({ slotValue }) => {
+          if (sanitizeControlLock(slotValue)?.clientId !== clientId) return;
+          await controller.call('SetPersistentData', { realm: SYNC_REALM, slotName: CONTROL_SLOT, slotValue: null });
+          await controller.call('BroadcastCustomEvent', { eventData: { type: SYNC_EVENT_TYPE, slot: 'control', clientId } });
+        })
+        .catch(e => console.warn('Failed to release the control lock', e));
+    };
+  }, [hasControl, controller, clientId]);
+
+  // Heartbeats aren't announced, so someone else's lock is re-read on the same cadence; it expires once they stop
+  const heldElsewhere = !!lock && lock.clientId !== clientId;
+  useEffect(() => {
+    if (!heldElsewhere || !controller) return;
+    let stopped = false;
+    const timer = setInterval(async () => {
+      try {
+        const { slotValue } = await controller.call('GetPersistentData', { realm: SYNC_REALM, slotName: CONTROL_SLOT });
+        if (stopped) return;
+        setLock(sanitizeControlLock(slotValue));
+      } catch (e) {
+        console.warn('Failed to read the control lock', e);
+      }
+      if (!stopped) setNow(Date.now());
+    }, LOCK_HEARTBEAT_MS / 2);
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+    };
+  }, [heldElsewhere, controller]);
+
+  return { status, error, lastUpdate, lock: liveLock, hasControl, lockedOut, refusal, takeControl, releaseControl };
+}
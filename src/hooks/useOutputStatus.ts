@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import type { IngestController } from '../obs/IngestController';
+import type { OutputStatus } from '../obs/outputs';
+import { usePageVisible } from './useSourceThumbnails';
+
+const POLL_MS = 2000;
+
+/**
+ * Polls stream, record and render stats on one controller while the page is visible. Start and stop
+ * events refresh it at once, hidden or not, so live guards never act on a stale "off air".
+ */
+export function useOutputStatus(controller: IngestController | undefined) {
+  const [status, setStatus] = useState<OutputStatus | null>(null);
+  const visible = usePageVisible();
+
+  useEffect(() => {
+    if (!controller) {
+      setStatus(null);
+      return;
+    }
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let last: OutputStatus | null = null;
+
+    const refresh = async () => {
+      const next = await controller.fetchOutputStatus(last);
+      if (cancelled || !next) return;
+      last = next;
+      setStatus(next);
+    };
+
+    // One round at a time; the next starts POLL_MS after the previous finished
+    const poll = async () => {
+      await refresh();
+      if (!cancelled) timer = setTimeout(poll, POLL_MS);
+    };
+    if (visible) poll();
+    else refresh();
+
+    const unsubscribers = [
+      controller.on('StreamStateChanged', refresh),
+      controller.on('RecordStateChanged', refresh),
+    ];
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [controller, visible]);
+
+  return controller ? status : null;
+}
@@ -0,0 +1,96 @@
+import { useEffect, useRef, useState } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import { HEALTH_LABELS } from '../obs/health';
+import { SCHEDULE_LATE_GRACE_MS, cueDueTimes, formatDuration, nextCueIndex } from '../schedule';
+import type { RunOfShow } from '../schedule';
+import type { LinkItem, ScheduleCue, SwitchOutcome } from '../types';
+
+// Countdown refresh; cues fire on the first tick at or after their due time
+const TICK_MS = 250;
+
+/**
+ * Drives the run of show: ticks the countdowns while there are cues and, while it runs, fires each pending cue
+ * once it's due. Cues switch like a click and keep the outcome; one found long overdue holds the run instead.
+ */
+export function useRunOfShow(
+  runOfShow: RunOfShow,
+  setRunOfShow: Dispatch<SetStateAction<RunOfShow>>,
+  links: LinkItem[],
+  // Puts a cue's link on air; its URL is still a template
+  switchLink: (link: LinkItem, sourceName: string) => Promise<SwitchOutcome>,
+  // Why switches are refused right now, kept on a refused cue
+  refusal: string | null,
+) {
+  const [now, setNow] = useState(() => Date.now());
+  const firing = useRef(false);
+
+  const updateCue = (id: string, patch: Partial<ScheduleCue>) => {
+    setRunOfShow(prev => ({ ...prev, cues: prev.cues.map(c => c.id === id ? { ...c, ...patch } : c) }));
+  };
+
+  const fireCue = async (cue: ScheduleCue) => {
+    if (firing.current) return;
+    const link = links.find(l => l.id === cue.linkId);
+    const firedAt = Date.now();
+    if (!link) {
+      updateCue(cue.id, { status: 'failed', firedAt, outcome: 'Link was deleted' });
+      return;
+    }
+
+    firing.current = true;
+    updateCue(cue.id, { status: 'fired', firedAt, outcome: 'Switching…' });
+    try {
+      const health = await switchLink(link, cue.sourceName);
+      if (health === 'refused') {
+        updateCue(cue.id, { status: 'failed', outcome: `Refused: ${refusal ?? 'switching is blocked'}` });
+        return;
+      }
+      if (health === 'missing') {
+        updateCue(cue.id, { status: 'failed', outcome: `"${cue.sourceName}" not found on any switch target` });
+        return;
+      }
+      updateCue(cue.id, { status: health === 'failed' ? 'failed' : 'fired', outcome: health ? HEALTH_LABELS[health] : 'Switched' });
+    } catch (error) {
+      updateCue(cue.id, { status: 'failed', outcome: error instanceof Error ? error.message : String(error) });
+    } finally {
+      firing.current = false;
+    }
+  };
+
+  const cueDue = cueDueTimes(runOfShow.cues, runOfShow.anchorAt);
+  const nextCue = nextCueIndex(runOfShow.cues);
+
+  const tick = () => {
+    setNow(Date.now());
+    if (!runOfShow.running || firing.current) return;
+    if (nextCue === -1) {
+      setRunOfShow(prev => ({ ...prev, running: false }));
+      return;
+    }
+    const due = cueDue[nextCue];
+    if (due === null || Date.now() < due) return;
+    const cue = runOfShow.cues[nextCue];
+    const late = Date.now() - due;
+    if (late > SCHEDULE_LATE_GRACE_MS) {
+      setRunOfShow(prev => ({ ...prev, running: false }));
+      updateCue(cue.id, { outcome: `Missed by ${formatDuration(late)}; run held` });
+      return;
+    }
+    fireCue(cue);
+  };
+
+  // The ticker calls through a ref so it always sees the latest render
+  const tickRef = useRef(tick);
+  useEffect(() => {
+    tickRef.current = tick;
+  });
+
+  const hasCues = runOfShow.cues.length > 0;
+  useEffect(() => {
+    if (!hasCues) return;
+    const id = setInterval(() => tickRef.current(), TICK_MS);
+    return () => clearInterval(id);
+  }, [hasCues]);
+
+  return { now, cueDue, nextCue, fireCue, updateCue };
+}
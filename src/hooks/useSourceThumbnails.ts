@@ -0,0 +1,83 @@
+import { useEffect, useRef, useState } from 'react';
+import type { IngestController } from '../obs/IngestController';
+
+const THUMBNAIL_WIDTH = 320;
+const THUMBNAIL_QUALITY = 60;
+
+// Refresh choices offered to the operator, in seconds; 0 turns thumbnails off
+export const THUMBNAIL_INTERVALS = [0, 1, 2, 5, 10];
+export const DEFAULT_THUMBNAIL_SECONDS = 2;
+
+const isPageVisible = () => document.visibilityState === 'visible';
+
+export function usePageVisible() {
+  const [visible, setVisible] = useState(isPageVisible);
+  useEffect(() => {
+    const onChange = () => setVisible(isPageVisible());
+    document.addEventListener('visibilitychange', onChange);
+    return () => document.removeEventListener('visibilitychange', onChange);
+  }, []);
+  return visible;
+}
+
+/**
+ * Polls GetSourceScreenshot for each named source on one controller and returns the latest frame
+ * per source as a data URL. Frames of sources that fail (not rendering, removed) are dropped.
+ * Polling pauses while the tab is hidden; `onFrames` sees every completed pass.
+ */
+export function useSourceThumbnails(
+  controller: IngestController | undefined,
+  sourceNames: string[],
+  intervalMs: number,
+  onFrames?: (frames: Record<string, string>) => void,
+) {
+  const [frames, setFrames] = useState<Record<string, string>>({});
+  const namesRef = useRef(sourceNames);
+  const onFramesRef = useRef(onFrames);
+  useEffect(() => {
+    namesRef.current = sourceNames;
+    onFramesRef.current = onFrames;
+  });
+
+  const visible = usePageVisible();
+  const namesKey = sourceNames.join('\n');
+  const active = !!controller && namesKey !== '' && intervalMs > 0;
+
+  useEffect(() => {
+    if (!active || !controller || !visible) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    // One pass at a time; the next starts intervalMs after the previous finished
+    const poll = async () => {
+      const names = namesRef.current;
+      const shots = await Promise.all(names.map(async name => {
+        try {
+          const { imageData } = await controller.call('GetSourceScreenshot', {
+            sourceName: name,
+            imageFormat: 'jpg',
+            imageWidth: THUMBNAIL_WIDTH,
+            imageCompressionQuality: THUMBNAIL_QUALITY,
+          });
+          return [name, imageData] as const;
+        } catch {
+          return null;
+        }
+      }));
+      if (cancelled) return;
+      const next = Object.fromEntries(shots.filter(shot => shot !== null));
+      setFrames(next);
+      onFramesRef.current?.(next);
+      timer = setTimeout(poll, intervalMs);
+    };
+    poll();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [active, controller, namesKey, intervalMs, visible]);
+
+  // Frames stay up while paused so the panel doesn't go blank when the tab comes back
+  return active ? frames : {};
+}
@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react';
+import type { IngestController } from '../obs/IngestController';
+import { readVolumeLevel } from '../obs/audio';
+import type { VolumeLevel } from '../obs/audio';
+
+// Bottom of the meter scale; anything quieter draws as empty
+export const METER_FLOOR_DB = -60;
+
+export const meterPercent = (db: number) => Math.min(100, Math.max(0, ((db - METER_FLOOR_DB) / -METER_FLOOR_DB) * 100));
+
+/**
+ * Subscribes one controller to InputVolumeMeters while mounted and draws the named input's level into the
+ * returned element refs. OBS sends meters about 20 times a second; writing the DOM directly keeps that from
+ * re-rendering the page. Inputs without audio draw as empty with a "No audio" label.
+ */
+export function useVolumeMeter(controller: IngestController | undefined, sourceName: string) {
+  const levelRef = useRef<HTMLDivElement>(null);
+  const peakRef = useRef<HTMLDivElement>(null);
+  const labelRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    if (!controller || !sourceName) return;
+    const draw = (level: VolumeLevel | null) => {
+      if (levelRef.current) levelRef.current.style.clipPath = `inset(0 ${100 - (level ? meterPercent(level.magnitudeDb) : 0)}% 0 0)`;
+      if (peakRef.current) peakRef.current.style.left = `${level ? meterPercent(level.peakDb) : 0}%`;
+      if (labelRef.current) {
+        labelRef.current.textContent = !level ? 'No audio' : level.peakDb <= METER_FLOOR_DB ? '-∞ dB' : `${level.peakDb.toFixed(1)} dB`;
+      }
+    };
+    draw(null);
+    controller.setVolumeMeters(true);
+    const unsubscribe = controller.on('InputVolumeMeters', ({ inputs }) => draw(readVolumeLevel(inputs, sourceName)));
+    return () => {
+      unsubscribe();
+      controller.setVolumeMeters(false);
+    };
+  }, [controller, sourceName]);
+
+  return { levelRef, peakRef, labelRef };
+}
@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import { usePageVisible } from './useSourceThumbnails';
+
+export type WakeLockStatus = 'off' | 'held' | 'unsupported' | 'denied';
+
+const isSupported = () => typeof navigator !== 'undefined' && 'wakeLock' in navigator;
+
+/**
+ * Keeps the screen on while `enabled`. Browsers drop the lock whenever the tab is hidden,
+ * so it's requested again each time the page becomes visible.
+ */
+export function useWakeLock(enabled: boolean): WakeLockStatus {
+  const visible = usePageVisible();
+  const [held, setHeld] = useState(false);
+  const [denied, setDenied] = useState(false);
+  const active = enabled && visible && isSupported();
+
+  useEffect(() => {
+    if (!active) return;
+    let sentinel: WakeLockSentinel | null = null;
+    let released = false;
+    const onRelease = () => setHeld(false);
+
+    navigator.wakeLock.request('screen')
+      .then(lock => {
+        if (released) {
+          lock.release();
+          return;
+        }
+        sentinel = lock;
+        lock.addEventListener('release', onRelease);
+        setHeld(true);
+        setDenied(false);
+      })
+      .catch(error => {
+        console.warn('Wake lock request failed', error);
+        if (!released) setDenied(true);
+      });
+
+    return () => {
+      released = true;
+      sentinel?.removeEventListener('release', onRelease);
+      sentinel?.release().catch(() => { /* already released */ });
+      setHeld(false);
+    };
+  }, [active]);
+
+  if (!enabled) return 'off';
+  if (!isSupported()) return 'unsupported';
+  if (denied && !held) return 'denied';
+  return held ? 'held' : 'off';
+}
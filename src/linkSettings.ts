@@ -0,0 +1,233 @@
+import type { LinkAudio, LinkItem, LinkSceneAction, LinkSettingKind, LinkSettingValue, LinkSettings, MonitorType } from './types';
+import { sanitizeHotkey, sanitizeMidiBinding } from './bindings';
+import { sanitizeColor, sanitizeTags } from './groups';
+
+export type LinkSettingField = {
+  key: string;
+  label: string;
+  type: 'number' | 'boolean' | 'text';
+  min?: number;
+  max?: number;
+};
+
+// Editor drafts keep raw strings so half-typed numbers can be validated on save
+export type LinkSettingsDraft = Record<LinkSettingKind, Record<string, string>>;
+
+// Extra settings exposed in the Link Manager; anything else stays as configured in OBS
+export const LINK_SETTING_FIELDS: Record<LinkSettingKind, LinkSettingField[]> = {
+  ffmpeg_source: [
+    { key: 'buffering_mb', label: 'Buffering (MB)', type: 'number', min: 0, max: 16 },
+    { key: 'reconnect_delay_sec', label: 'Reconnect Delay (s)', type: 'number', min: 1, max: 60 },
+    { key: 'input_format', label: 'Input Format', type: 'text' },
+    { key: 'hw_decode', label: 'Hardware Decode', type: 'boolean' },
+    { key: 'restart_on_activate', label: 'Restart on Activate', type: 'boolean' },
+    { key: 'close_when_inactive', label: 'Close When Inactive', type: 'boolean' },
+  ],
+  browser_source: [
+    { key: 'width', label: 'Width', type: 'number', min: 1, max: 8192 },
+    { key: 'height', label: 'Height', type: 'number', min: 1, max: 8192 },
+    { key: 'fps', label: 'FPS', type: 'number', min: 1, max: 60 },
+    { key: 'css', label: 'Custom CSS', type: 'text' },
+  ],
+};
+
+export const LINK_SETTING_KIND_LABELS: Record<LinkSettingKind, string> = {
+  ffmpeg_source: 'Media Source',
+  browser_source: 'Browser Source',
+};
+
+export const LINK_SETTING_KINDS = Object.keys(LINK_SETTING_FIELDS) as LinkSettingKind[];
+
+const isLinkSettingValid = (field: LinkSettingField, value: unknown): value is LinkSettingValue => {
+  switch (field.type) {
+    case 'number':
+      return typeof value === 'number' && Number.isInteger(value)
+        && (field.min === undefined || value >= field.min)
+        && (field.max === undefined || value <= field.max);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'text':
+      return typeof value === 'string';
+  }
+};
+
+// Keeps only known, well-typed settings; used for imported and persisted links
+export const sanitizeLinkSettings = (raw: unknown): LinkSettings | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const settings: LinkSettings = {};
+  LINK_SETTING_KINDS.forEach(kind => {
+    const values = (raw as Record<string, unknown>)[kind];
+    if (!values || typeof values !== 'object') return;
+    const kept: Record<string, LinkSettingValue> = {};
+    LINK_SETTING_FIELDS[kind].forEach(field => {
+      const value = (values as Record<string, unknown>)[field.key];
+      if (isLinkSettingValid(field, value)) kept[field.key] = value;
+    });
+    if (Object.keys(kept).length > 0) settings[kind] = kept;
+  });
+  return Object.keys(settings).length > 0 ? settings : undefined;
+};
+
+export const toLinkSettingsDraft = (settings?: LinkSettings): LinkSettingsDraft => {
+  const draft = { ffmpeg_source: {}, browser_source: {} } as LinkSettingsDraft;
+  LINK_SETTING_KINDS.forEach(kind => {
+    Object.entries(settings?.[kind] ?? {}).forEach(([key, value]) => { draft[kind][key] = String(value); });
+  });
+  return draft;
+};
+
+// Parses the editor draft; errors are keyed by `${kind}.${key}`
+export const parseLinkSettingsDraft = (draft: LinkSettingsDraft) => {
+  const errors: Record<string, string> = {};
+  const parsed: Record<string, Record<string, unknown>> = {};
+  LINK_SETTING_KINDS.forEach(kind => {
+    parsed[kind] = {};
+    LINK_SETTING_FIELDS[kind].forEach(field => {
+      const raw = draft[kind][field.key]?.trim() ?? '';
+      if (raw === '') return;
+      const value = field.type === 'number' ? Number(raw) : field.type === 'boolean' ? raw === 'true' : raw;
+      if (!isLinkSettingValid(field, value)) {
+        errors[`${kind}.${field.key}`] = field.min !== undefined && field.max !== undefined
+          ? `Whole number ${field.min}–${field.max}`
+          : 'Invalid value';
+        return;
+      }
+      parsed[kind][field.key] = value;
+    });
+  });
+  return { settings: sanitizeLinkSettings(parsed), errors };
+};
+
+export const countLinkSettings = (settings?: LinkSettings) =>
+  LINK_SETTING_KINDS.reduce((total, kind) => total + Object.keys(settings?.[kind] ?? {}).length, 0);
+
+// --- Scene Actions ---
+export const TRANSITION_DURATION_MIN_MS = 50;
+export const TRANSITION_DURATION_MAX_MS = 20000;
+
+export type SceneActionDraft = {
+  sceneName: string;
+  transitionName: string;
+  transitionDuration: string;
+  hideDuringReload: boolean;
+};
+
+const isTransitionDurationValid = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value)
+  && value >= TRANSITION_DURATION_MIN_MS && value <= TRANSITION_DURATION_MAX_MS;
+
+// Keeps only well-typed fields; undefined when the link has no scene behaviour at all
+export const sanitizeSceneAction = (raw: unknown): LinkSceneAction | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const { sceneName, transitionName, transitionDuration, hideDuringReload } = raw as Record<string, unknown>;
+  const action: LinkSceneAction = {};
+  if (typeof sceneName === 'string' && sceneName) action.sceneName = sceneName;
+  if (typeof transitionName === 'string' && transitionName) action.transitionName = transitionName;
+  if (isTransitionDurationValid(transitionDuration)) action.transitionDuration = transitionDuration;
+  if (hideDuringReload === true) action.hideDuringReload = true;
+  return Object.keys(action).length > 0 ? action : undefined;
+};
+
+export const toSceneActionDraft = (action?: LinkSceneAction): SceneActionDraft => ({
+  sceneName: action?.sceneName ?? '',
+  transitionName: action?.transitionName ?? '',
+  transitionDuration: action?.transitionDuration !== undefined ? String(action.transitionDuration) : '',
+  hideDuringReload: action?.hideDuringReload ?? false,
+});
+
+export const parseSceneActionDraft = (draft: SceneActionDraft) => {
+  const errors: Record<string, string> = {};
+  const raw = draft.transitionDuration.trim();
+  const transitionDuration = raw === '' ? undefined : Number(raw);
+  if (transitionDuration !== undefined && !isTransitionDurationValid(transitionDuration)) {
+    errors.transitionDuration = `Whole number ${TRANSITION_DURATION_MIN_MS}–${TRANSITION_DURATION_MAX_MS}`;
+  }
+  return {
+    sceneAction: sanitizeSceneAction({ ...draft, transitionDuration }),
+    errors,
+  };
+};
+
+// --- Audio ---
+export const FADE_MAX_MS = 10000;
+// OBS volume range; -100 dB is silence
+export const VOLUME_MIN_DB = -100;
+export const VOLUME_MAX_DB = 26;
+
+export const MONITOR_TYPE_LABELS: Record<MonitorType, string> = {
+  OBS_MONITORING_TYPE_NONE: 'Monitor Off',
+  OBS_MONITORING_TYPE_MONITOR_ONLY: 'Monitor Only',
+  OBS_MONITORING_TYPE_MONITOR_AND_OUTPUT: 'Monitor and Output',
+};
+
+export type AudioDraft = {
+  muteDuringReload: boolean;
+  fadeMs: string;
+  volumeDb: string;
+  monitorType: MonitorType | '';
+};
+
+const isFadeValid = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0 && value <= FADE_MAX_MS;
+
+const isVolumeValid = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= VOLUME_MIN_DB && value <= VOLUME_MAX_DB;
+
+// Keeps only well-typed fields; undefined when the link leaves audio alone
+export const sanitizeLinkAudio = (raw: unknown): LinkAudio | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const { muteDuringReload, fadeMs, volumeDb, monitorType } = raw as Record<string, unknown>;
+  const audio: LinkAudio = {};
+  if (muteDuringReload === true) audio.muteDuringReload = true;
+  if (isFadeValid(fadeMs)) audio.fadeMs = fadeMs;
+  if (isVolumeValid(volumeDb)) audio.volumeDb = volumeDb;
+  if (typeof monitorType === 'string' && monitorType in MONITOR_TYPE_LABELS) audio.monitorType = monitorType as MonitorType;
+  return Object.keys(audio).length > 0 ? audio : undefined;
+};
+
+export const toAudioDraft = (audio?: LinkAudio): AudioDraft => ({
+  muteDuringReload: audio?.muteDuringReload ?? false,
+  fadeMs: audio?.fadeMs !== undefined ? String(audio.fadeMs) : '',
+  volumeDb: audio?.volumeDb !== undefined ? String(audio.volumeDb) : '',
+  monitorType: audio?.monitorType ?? '',
+});
+
+export const parseAudioDraft = (draft: AudioDraft) => {
+  const errors: Record<string, string> = {};
+  const rawFade = draft.fadeMs.trim();
+  const fadeMs = rawFade === '' ? undefined : Number(rawFade);
+  if (fadeMs !== undefined && !isFadeValid(fadeMs)) errors.fadeMs = `Whole number 1–${FADE_MAX_MS}`;
+  const rawVolume = draft.volumeDb.trim();
+  const volumeDb = rawVolume === '' ? undefined : Number(rawVolume);
+  if (volumeDb !== undefined && !isVolumeValid(volumeDb)) errors.volumeDb = `Number ${VOLUME_MIN_DB}–${VOLUME_MAX_DB}`;
+  return {
+    audio: sanitizeLinkAudio({ ...draft, fadeMs, volumeDb }),
+    errors,
+  };
+};
+
+// --- Links ---
+// Validates a persisted, imported or synced link; null when it lacks an id, name or URL
+export const sanitizeLinkItem = (raw: unknown): LinkItem | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const { id, name, url, settings, sceneAction, audio, safe, hotkey, midi, groupId, tags, color } = raw as Record<string, unknown>;
+  if (typeof id !== 'string' || !id || typeof name !== 'string' || !name || typeof url !== 'string' || !url) return null;
+  return {
+    id,
+    name,
+    url,
+    settings: sanitizeLinkSettings(settings),
+    sceneAction: sanitizeSceneAction(sceneAction),
+    audio: sanitizeLinkAudio(audio),
+    safe: safe === true ? true : undefined,
+    hotkey: sanitizeHotkey(hotkey),
+    midi: sanitizeMidiBinding(midi),
+    groupId: typeof groupId === 'string' && groupId ? groupId : undefined,
+    tags: sanitizeTags(tags),
+    color: sanitizeColor(color),
+  };
+};
+
+export const sanitizeLinkList = (raw: unknown) => (Array.isArray(raw) ? raw : [])
+  .map(sanitizeLinkItem)
+  .filter((link): link is LinkItem => link !== null);
@@ -8,3 +8,11 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
     <BaneIngestSwitcher />
   </React.StrictMode>,
 )
+
+// Offline shell for installs and LAN-only venues; dev serves modules Vite rewrites on the fly, so only builds register it
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`)
+      .catch(error => console.warn('Service worker registration failed', error))
+  })
+}
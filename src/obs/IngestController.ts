@@ -0,0 +1,702 @@
+import { EventSubscription, OBSWebSocket } from 'obs-websocket-js';
+import type { OBSEventTypes, OBSRequestTypes, OBSResponseTypes } from 'obs-websocket-js';
+import type { ObsClient } from './client';
+import type { LinkAudio, LinkHealth, LinkItem, LinkSceneAction, LinkSettings, OBSSource } from '../types';
+import { buildCreateSettings, buildInputSettings, extractInputUrl, isSupportedKind, reportsMediaState, validateInputUrl } from './kindAdapters';
+import { SILENT_DB, fadeVolume } from './audio';
+import { layoutTransform, writableTransform } from './layout';
+import type { LayoutPreset } from './layout';
+import { readOutputStatus } from './outputs';
+import type { OutputStatus } from './outputs';
+import {
+  FAILED_MEDIA_STATES,
+  PROBE_SCENE_NAME,
+  isProbeInput,
+  loadStagingInput,
+  probeInputHealth,
+  sleep,
+} from './health';
+
+// Auto-reconnect backoff: doubles from base to max, with up to 30% random jitter on top
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const RECONNECT_JITTER = 0.3;
+
+// "Hide during reload": how long to wait for the new URL to play before showing the source regardless
+const RELOAD_POLL_INTERVAL_MS = 250;
+const RELOAD_REVEAL_TIMEOUT_MS = 10000;
+// Browser sources report no media state; give the page a moment to paint instead
+const BROWSER_RELOAD_SETTLE_MS = 1500;
+
+// Scene events tend to arrive in bursts (a Studio Mode take changes program and preview); refresh once per burst
+const SCENE_REFRESH_DEBOUNCE_MS = 100;
+// Nested scenes are followed this deep when working out what a scene shows
+const MAX_SCENE_NESTING = 4;
+
+const SCENE_EVENTS = [
+  'SceneListChanged',
+  'SceneNameChanged',
+  'StudioModeStateChanged',
+  'CurrentProgramSceneChanged',
+  'CurrentPreviewSceneChanged',
+  'SceneItemCreated',
+  'SceneItemRemoved',
+  'SceneItemEnableStateChanged',
+] as const satisfies readonly (keyof OBSEventTypes)[];
+
+// Inputs coming and going; renames also change what scenes show
+const SOURCE_EVENTS = [
+  'InputCreated',
+  'InputRemoved',
+  'InputNameChanged',
+] as const satisfies readonly (keyof OBSEventTypes)[];
+
+export const getReconnectDelay = (attempt: number) => {
+  const backoff = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1));
+  return Math.round(backoff * (1 + Math.random() * RECONNECT_JITTER));
+};
+
+export const getErrorMessage = (error: unknown, fallback: string) =>
+  (error instanceof Error && error.message) || fallback;
+
+export type ConnectionParams = {
+  address: string;
+  port: string;
+  password: string;
+};
+
+export type IngestControllerState = {
+  isConnected: boolean;
+  connError: string | null;
+  reconnectAttempt: number;
+  reconnectAt: number | null;
+  sources: OBSSource[];
+  // URL each compatible input currently plays, kept current from InputSettingsChanged
+  sourceUrls: Record<string, string>;
+  // Scene and transition names, scenes in the order OBS shows them
+  scenes: string[];
+  transitions: string[];
+  studioMode: boolean;
+  programScene: string | null;
+  // Only set while Studio Mode is on
+  previewScene: string | null;
+  // Inputs the program and preview scenes show, nested scenes included
+  programInputs: string[];
+  previewInputs: string[];
+};
+
+type SceneItemRef = { sceneName: string; sceneItemId: number };
+
+export type SwitchOptions = {
+  // Stage the link off air and only swap the live input once it plays
+  probeFirst?: boolean;
+  isCancelled?: () => boolean;
+  // Where the link's scene action goes; preview stages the scene for the next Studio Mode take
+  sceneTarget?: 'program' | 'preview';
+};
+
+export type SwitchResult = {
+  // Whether the on-air input was actually changed
+  switched: boolean;
+  health: LinkHealth | null;
+  // Also set when the input switched but its scene action failed
+  error: string | null;
+};
+
+// Default when no screenshot decoder is available (e.g. in Node): only media state decides health
+const neverBlack = () => Promise.resolve(false);
+
+export type IngestControllerOptions = {
+  // Label used in log messages, usually the connection profile name
+  label?: string;
+  client?: ObsClient;
+  checkFrameBlack?: (imageData: string) => Promise<boolean>;
+};
+
+export const INITIAL_CONTROLLER_STATE: IngestControllerState = {
+  isConnected: false,
+  connError: null,
+  reconnectAttempt: 0,
+  reconnectAt: null,
+  sources: [],
+  sourceUrls: {},
+  scenes: [],
+  transitions: [],
+  studioMode: false,
+  programScene: null,
+  previewScene: null,
+  programInputs: [],
+  previewInputs: [],
+};
+
+const EMPTY_SCENE_STATE: Partial<IngestControllerState> = {
+  scenes: [],
+  transitions: [],
+  studioMode: false,
+  programScene: null,
+  previewScene: null,
+  programInputs: [],
+  previewInputs: [],
+};
+
+/**
+ * One OBS instance: connection lifecycle with auto-reconnect, source discovery and switching.
+ * Framework-agnostic; React binds to it through `useIngestControllers`.
+ */
+export class IngestController {
+  readonly client: ObsClient;
+  label: string;
+
+  private state: IngestControllerState = INITIAL_CONTROLLER_STATE;
+  private readonly listeners = new Set<(state: IngestControllerState) => void>();
+  private readonly checkFrameBlack: (imageData: string) => Promise<boolean>;
+
+  // Reconnect bookkeeping: only reconnect after a successful manual connect, never after a manual disconnect
+  private params: ConnectionParams | null = null;
+  private shouldReconnect = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectInFlight = false;
+  private reconnectAttempt = 0;
+  private destroyed = false;
+
+  // Scene items hidden by an in-flight "hide during reload", per input; whichever switch finishes last shows them
+  private readonly hiddenItems = new Map<string, SceneItemRef[]>();
+  private sceneRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private sourceRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+  // Volume and mute from before a switch took an input's audio down; cleared once it's restored
+  private readonly quietedInputs = new Map<string, { volumeDb: number; muted: boolean }>();
+  private volumeMeters = false;
+
+  constructor({ label = 'OBS', client = new OBSWebSocket(), checkFrameBlack = neverBlack }: IngestControllerOptions = {}) {
+    this.label = label;
+    this.client = client;
+    this.checkFrameBlack = checkFrameBlack;
+
+    // Registered once per client; reconnects reuse the same instance
+    this.client.on('ConnectionClosed', this.handleConnectionClosed);
+    SCENE_EVENTS.forEach(event => this.client.on(event, this.scheduleSceneRefresh));
+    SOURCE_EVENTS.forEach(event => this.client.on(event, this.scheduleSourceRefresh));
+    this.on('InputSettingsChanged', this.handleInputSettingsChanged);
+  }
+
+  get identified() {
+    return this.client.identified;
+  }
+
+  getState() {
+    return this.state;
+  }
+
+  subscribe(listener: (state: IngestControllerState) => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // Typed passthrough to obs-websocket events; returns an unsubscribe function
+  on<Event extends keyof OBSEventTypes>(event: Event, handler: (data: OBSEventTypes[Event]) => void) {
+    this.client.on(event, handler);
+    return () => { this.client.off(event, handler); };
+  }
+
+  call<Type extends keyof OBSRequestTypes>(requestType: Type, requestData?: OBSRequestTypes[Type]): Promise<OBSResponseTypes[Type]> {
+    return this.client.call(requestType, requestData);
+  }
+
+  // InputVolumeMeters is high-volume, so it's only subscribed while a meter is showing; kept across reconnects
+  async setVolumeMeters(enabled: boolean) {
+    if (this.volumeMeters === enabled) return;
+    this.volumeMeters = enabled;
+    if (!this.client.identified) return;
+    await this.client.reidentify({ eventSubscriptions: this.eventSubscriptions })
+      .catch(error => console.warn(`Failed to change event subscriptions for "${this.label}"`, error));
+  }
+
+  private get eventSubscriptions() {
+    return this.volumeMeters ? EventSubscription.All | EventSubscription.InputVolumeMeters : EventSubscription.All;
+  }
+
+  // Connection details used by later reconnect attempts
+  setParams(params: ConnectionParams) {
+    this.params = params;
+  }
+
+  async connect(params: ConnectionParams) {
+    this.shouldReconnect = false;
+    this.clearReconnect();
+    this.params = params;
+    this.setState({ connError: null });
+
+    try {
+      await this.client.connect(`ws://${params.address}:${params.port}`, params.password, { eventSubscriptions: this.eventSubscriptions });
+      this.shouldReconnect = true;
+      this.setState({ isConnected: true });
+
+      // Initial fetch
+      await Promise.all([this.fetchSources(), this.fetchScenes()]);
+      return true;
+    } catch (error) {
+      console.error(`OBS Connection to "${this.label}" failed`, error);
+      this.setState({
+        isConnected: false,
+        connError: getErrorMessage(error, "Failed to connect. Check details."),
+      });
+      return false;
+    }
+  }
+
+  async disconnect() {
+    this.shouldReconnect = false;
+    this.clearReconnect();
+    await this.client.disconnect();
+    this.setState({ isConnected: false, sources: [], sourceUrls: {}, ...EMPTY_SCENE_STATE });
+  }
+
+  cancelReconnect() {
+    this.shouldReconnect = false;
+    this.clearReconnect();
+    this.setState({ connError: null, sources: [], sourceUrls: {}, ...EMPTY_SCENE_STATE });
+  }
+
+  destroy() {
+    this.destroyed = true;
+    this.shouldReconnect = false;
+    this.clearReconnect();
+    if (this.sceneRefreshTimer) clearTimeout(this.sceneRefreshTimer);
+    if (this.sourceRefreshTimer) clearTimeout(this.sourceRefreshTimer);
+    this.listeners.clear();
+    this.client.removeAllListeners();
+    this.client.disconnect().catch(() => { /* ignore */ });
+  }
+
+  async fetchSources() {
+    if (!this.client.identified) return this.state.sources;
+    try {
+      const { inputs } = await this.client.call('GetInputList');
+      const mediaSources = inputs
+        .filter(input => {
+          const kind = input.inputKind as string | null;
+          return kind && isSupportedKind(kind) && !isProbeInput(input.inputName as string);
+        })
+        .map(input => ({ name: input.inputName as string, kind: input.inputKind as string }));
+
+      const urls = await Promise.all(mediaSources.map(source => this.fetchActiveUrl(source.name)));
+      const sourceUrls: Record<string, string> = {};
+      mediaSources.forEach((source, i) => {
+        if (urls[i] !== null) sourceUrls[source.name] = urls[i];
+      });
+
+      this.setState({ sources: mediaSources, sourceUrls });
+      return mediaSources;
+    } catch (error) {
+      console.error("Failed to fetch sources", error);
+      return this.state.sources;
+    }
+  }
+
+  // Scenes, transitions and Studio Mode state, plus what program and preview currently show
+  async fetchScenes() {
+    if (!this.client.identified) return;
+    try {
+      const [{ scenes, currentProgramSceneName, currentPreviewSceneName }, { transitions }, { studioModeEnabled }] = await Promise.all([
+        this.client.call('GetSceneList'),
+        this.client.call('GetSceneTransitionList'),
+        this.client.call('GetStudioModeEnabled'),
+      ]);
+      const programScene = currentProgramSceneName as string | null;
+      const previewScene = studioModeEnabled ? currentPreviewSceneName as string | null : null;
+      const [programInputs, previewInputs] = await Promise.all([
+        programScene ? this.listSceneInputs(programScene) : [],
+        previewScene ? this.listSceneInputs(previewScene) : [],
+      ]);
+      this.setState({
+        // OBS lists scenes bottom-up
+        scenes: scenes.map(scene => scene.sceneName as string).filter(name => name !== PROBE_SCENE_NAME).reverse(),
+        transitions: transitions.map(transition => transition.transitionName as string),
+        studioMode: studioModeEnabled,
+        programScene,
+        previewScene,
+        programInputs,
+        previewInputs,
+      });
+    } catch (error) {
+      console.error("Failed to fetch scenes", error);
+    }
+  }
+
+  // Studio Mode "Take": transitions preview to program with the current transition
+  async take() {
+    if (!this.client.identified) return null;
+    try {
+      await this.client.call('TriggerStudioModeTransition');
+      return null;
+    } catch (error) {
+      return `Take failed: ${getErrorMessage(error, String(error))}`;
+    }
+  }
+
+  // Null when not connected or the round fails; callers keep showing the last status they had
+  async fetchOutputStatus(previous: OutputStatus | null) {
+    if (!this.client.identified) return null;
+    try {
+      return await readOutputStatus(this.client, previous);
+    } catch (error) {
+      console.warn(`Failed to read output status for "${this.label}"`, error);
+      return null;
+    }
+  }
+
+  // Marks a chapter in the running recording; does nothing while not recording. Needs OBS 30.2+ recording Hybrid MP4.
+  async markChapter(chapterName: string) {
+    if (!this.client.identified) return 'Not connected';
+    try {
+      const { outputActive } = await this.client.call('GetRecordStatus');
+      if (!outputActive) return null;
+      await this.client.call('CreateRecordChapter', { chapterName });
+      return null;
+    } catch (error) {
+      return getErrorMessage(error, String(error));
+    }
+  }
+
+  // URL currently loaded in an input, or null if the input doesn't exist on this instance
+  async fetchActiveUrl(sourceName: string) {
+    if (!this.client.identified || !sourceName) return null;
+    try {
+      const { inputSettings, inputKind } = await this.client.call('GetInputSettings', { inputName: sourceName });
+      return extractInputUrl(inputKind, inputSettings);
+    } catch {
+      return null;
+    }
+  }
+
+  // Media state of an input, e.g. OBS_MEDIA_STATE_PLAYING; null when not connected. Throws if OBS refuses the request.
+  async fetchMediaState(inputName: string) {
+    if (!this.client.identified) return null;
+    const { mediaState } = await this.client.call('GetMediaInputStatus', { inputName });
+    return mediaState;
+  }
+
+  findSource(sourceName: string) {
+    return this.state.sources.find(s => s.name === sourceName);
+  }
+
+  probe(inputName: string, kind: string, isCancelled: () => boolean = () => this.destroyed) {
+    return probeInputHealth(this.client, inputName, kind, isCancelled, this.checkFrameBlack);
+  }
+
+  // Loads a link into the staging input, probes it and unloads it again
+  async probeOffAir(kind: string, link: LinkItem, isCancelled: () => boolean = () => this.destroyed) {
+    const stagingName = await loadStagingInput(this.client, kind, buildInputSettings(kind, link.url, link.settings));
+    const health = await this.probe(stagingName, kind, isCancelled);
+    await this.client.call('SetInputSettings', {
+      inputName: stagingName,
+      inputSettings: buildInputSettings(kind, ''),
+      overlay: true
+    }).catch(() => { /* staging cleanup is best effort */ });
+    return health;
+  }
+
+  async switchInput(source: OBSSource, link: LinkItem, { probeFirst = false, isCancelled = () => this.destroyed, sceneTarget = 'program' }: SwitchOptions = {}): Promise<SwitchResult> {
+    if (!this.client.identified) return { switched: false, health: null, error: null };
+    const invalid = validateInputUrl(source.kind, link.url);
+    if (invalid) return { switched: false, health: 'failed', error: `Can't load into "${source.name}": ${invalid}` };
+
+    try {
+      if (probeFirst) {
+        const staged = await this.probeOffAir(source.kind, link, isCancelled);
+        if (staged !== 'healthy') {
+          // Don't strand items an earlier, now superseded switch hid
+          await this.revealSource(source.name);
+          return { switched: false, health: staged, error: staged ? `Probe ${staged}; kept current source on air.` : null };
+        }
+      }
+
+      if (link.sceneAction?.hideDuringReload) await this.hideSource(source.name);
+      if (link.audio) await this.quietSource(source.name, link.audio, isCancelled);
+      await this.client.call('SetInputSettings', {
+        inputName: source.name,
+        inputSettings: buildInputSettings(source.kind, link.url, link.settings),
+        overlay: true
+      });
+      this.setState({ sourceUrls: { ...this.state.sourceUrls, [source.name]: link.url } });
+    } catch (error) {
+      await this.revealSource(source.name);
+      if (this.quietedInputs.has(source.name)) await this.restoreAudio(source.name, link.audio, () => false);
+      return { switched: false, health: 'failed', error: `Failed to switch: ${getErrorMessage(error, String(error))}` };
+    }
+
+    // A superseded switch leaves its hidden items and quieted audio to the switch that replaced it
+    const hidden = this.hiddenItems.has(source.name);
+    if (hidden || this.quietedInputs.has(source.name)) await this.waitForPlayback(source, isCancelled);
+    if (hidden && !isCancelled()) await this.revealSource(source.name);
+    const audioError = (link.audio || this.quietedInputs.has(source.name)) && !isCancelled() ? await this.restoreAudio(source.name, link.audio, isCancelled) : null;
+    const sceneError = isCancelled() ? null : await this.applySceneAction(link.sceneAction, sceneTarget);
+
+    const health = await this.probe(source.name, source.kind, isCancelled);
+    return { switched: true, health, error: sceneError ?? audioError };
+  }
+
+  // --- Source management: each returns an error message, or null on success ---
+
+  // Adds a new input to a scene, starting from its kind's ingest defaults
+  async createSource(sceneName: string, inputName: string, kind: string, url = '', linkSettings?: LinkSettings) {
+    if (!this.client.identified) return 'Not connected';
+    const invalid = url ? validateInputUrl(kind, url) : null;
+    if (invalid) return `Can't create "${inputName}": ${invalid}`;
+    try {
+      await this.client.call('CreateInput', { sceneName, inputName, inputKind: kind, inputSettings: buildCreateSettings(kind, url, linkSettings), sceneItemEnabled: true });
+      return null;
+    } catch (error) {
+      return `Couldn't create "${inputName}": ${getErrorMessage(error, String(error))}`;
+    }
+  }
+
+  // New input with the same kind and settings, placed in `sceneName` where the original sits there (if it does)
+  async duplicateSource(sourceName: string, newName: string, sceneName: string) {
+    if (!this.client.identified) return 'Not connected';
+    try {
+      const { inputKind, inputSettings } = await this.client.call('GetInputSettings', { inputName: sourceName });
+      const { sceneItemId } = await this.client.call('CreateInput', { sceneName, inputName: newName, inputKind, inputSettings, sceneItemEnabled: true });
+      const original = await this.client.call('GetSceneItemId', { sceneName, sourceName }).catch(() => null);
+      if (original) {
+        const { sceneItemTransform } = await this.client.call('GetSceneItemTransform', { sceneName, sceneItemId: original.sceneItemId });
+        await this.client.call('SetSceneItemTransform', { sceneName, sceneItemId, sceneItemTransform: writableTransform(sceneItemTransform) });
+      }
+      return null;
+    } catch (error) {
+      return `Couldn't duplicate "${sourceName}": ${getErrorMessage(error, String(error))}`;
+    }
+  }
+
+  async renameSource(sourceName: string, newName: string) {
+    if (!this.client.identified) return 'Not connected';
+    try {
+      await this.client.call('SetInputName', { inputName: sourceName, newInputName: newName });
+      return null;
+    } catch (error) {
+      return `Couldn't rename "${sourceName}": ${getErrorMessage(error, String(error))}`;
+    }
+  }
+
+  // Removes the input from OBS entirely, along with every scene item showing it
+  async removeSource(sourceName: string) {
+    if (!this.client.identified) return 'Not connected';
+    try {
+      await this.client.call('RemoveInput', { inputName: sourceName });
+      return null;
+    } catch (error) {
+      return `Couldn't remove "${sourceName}": ${getErrorMessage(error, String(error))}`;
+    }
+  }
+
+  // Moves the source's item in `sceneName` into a layout preset, sized against the OBS base canvas
+  async placeSource(sceneName: string, sourceName: string, preset: LayoutPreset) {
+    if (!this.client.identified) return 'Not connected';
+    try {
+      const [{ baseWidth, baseHeight }, { sceneItemId }] = await Promise.all([
+        this.client.call('GetVideoSettings'),
+        this.client.call('GetSceneItemId', { sceneName, sourceName }),
+      ]);
+      await this.client.call('SetSceneItemTransform', { sceneName, sceneItemId, sceneItemTransform: layoutTransform(preset, baseWidth, baseHeight) });
+      return null;
+    } catch (error) {
+      return `Couldn't place "${sourceName}" in "${sceneName}": ${getErrorMessage(error, String(error))}`;
+    }
+  }
+
+  // Transition first so the scene change (or the next take) uses it; skipped entirely when the link names no scene
+  private async applySceneAction(action: LinkSceneAction | undefined, target: 'program' | 'preview') {
+    if (!action?.sceneName) return null;
+    try {
+      if (action.transitionName) await this.client.call('SetCurrentSceneTransition', { transitionName: action.transitionName });
+      if (action.transitionDuration) await this.client.call('SetCurrentSceneTransitionDuration', { transitionDuration: action.transitionDuration });
+      if (target === 'preview' && this.state.studioMode) {
+        await this.client.call('SetCurrentPreviewScene', { sceneName: action.sceneName });
+      } else {
+        await this.client.call('SetCurrentProgramScene', { sceneName: action.sceneName });
+      }
+      return null;
+    } catch (error) {
+      return `Switched, but scene change failed: ${getErrorMessage(error, String(error))}`;
+    }
+  }
+
+  // Fades and/or mutes the input before a reload. Inputs without audio are left alone; the switch still goes ahead.
+  private async quietSource(inputName: string, audio: LinkAudio, isCancelled: () => boolean) {
+    if (!audio.fadeMs && !audio.muteDuringReload) return;
+    try {
+      // An earlier switch may have left it faded; what it sounded like before that one is what comes back
+      let before = this.quietedInputs.get(inputName);
+      if (!before) {
+        const [{ inputVolumeDb }, { inputMuted }] = await Promise.all([
+          this.client.call('GetInputVolume', { inputName }),
+          this.client.call('GetInputMute', { inputName }),
+        ]);
+        before = { volumeDb: inputVolumeDb, muted: inputMuted };
+        this.quietedInputs.set(inputName, before);
+      }
+      if (audio.fadeMs) await fadeVolume(this.client, inputName, before.volumeDb, SILENT_DB, audio.fadeMs, isCancelled);
+      if (audio.muteDuringReload) await this.client.call('SetInputMute', { inputName, inputMuted: true });
+    } catch (error) {
+      console.warn(`Couldn't quiet "${inputName}" for reload`, error);
+    }
+  }
+
+  // Monitoring type, unmute, then volume: the link's level if it sets one, else what it was, faded in if the link fades
+  private async restoreAudio(inputName: string, audio: LinkAudio | undefined, isCancelled: () => boolean) {
+    const before = this.quietedInputs.get(inputName);
+    try {
+      if (audio?.monitorType) await this.client.call('SetInputAudioMonitorType', { inputName, monitorType: audio.monitorType });
+      const targetDb = audio?.volumeDb ?? before?.volumeDb;
+      if (before && !before.muted) await this.client.call('SetInputMute', { inputName, inputMuted: false });
+      if (targetDb !== undefined) {
+        const faded = before && audio?.fadeMs
+          ? await fadeVolume(this.client, inputName, SILENT_DB, targetDb, audio.fadeMs, isCancelled)
+          : await this.client.call('SetInputVolume', { inputName, inputVolumeDb: targetDb }).then(() => true);
+        if (!faded) return null;
+      }
+      this.quietedInputs.delete(inputName);
+      return null;
+    } catch (error) {
+      this.quietedInputs.delete(inputName);
+      return `Switched, but audio settings failed: ${getErrorMessage(error, String(error))}`;
+    }
+  }
+
+  // Disables every visible scene item showing the input, across all scenes
+  private async hideSource(inputName: string) {
+    if (this.hiddenItems.has(inputName)) return;
+    const perScene = await Promise.all(this.state.scenes.map(async sceneName => {
+      const { sceneItems } = await this.client.call('GetSceneItemList', { sceneName });
+      return sceneItems
+        .filter(item => item.sourceName === inputName && item.sceneItemEnabled)
+        .map(item => ({ sceneName, sceneItemId: item.sceneItemId as number }));
+    }));
+    const items = perScene.flat();
+    this.hiddenItems.set(inputName, items);
+    await Promise.all(items.map(item => this.client.call('SetSceneItemEnabled', { ...item, sceneItemEnabled: false })));
+  }
+
+  // Inputs a scene shows. Items hidden by "hide during reload" still count, so tally doesn't flicker mid-switch.
+  private async listSceneInputs(sceneName: string, depth = 0): Promise<string[]> {
+    const { sceneItems } = await this.client.call('GetSceneItemList', { sceneName });
+    const hidden = [...this.hiddenItems.values()].flat();
+    const shown = sceneItems.filter(item => item.sceneItemEnabled
+      || hidden.some(h => h.sceneName === sceneName && h.sceneItemId === item.sceneItemId));
+
+    const names = await Promise.all(shown.map(async item => {
+      const name = item.sourceName as string;
+      if (item.isGroup) {
+        const { sceneItems: groupItems } = await this.client.call('GetGroupSceneItemList', { sceneName: name });
+        return groupItems.filter(groupItem => groupItem.sceneItemEnabled).map(groupItem => groupItem.sourceName as string);
+      }
+      if (item.sourceType === 'OBS_SOURCE_TYPE_SCENE') {
+        return depth < MAX_SCENE_NESTING ? this.listSceneInputs(name, depth + 1) : [];
+      }
+      return [name];
+    }));
+    return [...new Set(names.flat())];
+  }
+
+  private async revealSource(inputName: string) {
+    const items = this.hiddenItems.get(inputName);
+    if (!items) return;
+    await Promise.all(items.map(item => this.client.call('SetSceneItemEnabled', { ...item, sceneItemEnabled: true })))
+      .catch(error => console.warn(`Failed to show "${inputName}" again after reload`, error));
+    this.hiddenItems.delete(inputName);
+  }
+
+  // Resolves once the input plays, fails, times out or the switch is superseded
+  private async waitForPlayback(source: OBSSource, isCancelled: () => boolean) {
+    if (!reportsMediaState(source.kind)) {
+      await sleep(BROWSER_RELOAD_SETTLE_MS);
+      return;
+    }
+    const deadline = Date.now() + RELOAD_REVEAL_TIMEOUT_MS;
+    while (Date.now() < deadline && !isCancelled()) {
+      await sleep(RELOAD_POLL_INTERVAL_MS);
+      try {
+        const { mediaState } = await this.client.call('GetMediaInputStatus', { inputName: source.name });
+        if (mediaState === 'OBS_MEDIA_STATE_PLAYING' || FAILED_MEDIA_STATES.has(mediaState)) return;
+      } catch {
+        return;
+      }
+    }
+  }
+
+  private setState(patch: Partial<IngestControllerState>) {
+    if (this.destroyed) return;
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+
+  private clearReconnect() {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.reconnectAttempt = 0;
+    this.setState({ reconnectAttempt: 0, reconnectAt: null });
+  }
+
+  private scheduleReconnect() {
+    const attempt = this.reconnectAttempt + 1;
+    const delay = getReconnectDelay(attempt);
+    this.reconnectAttempt = attempt;
+    this.setState({ reconnectAttempt: attempt, reconnectAt: Date.now() + delay });
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      if (!this.params || !this.shouldReconnect) return;
+
+      this.reconnectInFlight = true;
+      try {
+        await this.client.connect(`ws://${this.params.address}:${this.params.port}`, this.params.password, { eventSubscriptions: this.eventSubscriptions });
+        this.reconnectInFlight = false;
+        this.clearReconnect();
+        this.setState({ isConnected: true, connError: null });
+
+        // Resync sources; subscribers refetch active state once isConnected flips back
+        await Promise.all([this.fetchSources(), this.fetchScenes()]);
+      } catch (error) {
+        this.reconnectInFlight = false;
+        console.warn(`OBS reconnect attempt ${attempt} for "${this.label}" failed`, error);
+        if (this.shouldReconnect && !this.reconnectTimer) this.scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  private scheduleSceneRefresh = () => {
+    if (this.sceneRefreshTimer || this.destroyed) return;
+    this.sceneRefreshTimer = setTimeout(() => {
+      this.sceneRefreshTimer = null;
+      this.fetchScenes();
+    }, SCENE_REFRESH_DEBOUNCE_MS);
+  };
+
+  private scheduleSourceRefresh = () => {
+    if (this.sourceRefreshTimer || this.destroyed) return;
+    this.sourceRefreshTimer = setTimeout(() => {
+      this.sourceRefreshTimer = null;
+      this.fetchSources();
+      this.scheduleSceneRefresh();
+    }, SCENE_REFRESH_DEBOUNCE_MS);
+  };
+
+  private handleInputSettingsChanged = ({ inputName, inputSettings }: OBSEventTypes['InputSettingsChanged']) => {
+    const source = this.findSource(inputName);
+    if (!source) return;
+    const url = extractInputUrl(source.kind, inputSettings);
+    if (url && this.state.sourceUrls[inputName] !== url) {
+      this.setState({ sourceUrls: { ...this.state.sourceUrls, [inputName]: url } });
+    }
+  };
+
+  private handleConnectionClosed = () => {
+    if (this.destroyed) return;
+    this.setState({ isConnected: false });
+    if (!this.shouldReconnect) return;
+
+    this.setState({ connError: "Connection lost." });
+    // A failed reconnect attempt also closes the socket; that path reschedules itself
+    if (!this.reconnectInFlight && !this.reconnectTimer) this.scheduleReconnect();
+  };
+}
@@ -0,0 +1,49 @@
+import type { OBSEventTypes } from 'obs-websocket-js';
+import type { ObsClient } from './client';
+import { sleep } from './health';
+
+// OBS treats this as silence; also the floor of the VU meter
+export const SILENT_DB = -100;
+// One SetInputVolume per step; shorter steps flood the socket without sounding smoother
+const FADE_STEP_MS = 40;
+
+export const dbToMul = (db: number) => (db <= SILENT_DB ? 0 : 10 ** (db / 20));
+export const mulToDb = (mul: number) => (mul <= 0 ? SILENT_DB : Math.max(SILENT_DB, 20 * Math.log10(mul)));
+
+// Steps linearly in amplitude; even dB steps would spend most of the fade near silence
+export async function fadeVolume(
+  client: ObsClient,
+  inputName: string,
+  fromDb: number,
+  toDb: number,
+  durationMs: number,
+  isCancelled: () => boolean,
+) {
+  const steps = Math.max(1, Math.round(durationMs / FADE_STEP_MS));
+  const from = dbToMul(fromDb);
+  const to = dbToMul(toDb);
+  for (let step = 1; step <= steps; step++) {
+    if (isCancelled()) return false;
+    await client.call('SetInputVolume', { inputName, inputVolumeMul: from + (to - from) * (step / steps) });
+    if (step < steps) await sleep(durationMs / steps);
+  }
+  return true;
+}
+
+export type VolumeLevel = {
+  // Loudest channel, in dB
+  magnitudeDb: number;
+  peakDb: number;
+};
+
+// InputVolumeMeters reports [magnitude, peak, input peak] per channel as multipliers
+export const readVolumeLevel = (inputs: OBSEventTypes['InputVolumeMeters']['inputs'], inputName: string): VolumeLevel | null => {
+  const entry = inputs.find(input => input.inputName === inputName);
+  if (!entry || !Array.isArray(entry.inputLevelsMul)) return null;
+  const channels = entry.inputLevelsMul.filter((levels): levels is number[] => Array.isArray(levels));
+  if (channels.length === 0) return null;
+  return {
+    magnitudeDb: mulToDb(Math.max(...channels.map(levels => Number(levels[0]) || 0))),
+    peakDb: mulToDb(Math.max(...channels.map(levels => Number(levels[1]) || 0))),
+  };
+};
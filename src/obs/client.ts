@@ -0,0 +1,21 @@
+import type { OBSEventTypes, OBSWebSocket, OBSWebSocketError } from 'obs-websocket-js';
+
+// Handlers get the event's data; ConnectionClosed is the client's own event and carries the close error
+export type ObsEventListener<Event extends keyof OBSEventTypes> = (data: OBSEventTypes[Event]) => void;
+
+/**
+ * The parts of an obs-websocket client the OBS layer uses. The browser, JSON and msgpack builds all fit,
+ * so Node callers can pass whichever build speaks their server's protocol.
+ */
+export interface ObsClient {
+  readonly identified: boolean;
+  connect: OBSWebSocket['connect'];
+  disconnect: OBSWebSocket['disconnect'];
+  reidentify: OBSWebSocket['reidentify'];
+  call: OBSWebSocket['call'];
+  on(event: 'ConnectionClosed', listener: (error: OBSWebSocketError) => void): unknown;
+  on<Event extends keyof OBSEventTypes>(event: Event, listener: ObsEventListener<Event>): unknown;
+  off(event: 'ConnectionClosed', listener: (error: OBSWebSocketError) => void): unknown;
+  off<Event extends keyof OBSEventTypes>(event: Event, listener: ObsEventListener<Event>): unknown;
+  removeAllListeners(): unknown;
+}
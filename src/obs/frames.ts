@@ -0,0 +1,23 @@
+// Browser-only: needs Image and canvas to decode screenshots
+const BLACK_FRAME_MAX_LUMA = 16;
+
+// Decodes an OBS screenshot and checks whether every pixel is (near) black
+export const isFrameBlack = async (imageData: string) => {
+  const img = new Image();
+  img.src = imageData;
+  await img.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return false;
+  ctx.drawImage(img, 0, 0);
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 0; i < data.length; i += 4) {
+    const luma = 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
+    if (luma > BLACK_FRAME_MAX_LUMA) return false;
+  }
+  return true;
+};
@@ -0,0 +1,82 @@
+import type { ObsClient } from './client';
+import type { LinkHealth } from '../types';
+import { reportsMediaState, type InputSettings } from './kindAdapters';
+
+// Health probing: poll media state and a tiny screenshot until the feed shows a non-black frame
+const HEALTH_PROBE_INTERVAL_MS = 1000;
+const HEALTH_PROBE_TIMEOUT_MS = 10000;
+export const FAILED_MEDIA_STATES = new Set(['OBS_MEDIA_STATE_ERROR', 'OBS_MEDIA_STATE_ENDED']);
+// Trying to play but not there yet; paused, stopped and empty inputs were left that way on purpose
+export const STALLING_MEDIA_STATES = new Set(['OBS_MEDIA_STATE_OPENING', 'OBS_MEDIA_STATE_BUFFERING']);
+
+// "Probe first" loads links into a staging input on its own scene, never on air
+export const PROBE_SCENE_NAME = 'Bane Probe';
+const PROBE_INPUT_PREFIX = 'Bane Probe';
+const getProbeInputName = (kind: string) => `${PROBE_INPUT_PREFIX} (${kind})`;
+export const isProbeInput = (inputName: string) => inputName.startsWith(`${PROBE_INPUT_PREFIX} (`);
+
+const HEALTH_RANK: Record<LinkHealth, number> = { checking: 0, healthy: 1, stalled: 2, failed: 3 };
+
+export const HEALTH_LABELS: Record<LinkHealth, string> = {
+  checking: 'Checking',
+  healthy: 'Healthy',
+  stalled: 'Stalled',
+  failed: 'Failed',
+};
+
+export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// The worst result across instances wins; null when nothing reported
+export const worstHealth = (results: (LinkHealth | null)[]) => results
+  .filter((r): r is LinkHealth => r !== null)
+  .reduce<LinkHealth | null>((worst, r) => (!worst || HEALTH_RANK[r] > HEALTH_RANK[worst] ? r : worst), null);
+
+// Polls an input until it plays a visible frame. Returns null if the probe was superseded.
+export const probeInputHealth = async (
+  client: ObsClient,
+  inputName: string,
+  kind: string,
+  isCancelled: () => boolean,
+  checkFrameBlack: (imageData: string) => Promise<boolean>,
+): Promise<LinkHealth | null> => {
+  const deadline = Date.now() + HEALTH_PROBE_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    await sleep(HEALTH_PROBE_INTERVAL_MS);
+    if (isCancelled()) return null;
+    try {
+      if (reportsMediaState(kind)) {
+        const { mediaState } = await client.call('GetMediaInputStatus', { inputName });
+        if (FAILED_MEDIA_STATES.has(mediaState)) return 'failed';
+        if (mediaState !== 'OBS_MEDIA_STATE_PLAYING') continue;
+      }
+      const { imageData } = await client.call('GetSourceScreenshot', {
+        sourceName: inputName,
+        imageFormat: 'png',
+        imageWidth: 64,
+        imageHeight: 36,
+      });
+      if (!(await checkFrameBlack(imageData))) return 'healthy';
+    } catch (error) {
+      console.warn(`Health probe of "${inputName}" failed`, error);
+      return 'failed';
+    }
+  }
+  return isCancelled() ? null : 'stalled';
+};
+
+// Loads settings into the per-kind staging input, creating its scene and input on first use
+export const loadStagingInput = async (client: ObsClient, kind: string, inputSettings: InputSettings) => {
+  const inputName = getProbeInputName(kind);
+  const { inputs } = await client.call('GetInputList', { inputKind: kind });
+  if (inputs.some(input => input.inputName === inputName)) {
+    await client.call('SetInputSettings', { inputName, inputSettings, overlay: true });
+    return inputName;
+  }
+
+  const { scenes } = await client.call('GetSceneList');
+  if (!scenes.some(scene => scene.sceneName === PROBE_SCENE_NAME)) {
+    await client.call('CreateScene', { sceneName: PROBE_SCENE_NAME });
+  }
+  await client.call('CreateInput', { sceneName: PROBE_SCENE_NAME, inputName, inputKind: kind, inputSettings });
+  return inputName;
+};
@@ -0,0 +1,186 @@
+import type { OBSRequestTypes, OBSResponseTypes } from 'obs-websocket-js';
+import type { CustomKind, LinkSettingKind, LinkSettings } from '../types';
+import { isNetworkUrl } from '../streamUrl';
+
+export type InputSettings = OBSRequestTypes['SetInputSettings']['inputSettings'];
+
+/**
+ * Everything the switcher needs to know about one OBS input kind: where it keeps its URL,
+ * how to write one, and which URLs it can play at all.
+ */
+export type KindAdapter = {
+  kind: string;
+  label: string;
+  // Current URL from the input's settings; '' when none
+  readUrl: (inputSettings: OBSResponseTypes['GetInputSettings']['inputSettings']) => string;
+  // Settings that make the input play `url`; '' clears it
+  buildSettings: (url: string) => InputSettings;
+  // Why this kind can't play `url`, or null
+  validateUrl: (url: string) => string | null;
+  // Input reports media state (GetMediaInputStatus); others are judged on frames alone
+  mediaStatus: boolean;
+  // Per-link extra settings that apply to this kind
+  settingsKind?: LinkSettingKind;
+  // Settings a newly created input of this kind starts from
+  createDefaults?: InputSettings;
+  custom?: boolean;
+};
+
+const readString = (value: unknown) => (typeof value === 'string' ? value : '');
+
+const requireUrl = (url: string) => (url.trim() ? null : 'URL is empty');
+
+// VLC-style playlists: an array of { value, hidden, selected }; the switcher plays a single entry
+const readPlaylist = (value: unknown) => {
+  if (!Array.isArray(value)) return '';
+  const first = value.find(item => item && typeof item === 'object' && typeof (item as { value?: unknown }).value === 'string');
+  return first ? (first as { value: string }).value : '';
+};
+
+const buildPlaylist = (url: string) => (url ? [{ value: url, hidden: false, selected: false }] : []);
+
+const BUILT_IN_ADAPTERS: KindAdapter[] = [
+  {
+    kind: 'ffmpeg_source',
+    label: 'Media Source',
+    // Network streams go in 'input' with is_local_file off; files in 'local_file'
+    readUrl: settings => (settings.is_local_file === false
+      ? readString(settings.input) || readString(settings.local_file)
+      : readString(settings.local_file) || readString(settings.input)),
+    buildSettings: (url): InputSettings => (isNetworkUrl(url) ? { input: url, is_local_file: false } : { local_file: url, is_local_file: true }),
+    validateUrl: requireUrl,
+    mediaStatus: true,
+    settingsKind: 'ffmpeg_source',
+    // Live ingest: keep the connection open off air, retry quickly and keep the buffer small
+    createDefaults: {
+      is_local_file: false,
+      buffering_mb: 1,
+      reconnect_delay_sec: 2,
+      hw_decode: true,
+      restart_on_activate: false,
+      close_when_inactive: false,
+      clear_on_media_end: false,
+    },
+  },
+  {
+    kind: 'vlc_source',
+    label: 'VLC Video Source',
+    readUrl: settings => readPlaylist(settings.playlist),
+    buildSettings: url => ({ playlist: buildPlaylist(url) }),
+    validateUrl: requireUrl,
+    mediaStatus: true,
+  },
+  {
+    kind: 'browser_source',
+    label: 'Browser Source',
+    readUrl: settings => readString(settings.url),
+    buildSettings: url => ({ url }),
+    validateUrl: url => requireUrl(url) ?? (/^(https?|file):\/\//i.test(url.trim()) ? null : 'Browser sources need an http(s):// or file:// URL'),
+    mediaStatus: false,
+    settingsKind: 'browser_source',
+    // Full canvas, audio through OBS so it can be mixed, and the page keeps running off air
+    createDefaults: {
+      width: 1920,
+      height: 1080,
+      reroute_audio: true,
+      shutdown: false,
+      restart_when_active: false,
+    },
+  },
+  {
+    kind: 'image_source',
+    label: 'Image',
+    readUrl: settings => readString(settings.file),
+    buildSettings: url => ({ file: url }),
+    validateUrl: url => requireUrl(url) ?? (isNetworkUrl(url.trim()) ? 'Image sources only load local files' : null),
+    mediaStatus: false,
+  },
+];
+
+export const BUILT_IN_KINDS = BUILT_IN_ADAPTERS.map(adapter => adapter.kind);
+
+const registry = new Map(BUILT_IN_ADAPTERS.map(adapter => [adapter.kind, adapter]));
+
+// Plugins can register their own adapter; a built-in of the same kind is replaced
+export const registerKindAdapter = (adapter: KindAdapter) => {
+  registry.set(adapter.kind, adapter);
+};
+
+export const customKindAdapter = ({ kind, label, urlKey, localFlagKey, playlist, mediaStatus }: CustomKind): KindAdapter => ({
+  kind,
+  label,
+  readUrl: settings => (playlist ? readPlaylist(settings[urlKey]) : readString(settings[urlKey])),
+  buildSettings: url => ({
+    [urlKey]: playlist ? buildPlaylist(url) : url,
+    ...(localFlagKey ? { [localFlagKey]: !isNetworkUrl(url) } : {}),
+  }),
+  validateUrl: requireUrl,
+  mediaStatus,
+  custom: true,
+});
+
+// Replaces every previously set custom kind; built-in kinds can't be shadowed this way
+export const applyCustomKinds = (kinds: CustomKind[]) => {
+  registry.forEach((adapter, kind) => {
+    if (adapter.custom) registry.delete(kind);
+  });
+  kinds
+    .filter(kind => !BUILT_IN_KINDS.includes(kind.kind))
+    .forEach(kind => registry.set(kind.kind, customKindAdapter(kind)));
+};
+
+// OBS appends a version on some kinds and platforms (e.g. "browser_source_v2"); adapters are keyed unversioned
+const unversionedKind = (kind: string) => kind.replace(/_v\d+$/, '');
+
+export const getKindAdapter = (kind: string) => registry.get(kind) ?? registry.get(unversionedKind(kind));
+
+export const listKindAdapters = () => [...registry.values()];
+
+export const isSupportedKind = (kind: string) => !!getKindAdapter(kind);
+
+export const reportsMediaState = (kind: string) => !!getKindAdapter(kind)?.mediaStatus;
+
+// Settings to send with SetInputSettings so the input plays `url`, plus the link's per-kind extras
+export const buildInputSettings = (kind: string, url: string, linkSettings?: LinkSettings): InputSettings => {
+  const adapter = getKindAdapter(kind);
+  if (!adapter) return { local_file: url, url };
+  const extra = (adapter.settingsKind && linkSettings?.[adapter.settingsKind]) || {};
+  // OBS ignores a browser source's fps value unless custom fps is switched on
+  const fpsCustom: InputSettings = adapter.settingsKind === 'browser_source' && 'fps' in extra ? { fps_custom: true } : {};
+  return { ...extra, ...fpsCustom, ...adapter.buildSettings(url) };
+};
+
+// Settings for a new input of this kind: its ingest defaults, then `url` and the link's extras if given
+export const buildCreateSettings = (kind: string, url: string, linkSettings?: LinkSettings): InputSettings => ({
+  ...getKindAdapter(kind)?.createDefaults,
+  ...(url ? buildInputSettings(kind, url, linkSettings) : {}),
+});
+
+// Reads the URL an input currently plays
+export const extractInputUrl = (kind: string, inputSettings: OBSResponseTypes['GetInputSettings']['inputSettings']) => {
+  const adapter = getKindAdapter(kind);
+  if (adapter) return adapter.readUrl(inputSettings);
+  return readString(inputSettings.local_file) || readString(inputSettings.url);
+};
+
+export const validateInputUrl = (kind: string, url: string) => getKindAdapter(kind)?.validateUrl(url) ?? null;
+
+const CUSTOM_KIND_PATTERN = /^[a-z0-9_.-]+$/i;
+
+export const sanitizeCustomKinds = (raw: unknown) => (Array.isArray(raw) ? raw : [])
+  .map((entry): CustomKind | null => {
+    if (!entry || typeof entry !== 'object') return null;
+    const { kind, label, urlKey, localFlagKey, playlist, mediaStatus } = entry as Record<string, unknown>;
+    if (typeof kind !== 'string' || !CUSTOM_KIND_PATTERN.test(kind) || typeof urlKey !== 'string' || !urlKey) return null;
+    return {
+      kind,
+      label: typeof label === 'string' && label ? label : kind,
+      urlKey,
+      localFlagKey: typeof localFlagKey === 'string' && localFlagKey ? localFlagKey : undefined,
+      playlist: playlist === true,
+      mediaStatus: mediaStatus === true,
+    };
+  })
+  .filter((kind): kind is CustomKind => kind !== null);
+
+export const isValidKindId = (kind: string) => CUSTOM_KIND_PATTERN.test(kind);
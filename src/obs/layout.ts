@@ -0,0 +1,67 @@
+import type { OBSRequestTypes, OBSResponseTypes } from 'obs-websocket-js';
+
+export type SceneItemTransform = OBSRequestTypes['SetSceneItemTransform']['sceneItemTransform'];
+
+export type LayoutPreset = 'full' | 'left' | 'right' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'pip';
+
+export const LAYOUT_PRESET_LABELS: Record<LayoutPreset, string> = {
+  full: 'Full Screen',
+  left: 'Left Half',
+  right: 'Right Half',
+  'top-left': 'Top Left',
+  'top-right': 'Top Right',
+  'bottom-left': 'Bottom Left',
+  'bottom-right': 'Bottom Right',
+  pip: 'Picture in Picture',
+};
+
+export const LAYOUT_PRESETS = Object.keys(LAYOUT_PRESET_LABELS) as LayoutPreset[];
+
+// Box per preset as fractions of the canvas: x, y, width, height
+const LAYOUT_BOXES: Record<LayoutPreset, [number, number, number, number]> = {
+  full: [0, 0, 1, 1],
+  left: [0, 0, 0.5, 1],
+  right: [0.5, 0, 0.5, 1],
+  'top-left': [0, 0, 0.5, 0.5],
+  'top-right': [0.5, 0, 0.5, 0.5],
+  'bottom-left': [0, 0.5, 0.5, 0.5],
+  'bottom-right': [0.5, 0.5, 0.5, 0.5],
+  pip: [0.7, 0.7, 0.28, 0.28],
+};
+
+// OBS alignment flags: left (1) | top (4); 0 is centre
+const ALIGN_TOP_LEFT = 5;
+const ALIGN_CENTER = 0;
+
+// Fits the source inside the preset's box, letterboxed and centred, whatever resolution it turns out to be
+export const layoutTransform = (preset: LayoutPreset, canvasWidth: number, canvasHeight: number): SceneItemTransform => {
+  const [x, y, width, height] = LAYOUT_BOXES[preset];
+  return {
+    positionX: Math.round(x * canvasWidth),
+    positionY: Math.round(y * canvasHeight),
+    rotation: 0,
+    alignment: ALIGN_TOP_LEFT,
+    boundsType: 'OBS_BOUNDS_SCALE_INNER',
+    boundsAlignment: ALIGN_CENTER,
+    boundsWidth: Math.round(width * canvasWidth),
+    boundsHeight: Math.round(height * canvasHeight),
+    cropLeft: 0,
+    cropRight: 0,
+    cropTop: 0,
+    cropBottom: 0,
+  };
+};
+
+const WRITABLE_FIELDS = [
+  'positionX', 'positionY', 'rotation', 'scaleX', 'scaleY', 'alignment',
+  'boundsType', 'boundsAlignment', 'cropLeft', 'cropRight', 'cropTop', 'cropBottom',
+];
+
+// The part of a read transform SetSceneItemTransform accepts back. OBS rejects a bounds size below 1,
+// which is what it reports when bounds are off, so the size only travels along with real bounds.
+export const writableTransform = (transform: OBSResponseTypes['GetSceneItemTransform']['sceneItemTransform']): SceneItemTransform => {
+  const fields = transform.boundsType && transform.boundsType !== 'OBS_BOUNDS_NONE'
+    ? [...WRITABLE_FIELDS, 'boundsWidth', 'boundsHeight']
+    : WRITABLE_FIELDS;
+  return Object.fromEntries(fields.filter(field => transform[field] !== undefined).map(field => [field, transform[field]]));
+};
@@ -0,0 +1,57 @@
+import type { ObsClient } from './client';
+
+// Stream, record and render health of one instance, as of `sampledAt`
+export type OutputStatus = {
+  streaming: boolean;
+  // Stream output lost its connection and OBS is retrying
+  streamReconnecting: boolean;
+  streamDurationMs: number;
+  streamBytes: number;
+  // Averaged since the previous sample; null on the first sample of a stream
+  bitrateKbps: number | null;
+  // Frames the stream output dropped (network) out of those it sent
+  droppedFrames: number;
+  totalFrames: number;
+  recording: boolean;
+  recordPaused: boolean;
+  recordDurationMs: number;
+  cpuUsage: number;
+  activeFps: number;
+  // Frames OBS missed rendering (lag) out of those it rendered
+  renderSkippedFrames: number;
+  renderTotalFrames: number;
+  sampledAt: number;
+};
+
+export const framePercent = (skipped: number, total: number) => (total > 0 ? (skipped / total) * 100 : 0);
+
+// One GetStreamStatus/GetRecordStatus/GetStats round; bitrate comes from the byte count since `previous`
+export async function readOutputStatus(client: ObsClient, previous: OutputStatus | null): Promise<OutputStatus> {
+  const [stream, record, stats] = await Promise.all([
+    client.call('GetStreamStatus'),
+    client.call('GetRecordStatus'),
+    client.call('GetStats'),
+  ]);
+  const sampledAt = Date.now();
+  const elapsed = previous ? sampledAt - previous.sampledAt : 0;
+  const bitrateKbps = stream.outputActive && previous?.streaming && elapsed > 0 && stream.outputBytes >= previous.streamBytes
+    ? ((stream.outputBytes - previous.streamBytes) * 8) / elapsed
+    : null;
+  return {
+    streaming: stream.outputActive,
+    streamReconnecting: stream.outputReconnecting,
+    streamDurationMs: stream.outputDuration,
+    streamBytes: stream.outputBytes,
+    bitrateKbps,
+    droppedFrames: stream.outputSkippedFrames,
+    totalFrames: stream.outputTotalFrames,
+    recording: record.outputActive,
+    recordPaused: record.outputPaused,
+    recordDurationMs: record.outputDuration,
+    cpuUsage: stats.cpuUsage,
+    activeFps: stats.activeFps,
+    renderSkippedFrames: stats.renderSkippedFrames,
+    renderTotalFrames: stats.renderTotalFrames,
+    sampledAt,
+  };
+}
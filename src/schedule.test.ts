@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_RUN_OF_SHOW, cueDueTimes, formatDuration, nextCueIndex, parseClockTime, parseDuration, resetCues, sanitizeRunOfShow } from './schedule';
+import type { ScheduleCue } from './types';
+
+const cue = (fields: Partial<ScheduleCue>): ScheduleCue => ({
+  id: fields.id ?? 'c',
+  linkId: 'slate',
+  sourceName: 'Camera',
+  timing: 'after',
+  afterMs: 0,
+  status: 'pending',
+  ...fields,
+});
+
+describe('parseClockTime', () => {
+  const now = new Date(2026, 0, 1, 14, 0, 0).getTime();
+
+  it('picks the next time the clock shows it', () => {
+    expect(parseClockTime('14:30', now)).toBe(new Date(2026, 0, 1, 14, 30, 0).getTime());
+    expect(parseClockTime(' 9:05:30 ', now)).toBe(new Date(2026, 0, 2, 9, 5, 30).getTime());
+    // Right now has already passed
+    expect(parseClockTime('14:00', now)).toBe(new Date(2026, 0, 2, 14, 0, 0).getTime());
+  });
+
+  it('rejects anything else', () => {
+    expect(parseClockTime('24:00', now)).toBeNull();
+    expect(parseClockTime('12:60', now)).toBeNull();
+    expect(parseClockTime('noon', now)).toBeNull();
+  });
+});
+
+describe('parseDuration', () => {
+  it('reads seconds, clock durations and units', () => {
+    expect(parseDuration('90')).toBe(90000);
+    expect(parseDuration('1:30')).toBe(90000);
+    expect(parseDuration('1:00:00')).toBe(3600000);
+    expect(parseDuration('1h 30m 10s')).toBe(5410000);
+    expect(parseDuration('45s')).toBe(45000);
+    expect(parseDuration('2M')).toBe(120000);
+  });
+
+  it('rejects out-of-range and unreadable durations', () => {
+    expect(parseDuration('')).toBeNull();
+    expect(parseDuration('1:75')).toBeNull();
+    expect(parseDuration('1:75:00')).toBeNull();
+    expect(parseDuration('soon')).toBeNull();
+  });
+
+  it('round-trips through formatDuration', () => {
+    expect(formatDuration(45000)).toBe('0:45');
+    expect(formatDuration(725000)).toBe('12:05');
+    expect(formatDuration(3723000)).toBe('1:02:03');
+    expect(formatDuration(-5)).toBe('0:00');
+    expect(formatDuration(parseDuration('1h 2m 3s')!)).toBe('1:02:03');
+  });
+});
+
+describe('cueDueTimes', () => {
+  it('leaves relative cues unplaced until the run starts', () => {
+    expect(cueDueTimes([cue({ afterMs: 1000 }), cue({ timing: 'at', at: 5000, afterMs: undefined })], null)).toEqual([null, 5000]);
+  });
+
+  it('counts relative cues from the previous cue, never from before Run', () => {
+    const cues = [
+      cue({ id: 'a', timing: 'at', at: 1000, afterMs: undefined }),
+      cue({ id: 'b', afterMs: 500 }),
+      cue({ id: 'c', afterMs: 500 }),
+    ];
+    expect(cueDueTimes(cues, 2000)).toEqual([1000, 2500, 3000]);
+  });
+
+  it('counts from when a cue actually fired and skips skipped cues', () => {
+    const cues = [
+      cue({ id: 'a', afterMs: 1000, status: 'fired', firedAt: 1800 }),
+      cue({ id: 'b', afterMs: 1000, status: 'skipped' }),
+      cue({ id: 'c', afterMs: 1000 }),
+    ];
+    expect(cueDueTimes(cues, 0)).toEqual([1000, 2800, 2800]);
+  });
+});
+
+describe('run of show state', () => {
+  it('finds the next pending cue and resets fired ones', () => {
+    const cues = [cue({ id: 'a', status: 'fired', firedAt: 1, outcome: 'Healthy' }), cue({ id: 'b' })];
+    expect(nextCueIndex(cues)).toBe(1);
+    expect(resetCues(cues)[0]).toEqual(cue({ id: 'a', firedAt: undefined, outcome: undefined }));
+    expect(nextCueIndex([])).toBe(-1);
+  });
+
+  it('drops cues that can not be timed when loading', () => {
+    expect(sanitizeRunOfShow(null)).toBe(EMPTY_RUN_OF_SHOW);
+    const loaded = sanitizeRunOfShow({
+      running: true,
+      anchorAt: 10,
+      cues: [
+        { id: 'a', linkId: 'l', sourceName: 's', timing: 'at', at: 5, status: 'done' },
+        { id: 'b', linkId: 'l', sourceName: 's', timing: 'after', afterMs: -1 },
+        { id: 'c', linkId: 'l', sourceName: 's', timing: 'at' },
+      ],
+    });
+    expect(loaded).toEqual({
+      running: true,
+      anchorAt: 10,
+      cues: [{ id: 'a', linkId: 'l', sourceName: 's', timing: 'at', at: 5, afterMs: undefined, status: 'pending', firedAt: undefined, outcome: undefined }],
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import type { CueStatus, ScheduleCue } from './types';
+
+export type RunOfShow = {
+  cues: ScheduleCue[];
+  running: boolean;
+  // When Run was last pressed; relative cues never count from before it
+  anchorAt: number | null;
+};
+
+export const EMPTY_RUN_OF_SHOW: RunOfShow = { cues: [], running: false, anchorAt: null };
+
+// A cue more than this late (page closed, laptop asleep) holds the run instead of firing
+export const SCHEDULE_LATE_GRACE_MS = 60000;
+
+const CUE_STATUSES: CueStatus[] = ['pending', 'fired', 'failed', 'skipped'];
+
+// Due time of every cue; null for relative cues that can't be placed until the run starts
+export const cueDueTimes = (cues: ScheduleCue[], anchorAt: number | null) => {
+  const due: (number | null)[] = [];
+  let previous: number | null = anchorAt;
+  cues.forEach(cue => {
+    let at: number | null;
+    if (cue.timing === 'at') {
+      at = cue.at ?? null;
+    } else {
+      const base = previous !== null && anchorAt !== null ? Math.max(previous, anchorAt) : previous;
+      at = base !== null ? base + (cue.afterMs ?? 0) : null;
+    }
+    due.push(at);
+    // Skipped cues don't move the clock; fired ones count from when they actually went
+    if (cue.status !== 'skipped') previous = cue.firedAt ?? at;
+  });
+  return due;
+};
+
+export const nextCueIndex = (cues: ScheduleCue[]) => cues.findIndex(c => c.status === 'pending');
+
+export const resetCues = (cues: ScheduleCue[]) =>
+  cues.map((cue): ScheduleCue => ({ ...cue, status: 'pending', firedAt: undefined, outcome: undefined }));
+
+// "14:30" or "14:30:15" → the next time the clock shows it
+export const parseClockTime = (text: string, now = Date.now()) => {
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(text.trim());
+  if (!match) return null;
+  const [hours, minutes, seconds] = [match[1], match[2], match[3] ?? '0'].map(Number);
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+  const at = new Date(now);
+  at.setHours(hours, minutes, seconds, 0);
+  if (at.getTime() <= now) at.setDate(at.getDate() + 1);
+  return at.getTime();
+};
+
+// "90", "1:30", "1:00:00" or "1h 30m 10s" → milliseconds
+export const parseDuration = (text: string) => {
+  const value = text.trim().toLowerCase();
+  if (!value) return null;
+  if (/^\d+$/.test(value)) return Number(value) * 1000;
+
+  const clock = /^(?:(\d+):)?(\d{1,2}):(\d{2})$/.exec(value);
+  if (clock) {
+    const [hours, minutes, seconds] = [clock[1] ?? '0', clock[2], clock[3]].map(Number);
+    return seconds > 59 || (clock[1] !== undefined && minutes > 59) ? null : ((hours * 60 + minutes) * 60 + seconds) * 1000;
+  }
+
+  const units = /^(?:(\d+)\s*h)?\s*(?:(\d+)\s*m)?\s*(?:(\d+)\s*s)?$/.exec(value);
+  if (!units || units.slice(1).every(part => part === undefined)) return null;
+  const [hours, minutes, seconds] = units.slice(1).map(part => Number(part ?? 0));
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000;
+};
+
+// 0:45, 12:05, 1:02:03
+export const formatDuration = (ms: number) => {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+const sanitizeCue = (raw: unknown): ScheduleCue | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const { id, linkId, sourceName, timing, at, afterMs, status, firedAt, outcome } = raw as Record<string, unknown>;
+  if (typeof id !== 'string' || typeof linkId !== 'string' || typeof sourceName !== 'string') return null;
+  if (timing === 'at' ? typeof at !== 'number' : timing !== 'after' || typeof afterMs !== 'number' || afterMs < 0) return null;
+  return {
+    id,
+    linkId,
+    sourceName,
+    timing: timing as ScheduleCue['timing'],
+    at: timing === 'at' ? at as number : undefined,
+    afterMs: timing === 'after' ? afterMs as number : undefined,
+    status: CUE_STATUSES.includes(status as CueStatus) ? status as CueStatus : 'pending',
+    firedAt: typeof firedAt === 'number' ? firedAt : undefined,
+    outcome: typeof outcome === 'string' ? outcome : undefined,
+  };
+};
+
+export const sanitizeRunOfShow = (raw: unknown): RunOfShow => {
+  if (!raw || typeof raw !== 'object') return EMPTY_RUN_OF_SHOW;
+  const { cues, running, anchorAt } = raw as Record<string, unknown>;
+  return {
+    cues: (Array.isArray(cues) ? cues : []).map(sanitizeCue).filter((cue): cue is ScheduleCue => cue !== null),
+    running: running === true,
+    anchorAt: typeof anchorAt === 'number' ? anchorAt : null,
+  };
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { isNetworkUrl, parseQuery, parseStreamUrl, readSrtOptions, writeSrtOptions } from './streamUrl';
+
+describe('parseStreamUrl', () => {
+  it('keeps "#" in SRT query values, as in the access-control streamid', () => {
+    const parsed = parseStreamUrl('srt://ingest.example:9000?streamid=#!::r=live/cam1,m=publish&latency=200000');
+    expect(parsed).toMatchObject({ protocol: 'srt', host: 'ingest.example', port: 9000, error: null });
+    expect(parsed.query).toBe('streamid=#!::r=live/cam1,m=publish&latency=200000');
+    expect(new Map(parseQuery(parsed.query!)).get('streamid')).toBe('#!::r=live/cam1,m=publish');
+  });
+
+  it('still drops fragments from other protocols', () => {
+    expect(parseStreamUrl('https://cdn.example/live/index.m3u8#t=10')).toMatchObject({ protocol: 'hls', path: '/live/index.m3u8' });
+    expect(parseStreamUrl('rtmp://live.example/app/key?x=1#frag').query).toBe('x=1');
+  });
+
+  it('reads host, port and path of network URLs', () => {
+    expect(parseStreamUrl('rtmp://user:pw@live.example:1935/app/key')).toMatchObject({
+      protocol: 'rtmp', network: true, host: 'live.example', port: 1935, path: '/app/key', error: null, warnings: [],
+    });
+    expect(parseStreamUrl('rtsp://[::1]:554/stream')).toMatchObject({ protocol: 'rtsp', host: '[::1]', port: 554 });
+    expect(parseStreamUrl('rtmpte://live.example/app/key').protocol).toBe('rtmp');
+    expect(parseStreamUrl('mmsh://media.example/stream').protocol).toBe('mms');
+  });
+
+  it('needs a host and a port where the protocol does', () => {
+    expect(parseStreamUrl('rtmp://:1935/app/key').error).toBe('Missing host');
+    expect(parseStreamUrl('srt://cam.example').error).toBe('SRT needs a port');
+    expect(parseStreamUrl('srt://cam.example:99999').error).toBe('Invalid port "99999"');
+    expect(parseStreamUrl('srt://:9000?mode=listener').error).toBeNull();
+    expect(parseStreamUrl('udp://@:5000').error).toBeNull();
+    expect(parseStreamUrl('srt://:9000').error).toBe('Missing host');
+  });
+
+  it('checks SRT options', () => {
+    expect(parseStreamUrl('srt://cam:9000?latency=fast').error).toBe('SRT latency must be a whole number');
+    expect(parseStreamUrl('srt://cam:9000?mode=push').error).toBe('SRT mode must be caller, listener, rendezvous');
+    expect(parseStreamUrl('srt://cam:9000?passphrase=short').error).toBe('SRT passphrase must be 10–79 characters');
+    expect(parseStreamUrl('srt://cam:9000?latency=200').warnings).toEqual(['latency=200 is in microseconds for ffmpeg; did you mean 200000?']);
+  });
+
+  it('flags malformed and unsupported URLs', () => {
+    expect(parseStreamUrl('').error).toBe('URL is empty');
+    expect(parseStreamUrl('rtmp:/live.example/app').error).toBe('Expected "//" after "rtmp:"');
+    expect(parseStreamUrl('rtmp://live.example/app/my key').error).toBe('Contains spaces');
+    expect(parseStreamUrl('gopher://old.example/x')).toMatchObject({ protocol: null, network: true, error: 'Unsupported protocol "gopher"' });
+    expect(parseStreamUrl('RTMP://live.example/app/key').warnings).toEqual(['Protocol is usually written in lower case ("rtmp://")']);
+    expect(parseStreamUrl('rtmp://live.example').warnings).toEqual(['No app or stream key in the path']);
+    expect(parseStreamUrl(' rtmp://live.example/app/key').warnings).toEqual(['Leading or trailing spaces will be sent as typed']);
+  });
+
+  it('reads file URLs and local paths', () => {
+    expect(parseStreamUrl('file:///media/clip.mp4')).toMatchObject({ protocol: 'file', network: false, path: '/media/clip.mp4' });
+    expect(parseStreamUrl('file:/media/clip.mp4').error).toBe('file URLs start with "file:///"');
+    expect(parseStreamUrl('/media/clip.mp4')).toMatchObject({ protocol: 'path', error: null });
+    expect(parseStreamUrl('C:\\Videos\\clip.mp4')).toMatchObject({ protocol: 'path', error: null });
+    expect(parseStreamUrl('\\\\nas\\share\\clip.mp4')).toMatchObject({ protocol: 'path', error: null });
+    expect(parseStreamUrl('C:Videos\\clip.mp4').error).toBe('Missing "\\" after the drive letter ("C:\\…")');
+    expect(parseStreamUrl('clip.mp4').error).toBe('Not a URL or an absolute file path');
+  });
+});
+
+describe('isNetworkUrl', () => {
+  it('treats any scheme but file as the network', () => {
+    expect(isNetworkUrl('srt://cam:9000')).toBe(true);
+    expect(isNetworkUrl('whatever+ffmpeg://x')).toBe(true);
+    expect(isNetworkUrl('file:///media/clip.mp4')).toBe(false);
+    expect(isNetworkUrl('C:\\Videos\\clip.mp4')).toBe(false);
+  });
+});
+
+describe('SRT options', () => {
+  it('reads the four options from the query', () => {
+    expect(readSrtOptions('srt://cam:9000?mode=caller&streamid=%23!%3A%3Ar%3Dlive&latency=200000')).toEqual({
+      latency: '200000', passphrase: '', streamid: '#!::r=live', mode: 'caller',
+    });
+  });
+
+  it('rewrites them in place and keeps other parameters and placeholders', () => {
+    const url = 'srt://cam:9000?pbkeylen=16&latency=100000&mode=caller';
+    expect(writeSrtOptions(url, { latency: '200000', mode: '', passphrase: '{key}' }))
+      .toBe('srt://cam:9000?pbkeylen=16&latency=200000&passphrase={key}');
+    expect(writeSrtOptions('srt://cam:9000?latency=1', { latency: '' })).toBe('srt://cam:9000');
+  });
+});
@@ -0,0 +1,227 @@
+// Protocol-aware parsing of link URLs: what a link points at and the mistakes worth flagging before it goes to OBS
+export type StreamProtocol = 'rtmp' | 'rtmps' | 'srt' | 'rtsp' | 'rist' | 'udp' | 'rtp' | 'tcp' | 'mms' | 'hls' | 'http' | 'https' | 'file' | 'path';
+
+export const STREAM_PROTOCOL_LABELS: Record<StreamProtocol, string> = {
+  rtmp: 'RTMP',
+  rtmps: 'RTMPS',
+  srt: 'SRT',
+  rtsp: 'RTSP',
+  rist: 'RIST',
+  udp: 'UDP',
+  rtp: 'RTP',
+  tcp: 'TCP',
+  mms: 'MMS',
+  hls: 'HLS',
+  http: 'HTTP',
+  https: 'HTTPS',
+  file: 'File URL',
+  path: 'Local File',
+};
+
+export type ParsedStreamUrl = {
+  protocol: StreamProtocol | null;
+  // Played from the network rather than from disk
+  network: boolean;
+  host?: string;
+  port?: number;
+  path?: string;
+  // Raw query without the "?"
+  query?: string;
+  // Why OBS can't play this as typed; null when it looks right
+  error: string | null;
+  warnings: string[];
+};
+
+// Scheme -> protocol it's shown and checked as; the RTMP tunnelled/encrypted and MMS variants are ffmpeg's
+const SCHEMES: Record<string, StreamProtocol> = {
+  rtmp: 'rtmp',
+  rtmpt: 'rtmp',
+  rtmpe: 'rtmp',
+  rtmpte: 'rtmp',
+  rtmps: 'rtmps',
+  rtmpts: 'rtmps',
+  srt: 'srt',
+  rtsp: 'rtsp',
+  rtsps: 'rtsp',
+  rist: 'rist',
+  udp: 'udp',
+  rtp: 'rtp',
+  tcp: 'tcp',
+  mms: 'mms',
+  mmsh: 'mms',
+  mmst: 'mms',
+  http: 'http',
+  https: 'https',
+  file: 'file',
+};
+// Listeners and multicast over these have no sensible default port
+const PORT_REQUIRED = new Set<StreamProtocol>(['srt', 'rist', 'udp', 'rtp', 'tcp']);
+
+export const SRT_MODES = ['caller', 'listener', 'rendezvous'];
+// libsrt rejects passphrases outside this range
+const SRT_PASSPHRASE_MIN = 10;
+const SRT_PASSPHRASE_MAX = 79;
+
+const WINDOWS_PATH = /^[a-z]:[\\/]/i;
+const UNC_PATH = /^\\\\[^\\]+\\[^\\]+/;
+
+const invalid = (error: string, protocol: StreamProtocol | null = null, network = false): ParsedStreamUrl =>
+  ({ protocol, network, error, warnings: [] });
+
+const parseLocalPath = (path: string): ParsedStreamUrl => {
+  if (WINDOWS_PATH.test(path) || UNC_PATH.test(path) || path.startsWith('/') || path.startsWith('~/')) {
+    return { protocol: 'path', network: false, path, error: null, warnings: [] };
+  }
+  if (/^[a-z]:[^\\/]/i.test(path)) return invalid(`Missing "\\" after the drive letter ("${path.slice(0, 2)}\\…")`, 'path');
+  return invalid('Not a URL or an absolute file path', 'path');
+};
+
+// Query string as ordered key/value pairs; values are decoded
+export const parseQuery = (query: string) => query.split('&').filter(Boolean).map(pair => {
+  const index = pair.indexOf('=');
+  const key = index === -1 ? pair : pair.slice(0, index);
+  const raw = index === -1 ? '' : pair.slice(index + 1);
+  try {
+    return [key, decodeURIComponent(raw)] as const;
+  } catch {
+    return [key, raw] as const;
+  }
+});
+
+const checkSrtQuery = (query: string, warnings: string[]) => {
+  const params = new Map(parseQuery(query));
+  const latency = params.get('latency');
+  if (latency !== undefined && !/^\d+$/.test(latency)) return 'SRT latency must be a whole number';
+  const mode = params.get('mode');
+  if (mode !== undefined && !SRT_MODES.includes(mode)) return `SRT mode must be ${SRT_MODES.join(', ')}`;
+  const passphrase = params.get('passphrase');
+  if (passphrase !== undefined && (passphrase.length < SRT_PASSPHRASE_MIN || passphrase.length > SRT_PASSPHRASE_MAX)) {
+    return `SRT passphrase must be ${SRT_PASSPHRASE_MIN}–${SRT_PASSPHRASE_MAX} characters`;
+  }
+  // ffmpeg reads latency in microseconds; a small number was almost certainly meant as milliseconds
+  if (latency !== undefined && Number(latency) > 0 && Number(latency) < 1000) {
+    warnings.push(`latency=${latency} is in microseconds for ffmpeg; did you mean ${Number(latency) * 1000}?`);
+  }
+  return null;
+};
+
+export const parseStreamUrl = (input: string): ParsedStreamUrl => {
+  const url = input.trim();
+  if (!url) return invalid('URL is empty');
+  if (url !== input) return { ...parseStreamUrl(url), warnings: ['Leading or trailing spaces will be sent as typed'] };
+
+  const schemeMatch = /^([a-z][a-z0-9+.-]*):(\/*)(.*)$/i.exec(url);
+  // Windows drive letters look like a one-letter scheme
+  if (!schemeMatch || schemeMatch[1].length === 1) return parseLocalPath(url);
+
+  const scheme = schemeMatch[1].toLowerCase();
+  const slashes = schemeMatch[2];
+  const rest = schemeMatch[3];
+  if (!(scheme in SCHEMES)) return invalid(`Unsupported protocol "${schemeMatch[1]}"`, null, scheme !== 'file' && slashes === '//');
+
+  const warnings: string[] = [];
+  if (schemeMatch[1] !== scheme) warnings.push(`Protocol is usually written in lower case ("${scheme}://")`);
+
+  if (scheme === 'file') {
+    if (slashes.length < 2) return invalid('file URLs start with "file:///"', 'file');
+    const path = slashes.length === 3 ? `/${rest}` : rest;
+    if (!rest) return invalid('file URL has no path', 'file');
+    return { protocol: 'file', network: false, path, error: null, warnings };
+  }
+
+  const protocol = SCHEMES[scheme];
+  if (slashes !== '//') return invalid(`Expected "//" after "${scheme}:"`, protocol, true);
+  if (/\s/.test(rest)) return invalid('Contains spaces', protocol, true);
+
+  // SRT has no fragment: "#" is literal there, as in the access-control streamid "#!::r=live,m=publish"
+  const withoutFragment = (text: string) => (scheme === 'srt' ? text : text.replace(/#.*$/, ''));
+  const authorityEnd = rest.search(scheme === 'srt' ? /[/?]/ : /[/?#]/);
+  const authority = authorityEnd === -1 ? rest : rest.slice(0, authorityEnd);
+  const afterAuthority = authorityEnd === -1 ? '' : rest.slice(authorityEnd);
+  const hostPort = authority.slice(authority.lastIndexOf('@') + 1);
+  const portMatch = /^(\[[^\]]*\]|[^:]*)(?::(.*))?$/.exec(hostPort);
+  const host = portMatch?.[1] ?? '';
+  const portText = portMatch?.[2];
+  const queryIndex = afterAuthority.indexOf('?');
+  const path = withoutFragment(queryIndex === -1 ? afterAuthority : afterAuthority.slice(0, queryIndex));
+  const query = queryIndex === -1 ? '' : withoutFragment(afterAuthority.slice(queryIndex + 1));
+
+  // Listeners may leave the host empty ("srt://:9000?mode=listener", "udp://@:5000")
+  const listener = PORT_REQUIRED.has(protocol)
+    && (new Map(parseQuery(query)).get('mode') === 'listener' || protocol === 'udp' || protocol === 'rist' || protocol === 'rtp');
+  if (!host && !listener) return invalid('Missing host', protocol, true);
+  if (portText !== undefined && (!/^\d+$/.test(portText) || Number(portText) < 1 || Number(portText) > 65535)) {
+    return invalid(`Invalid port "${portText}"`, protocol, true);
+  }
+  if (portText === undefined && PORT_REQUIRED.has(protocol)) return invalid(`${STREAM_PROTOCOL_LABELS[protocol]} needs a port`, protocol, true);
+
+  if (scheme === 'srt') {
+    const error = checkSrtQuery(query, warnings);
+    if (error) return invalid(error, protocol, true);
+  }
+  if ((protocol === 'rtmp' || protocol === 'rtmps') && path.split('/').filter(Boolean).length < 1) {
+    warnings.push('No app or stream key in the path');
+  }
+
+  const hls = (scheme === 'http' || scheme === 'https') && /\.m3u8$/i.test(path);
+  return {
+    protocol: hls ? 'hls' : protocol,
+    network: true,
+    host,
+    port: portText !== undefined ? Number(portText) : undefined,
+    path,
+    query,
+    error: null,
+    warnings,
+  };
+};
+
+// Plays from the network: any "scheme://" but file://, recognised or not, since ffmpeg knows more than the checks do.
+// Used to pick local vs network settings.
+export const isNetworkUrl = (url: string) => {
+  const scheme = /^([a-z][a-z0-9+.-]+):\/\//i.exec(url.trim())?.[1].toLowerCase();
+  return !!scheme && scheme !== 'file';
+};
+
+// --- Structured SRT options ---
+export type SrtOptions = {
+  latency: string;
+  passphrase: string;
+  streamid: string;
+  mode: string;
+};
+
+export const SRT_OPTION_KEYS = ['latency', 'passphrase', 'streamid', 'mode'] as const;
+
+export const readSrtOptions = (url: string): SrtOptions => {
+  const queryIndex = url.indexOf('?');
+  const params = new Map(queryIndex === -1 ? [] : parseQuery(url.slice(queryIndex + 1)));
+  return {
+    latency: params.get('latency') ?? '',
+    passphrase: params.get('passphrase') ?? '',
+    streamid: params.get('streamid') ?? '',
+    mode: params.get('mode') ?? '',
+  };
+};
+
+// Keeps "{name}" placeholders readable instead of percent-encoding their braces
+const encodeQueryValue = (value: string) => encodeURIComponent(value).replace(/%7B([A-Za-z0-9_]+)%7D/g, '{$1}');
+
+// Rewrites the four SRT options in the query; every other parameter keeps its place and spelling
+export const writeSrtOptions = (url: string, options: Partial<SrtOptions>) => {
+  const queryIndex = url.indexOf('?');
+  const base = queryIndex === -1 ? url : url.slice(0, queryIndex);
+  const pairs = (queryIndex === -1 ? '' : url.slice(queryIndex + 1)).split('&').filter(Boolean);
+  const keyOf = (pair: string) => pair.split('=')[0];
+
+  const next = pairs.filter(pair => !(keyOf(pair) in options) || options[keyOf(pair) as keyof SrtOptions]);
+  SRT_OPTION_KEYS.forEach(key => {
+    const value = options[key];
+    if (!value) return;
+    const pair = `${key}=${encodeQueryValue(value)}`;
+    const index = next.findIndex(p => keyOf(p) === key);
+    if (index === -1) next.push(pair);
+    else next[index] = pair;
+  });
+  return next.length > 0 ? `${base}?${next.join('&')}` : base;
+};
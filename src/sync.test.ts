@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { keepLocalBindings, libraryFingerprint, toLibraryContent } from './sync';
+import type { LinkItem } from './types';
+
+const local: LinkItem[] = [
+  { id: 'cam', name: 'Camera', url: 'srt://cam:9000', hotkey: 'KeyC', midi: { type: 'note', channel: 1, number: 36 } },
+  { id: 'slate', name: 'Slate', url: 'srt://slate:9000', hotkey: 'KeyS' },
+];
+
+describe('shared library', () => {
+  it('leaves hotkey and MIDI bindings out of what it shares', () => {
+    const content = toLibraryContent(local, [], [], []);
+    expect(content.links.map(link => [link.hotkey, link.midi])).toEqual([[undefined, undefined], [undefined, undefined]]);
+    expect(JSON.stringify(content)).not.toContain('KeyC');
+  });
+
+  it('keeps this machine\'s bindings when adopting another operator\'s library', () => {
+    const shared: LinkItem[] = [
+      { id: 'slate', name: 'Slate (new)', url: 'srt://slate:9001', hotkey: 'KeyX', midi: { type: 'cc', channel: 2, number: 7 } },
+      { id: 'cam', name: 'Camera', url: 'srt://cam:9000' },
+      { id: 'remote', name: 'Remote', url: 'srt://remote:9000', hotkey: 'KeyR' },
+    ];
+    expect(keepLocalBindings(shared, local)).toEqual([
+      { id: 'slate', name: 'Slate (new)', url: 'srt://slate:9001', hotkey: 'KeyS', midi: undefined },
+      { id: 'cam', name: 'Camera', url: 'srt://cam:9000', hotkey: 'KeyC', midi: { type: 'note', channel: 1, number: 36 } },
+      { id: 'remote', name: 'Remote', url: 'srt://remote:9000', hotkey: undefined, midi: undefined },
+    ]);
+  });
+
+  it('sees an adopted library as in sync with the local one', () => {
+    const shared = toLibraryContent(local, [], [], []);
+    const adopted = toLibraryContent(keepLocalBindings(shared.links, local), [], [], []);
+    expect(libraryFingerprint(adopted)).toBe(libraryFingerprint(shared));
+  });
+});
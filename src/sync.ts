@@ -0,0 +1,97 @@
+// Shared link library and control lock, kept in OBS so every operator connected to it sees the same thing
+import type { CustomKind, LinkGroup, LinkItem, TemplateVariable } from './types';
+import { sanitizeGroupList } from './groups';
+import { sanitizeLinkList } from './linkSettings';
+import { sanitizeVariables, withoutSecrets } from './variables';
+import { sanitizeCustomKinds } from './obs/kindAdapters';
+
+// Per OBS profile, so a show's profile carries its own library
+export const SYNC_REALM = 'OBS_WEBSOCKET_DATA_REALM_PROFILE';
+export const LIBRARY_SLOT = 'bane-ingest-library';
+export const CONTROL_SLOT = 'bane-ingest-control';
+// CustomEvent payload type announcing that a slot changed
+export const SYNC_EVENT_TYPE = 'bane-ingest-sync';
+
+// The holder refreshes its lock this often; a lock not refreshed for LOCK_STALE_MS is free to take
+export const LOCK_HEARTBEAT_MS = 10000;
+export const LOCK_STALE_MS = 30000;
+
+export type SyncSlot = 'library' | 'control';
+
+// What operators share; secret variable values and hotkey/MIDI bindings never leave the browser that set them
+export type LibraryContent = {
+  links: LinkItem[];
+  groups: LinkGroup[];
+  variables: TemplateVariable[];
+  customKinds: CustomKind[];
+};
+
+export type SharedLibrary = LibraryContent & {
+  version: 1;
+  // Bumped on every write; readers adopt anything newer than what they last saw
+  revision: number;
+  updatedAt: number;
+  updatedBy: string;
+  clientId: string;
+};
+
+export type ControlLock = {
+  clientId: string;
+  operator: string;
+  since: number;
+  heartbeatAt: number;
+};
+
+export const toLibraryContent = (links: LinkItem[], groups: LinkGroup[], variables: TemplateVariable[], customKinds: CustomKind[]): LibraryContent => ({
+  links: links.map(link => ({ ...link, hotkey: undefined, midi: undefined })),
+  ...withoutSecrets(variables, groups),
+  customKinds,
+});
+
+// Bindings are per-machine: adopted links keep this machine's hotkey and MIDI by id, whatever the library holds
+export const keepLocalBindings = (shared: LinkItem[], local: LinkItem[]) => shared.map(link => {
+  const own = local.find(l => l.id === link.id);
+  return { ...link, hotkey: own?.hotkey, midi: own?.midi };
+});
+
+// Equality for deciding whether local state differs from what was last synced. Sanitizing first puts
+// fields in one order, so a library adopted from OBS matches itself once it's back in local state.
+export const libraryFingerprint = ({ links, groups, variables, customKinds }: LibraryContent) => JSON.stringify({
+  links: sanitizeLinkList(links),
+  groups: sanitizeGroupList(groups),
+  variables: sanitizeVariables(variables),
+  customKinds: sanitizeCustomKinds(customKinds),
+});
+
+export const sanitizeSharedLibrary = (raw: unknown): SharedLibrary | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const { version, revision, updatedAt, updatedBy, clientId, links, groups, variables, customKinds } = raw as Record<string, unknown>;
+  if (version !== 1 || typeof revision !== 'number' || typeof clientId !== 'string') return null;
+  return {
+    version,
+    revision,
+    updatedAt: typeof updatedAt === 'number' ? updatedAt : 0,
+    updatedBy: typeof updatedBy === 'string' ? updatedBy : '',
+    clientId,
+    links: sanitizeLinkList(links),
+    groups: sanitizeGroupList(groups),
+    variables: sanitizeVariables(variables),
+    customKinds: sanitizeCustomKinds(customKinds),
+  };
+};
+
+export const sanitizeControlLock = (raw: unknown): ControlLock | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const { clientId, operator, since, heartbeatAt } = raw as Record<string, unknown>;
+  if (typeof clientId !== 'string' || !clientId || typeof since !== 'number' || typeof heartbeatAt !== 'number') return null;
+  return { clientId, operator: typeof operator === 'string' && operator ? operator : 'Another operator', since, heartbeatAt };
+};
+
+export const isLockLive = (lock: ControlLock | null, now: number): lock is ControlLock =>
+  !!lock && now - lock.heartbeatAt < LOCK_STALE_MS;
+
+export const isSyncMessage = (data: unknown): data is { type: typeof SYNC_EVENT_TYPE; slot: SyncSlot; clientId: string } => {
+  if (!data || typeof data !== 'object') return false;
+  const { type, slot, clientId } = data as Record<string, unknown>;
+  return type === SYNC_EVENT_TYPE && (slot === 'library' || slot === 'control') && typeof clientId === 'string';
+};
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { EXPORT_FORMAT, classifyImport, createExportBundle, mergeImport, parseImportFile } from './transfer';
+import type { MergeStrategy, ParsedImport } from './transfer';
+import type { LinkGroup, LinkItem, TemplateVariable } from './types';
+
+const settings = { probeFirst: false, numberKeys: true, midiEnabled: false };
+const variables: TemplateVariable[] = [{ name: 'host', value: 'ingest.example', secret: false }, { name: 'key', value: 'hunter22', secret: true }];
+
+const current: LinkItem[] = [
+  { id: 'cam', name: 'Camera', url: 'srt://cam:9000', hotkey: 'KeyC', groupId: 'news' },
+  { id: 'slate', name: 'Slate', url: 'srt://slate:9000' },
+];
+const currentGroups: LinkGroup[] = [{ id: 'news', name: 'News' }];
+
+const bundle = (fields: Record<string, unknown>) => JSON.stringify({ format: EXPORT_FORMAT, version: 1, ...fields });
+
+describe('export', () => {
+  it('blanks secret values and leaves passwords out unless secrets are included', () => {
+    const profile = { id: 'p', name: 'Studio', address: 'localhost', port: '4455', password: 'obs-pass', switchTarget: true };
+    const exported = createExportBundle(current, currentGroups, settings, [profile], variables);
+    expect(exported.variables).toEqual([variables[0], { name: 'key', value: '', secret: true }]);
+    expect(JSON.stringify(exported)).not.toContain('obs-pass');
+    expect(createExportBundle(current, currentGroups, settings, [profile], variables, true).variables).toEqual(variables);
+  });
+});
+
+describe('parseImportFile', () => {
+  it('reads a bundle and reports what it dropped', () => {
+    const parsed = parseImportFile('links.json', bundle({
+      links: [{ name: 'Remote', url: 'srt://{host}:9000' }, { name: 'Broken' }],
+      groups: [{ id: 'g', name: 'Remote' }, { name: 'No id' }],
+      variables: [{ name: 'host', value: 'a' }, { name: 'host', value: 'b' }],
+      settings: { probeFirst: 'yes' },
+      profiles: [{ address: 'obs.local', port: 4455 }, { name: 'Nowhere' }],
+    }));
+    expect(parsed.kind).toBe('bundle');
+    expect(parsed.links).toMatchObject([{ id: 'import-0', name: 'Remote', url: 'srt://{host}:9000' }]);
+    expect(parsed.variables).toEqual([{ name: 'host', value: 'a', secret: false }]);
+    expect(parsed.profiles).toEqual([{ id: 'import-0', name: 'obs.local', address: 'obs.local', port: '4455', switchTarget: true }]);
+    expect(parsed.errors).toEqual([
+      'groups: 1 entries without an id or name were dropped',
+      'variables: 1 entries with an invalid or repeated name were dropped',
+      'links[1] "Broken": missing url',
+      'settings.probeFirst: expected true or false',
+      'profiles[1]: needs an address and port',
+    ]);
+  });
+
+  it('reads plain link arrays from before the versioned format', () => {
+    const parsed = parseImportFile('old.json', JSON.stringify([{ id: 'a', name: 'A', url: 'rtmp://a/live' }]));
+    expect(parsed).toMatchObject({ kind: 'legacy', links: [{ id: 'a', name: 'A', url: 'rtmp://a/live' }], errors: [] });
+  });
+
+  it('refuses other files and newer versions', () => {
+    expect(parseImportFile('x.json', '{').errors[0]).toMatch(/^Not valid JSON/);
+    expect(parseImportFile('x.json', '{"links": []}').errors).toEqual(['Not a Bane Ingest Switcher export (missing "format")']);
+    expect(parseImportFile('x.json', bundle({ version: 2 })).errors).toEqual(['Unsupported export version 2 (this app reads up to 1)']);
+  });
+
+  it('reads M3U playlists with titles and groups', () => {
+    const parsed = parseImportFile('list.m3u', [
+      '#EXTM3U',
+      '#EXTINF:-1 group-title="News, Local",Morning Show',
+      'https://cdn.example/morning.m3u8',
+      'rtmp://live.example/app/backup?token=1',
+    ].join('\n'));
+    expect(parsed.groups).toEqual([{ id: 'import-group-0', name: 'News, Local' }]);
+    expect(parsed.links).toEqual([
+      { id: 'import-0', name: 'Morning Show', url: 'https://cdn.example/morning.m3u8', groupId: 'import-group-0' },
+      { id: 'import-1', name: 'backup', url: 'rtmp://live.example/app/backup?token=1', groupId: undefined },
+    ]);
+  });
+
+  it('reads CSV with a header in any column order and quoted fields', () => {
+    const parsed = parseImportFile('links.csv', '\uFEFFurl,name,tags,color\r\n"srt://a:9000?x=1,2","Cam ""A""",main;backup,sky\r\nsrt://b:9000,,,plaid\r\n,Nothing,,');
+    expect(parsed.links).toMatchObject([
+      { name: 'Cam "A"', url: 'srt://a:9000?x=1,2', tags: ['main', 'backup'], color: 'sky' },
+      { name: 'b:9000', url: 'srt://b:9000' },
+    ]);
+    expect(parsed.errors).toEqual(['row 3: unknown color "plaid" ignored', 'row 4: missing url']);
+  });
+});
+
+describe('mergeImport', () => {
+  const parsed: ParsedImport = {
+    kind: 'bundle',
+    links: [
+      { id: 'x1', name: 'Camera (new)', url: 'srt://cam:9000', hotkey: 'KeyZ', groupId: 'g1' },
+      { id: 'x2', name: 'Slate', url: 'srt://slate:9000' },
+      { id: 'x3', name: 'Remote', url: 'srt://remote:9000', hotkey: 'KeyC' },
+    ],
+    groups: [{ id: 'g1', name: 'news', color: 'rose' }, { id: 'g2', name: 'Sports' }],
+    variables: [{ name: 'key', value: '', secret: true }, { name: 'host', value: 'other.example', secret: false }, { name: 'port', value: '9000', secret: false }],
+    profiles: [],
+    errors: [],
+  };
+  let nextId = 0;
+  const merge = (strategy: MergeStrategy) => {
+    nextId = 0;
+    return mergeImport(current, currentGroups, variables, parsed, classifyImport(current, currentGroups, parsed), strategy, () => `new-${nextId++}`);
+  };
+
+  it('classifies incoming links by URL', () => {
+    expect(classifyImport(current, currentGroups, parsed).map(entry => entry.status)).toEqual(['changed', 'duplicate', 'new']);
+  });
+
+  it('skips changed links with "skip"', () => {
+    const result = merge('skip');
+    expect(result).toMatchObject({ added: 1, updated: 0, skipped: 2 });
+    expect(result.links[0]).toEqual(current[0]);
+    // Another link's hotkey isn't taken over
+    expect(result.links[2]).toMatchObject({ name: 'Remote', hotkey: undefined });
+  });
+
+  it('updates changed links in place with "overwrite", keeping local ids and bindings', () => {
+    const result = merge('overwrite');
+    expect(result).toMatchObject({ added: 1, updated: 1, skipped: 1 });
+    expect(result.links[0]).toMatchObject({ id: 'cam', name: 'Camera (new)', hotkey: 'KeyC', groupId: 'news' });
+    expect(result.groups).toEqual([{ id: 'news', name: 'News', color: 'rose', defaultSource: undefined, variables: undefined }, { id: 'new-0', name: 'Sports' }]);
+    // A blank secret never replaces the local value; others do
+    expect(result.variables).toEqual([
+      { name: 'host', value: 'other.example', secret: false },
+      { name: 'key', value: 'hunter22', secret: true },
+      { name: 'port', value: '9000', secret: false },
+    ]);
+  });
+
+  it('adds everything as new with "keep-both"', () => {
+    const result = merge('keep-both');
+    expect(result).toMatchObject({ added: 3, updated: 0, skipped: 0 });
+    expect(result.links.slice(2).map(link => link.id)).toEqual(['new-1', 'new-2', 'new-3']);
+    expect(result.variables).toEqual([...variables, { name: 'port', value: '9000', secret: false }]);
+  });
+});
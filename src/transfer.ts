@@ -0,0 +1,401 @@
+import type { ConnectionProfile, LinkGroup, LinkItem, TemplateVariable } from './types';
+import { sanitizeLinkItem } from './linkSettings';
+import { sanitizeColor, sanitizeGroupList, sanitizeTags } from './groups';
+import { sameMidiBinding } from './bindings';
+import { sanitizeVariables, withoutSecrets } from './variables';
+
+export const EXPORT_FORMAT = 'bane-ingest-switcher';
+export const EXPORT_VERSION = 1;
+
+export type SwitcherSettings = {
+  probeFirst: boolean;
+  numberKeys: boolean;
+  midiEnabled: boolean;
+};
+
+// Passwords never leave the browser; profiles are imported with an empty one
+export type ExportedProfile = Omit<ConnectionProfile, 'password'>;
+
+export type ExportBundle = {
+  format: typeof EXPORT_FORMAT;
+  version: typeof EXPORT_VERSION;
+  exportedAt: string;
+  links: LinkItem[];
+  groups: LinkGroup[];
+  // Secret values are blank unless the operator chose to include them
+  variables: TemplateVariable[];
+  settings: SwitcherSettings;
+  profiles: ExportedProfile[];
+};
+
+export type ImportSourceKind = 'bundle' | 'legacy' | 'm3u' | 'csv';
+
+export type ParsedImport = {
+  kind: ImportSourceKind;
+  links: LinkItem[];
+  groups: LinkGroup[];
+  settings?: SwitcherSettings;
+  variables?: TemplateVariable[];
+  profiles: ExportedProfile[];
+  // One readable line per rejected entry or field
+  errors: string[];
+};
+
+export type MergeStrategy = 'skip' | 'overwrite' | 'keep-both';
+
+export const MERGE_STRATEGY_LABELS: Record<MergeStrategy, string> = {
+  'skip': 'Skip Duplicates',
+  'overwrite': 'Overwrite',
+  'keep-both': 'Keep Both',
+};
+
+export type ImportEntryStatus = 'new' | 'changed' | 'duplicate';
+
+export type ImportEntry = {
+  link: LinkItem;
+  status: ImportEntryStatus;
+  // Existing link with the same URL, if any
+  existing?: LinkItem;
+};
+
+export const createExportBundle = (
+  links: LinkItem[],
+  groups: LinkGroup[],
+  settings: SwitcherSettings,
+  profiles: ConnectionProfile[],
+  variables: TemplateVariable[],
+  includeSecrets = false,
+): ExportBundle => ({
+  format: EXPORT_FORMAT,
+  version: EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  links,
+  ...(includeSecrets ? { groups, variables } : withoutSecrets(variables, groups)),
+  settings,
+  profiles: profiles.map(({ id, name, address, port, switchTarget }) => ({ id, name, address, port, switchTarget })),
+});
+
+const isRecord = (raw: unknown): raw is Record<string, unknown> => !!raw && typeof raw === 'object' && !Array.isArray(raw);
+
+// Explains why sanitizeLinkItem rejected an entry
+const describeLinkProblem = (raw: unknown) => {
+  if (!isRecord(raw)) return 'not an object';
+  const missing = (['name', 'url'] as const).filter(key => typeof raw[key] !== 'string' || !(raw[key] as string).trim());
+  if (missing.length > 0) return `missing ${missing.join(' and ')}`;
+  return 'invalid entry';
+};
+
+// Entries without an id (hand-written files, old exports) get a placeholder so they validate
+const validateLinks = (raw: unknown[], label: string, errors: string[]) => raw.flatMap((entry, index) => {
+  const withId = isRecord(entry) && typeof entry.id !== 'string' ? { ...entry, id: `import-${index}` } : entry;
+  const link = sanitizeLinkItem(withId);
+  if (link) return [{ ...link, name: link.name.trim(), url: link.url.trim() }];
+  const name = isRecord(entry) && typeof entry.name === 'string' && entry.name ? ` "${entry.name}"` : '';
+  errors.push(`${label}[${index}]${name}: ${describeLinkProblem(entry)}`);
+  return [];
+});
+
+const parseSettings = (raw: unknown, errors: string[]): SwitcherSettings | undefined => {
+  if (raw === undefined) return undefined;
+  if (!isRecord(raw)) {
+    errors.push('settings: not an object');
+    return undefined;
+  }
+  const settings: SwitcherSettings = { probeFirst: false, numberKeys: true, midiEnabled: false };
+  for (const key of Object.keys(settings) as (keyof SwitcherSettings)[]) {
+    if (raw[key] === undefined) continue;
+    if (typeof raw[key] === 'boolean') settings[key] = raw[key];
+    else errors.push(`settings.${key}: expected true or false`);
+  }
+  return settings;
+};
+
+const parseProfiles = (raw: unknown, errors: string[]) => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    errors.push('profiles: not a list');
+    return [];
+  }
+  return raw.flatMap((entry, index): ExportedProfile[] => {
+    const address = isRecord(entry) ? entry.address : undefined;
+    const port = isRecord(entry) ? entry.port : undefined;
+    if (!isRecord(entry) || typeof address !== 'string' || !address || (typeof port !== 'string' && typeof port !== 'number')) {
+      errors.push(`profiles[${index}]: needs an address and port`);
+      return [];
+    }
+    return [{
+      id: typeof entry.id === 'string' && entry.id ? entry.id : `import-${index}`,
+      name: typeof entry.name === 'string' && entry.name ? entry.name : address,
+      address,
+      port: String(port),
+      switchTarget: entry.switchTarget !== false,
+    }];
+  });
+};
+
+const parseJson = (text: string): ParsedImport => {
+  const errors: string[] = [];
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    return { kind: 'bundle', links: [], groups: [], profiles: [], errors: [`Not valid JSON: ${e instanceof Error ? e.message : String(e)}`] };
+  }
+
+  // Plain arrays are exports from before the versioned format
+  if (Array.isArray(raw)) {
+    return { kind: 'legacy', links: validateLinks(raw, 'links', errors), groups: [], profiles: [], errors };
+  }
+
+  if (!isRecord(raw) || raw.format !== EXPORT_FORMAT) {
+    return { kind: 'bundle', links: [], groups: [], profiles: [], errors: ['Not a Bane Ingest Switcher export (missing "format")'] };
+  }
+  if (typeof raw.version !== 'number' || raw.version > EXPORT_VERSION) {
+    errors.push(`Unsupported export version ${String(raw.version)} (this app reads up to ${EXPORT_VERSION})`);
+    return { kind: 'bundle', links: [], groups: [], profiles: [], errors };
+  }
+
+  if (raw.links !== undefined && !Array.isArray(raw.links)) errors.push('links: not a list');
+  if (raw.groups !== undefined && !Array.isArray(raw.groups)) errors.push('groups: not a list');
+  const groups = sanitizeGroupList(raw.groups);
+  if (Array.isArray(raw.groups) && groups.length < raw.groups.length) {
+    errors.push(`groups: ${raw.groups.length - groups.length} entries without an id or name were dropped`);
+  }
+  if (raw.variables !== undefined && !Array.isArray(raw.variables)) errors.push('variables: not a list');
+  const variables = sanitizeVariables(raw.variables);
+  if (Array.isArray(raw.variables) && variables.length < raw.variables.length) {
+    errors.push(`variables: ${raw.variables.length - variables.length} entries with an invalid or repeated name were dropped`);
+  }
+
+  return {
+    kind: 'bundle',
+    links: validateLinks(Array.isArray(raw.links) ? raw.links : [], 'links', errors),
+    groups,
+    variables,
+    settings: parseSettings(raw.settings, errors),
+    profiles: parseProfiles(raw.profiles, errors),
+    errors,
+  };
+};
+
+const nameFromUrl = (url: string) => url.replace(/[?#].*$/, '').split(/[\\/]/).filter(Boolean).pop() || url;
+
+// Extended M3U: `#EXTINF:-1 group-title="News",Title` followed by the URL line
+const parseM3u = (text: string): ParsedImport => {
+  const errors: string[] = [];
+  const links: LinkItem[] = [];
+  const groupNames: string[] = [];
+  let pending: { name?: string; group?: string } = {};
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+    if (line.startsWith('#EXTINF')) {
+      // Attribute values may contain commas; the title starts after the first one outside quotes
+      const comma = line.replace(/"[^"]*"/g, m => ' '.repeat(m.length)).indexOf(',');
+      const group = /group-title="([^"]*)"/i.exec(line)?.[1]?.trim();
+      pending = { name: comma !== -1 ? line.slice(comma + 1).trim() : undefined, group: group || undefined };
+      if (comma === -1) errors.push(`line ${index + 1}: #EXTINF without a title`);
+      return;
+    }
+    if (line.startsWith('#')) return;
+    if (pending.group && !groupNames.includes(pending.group)) groupNames.push(pending.group);
+    links.push({
+      id: `import-${links.length}`,
+      name: pending.name || nameFromUrl(line),
+      url: line,
+      groupId: pending.group ? `import-group-${groupNames.indexOf(pending.group)}` : undefined,
+    });
+    pending = {};
+  });
+
+  const groups = groupNames.map((name, i) => ({ id: `import-group-${i}`, name }));
+  if (links.length === 0) errors.push('No playlist entries found');
+  return { kind: 'm3u', links, groups, profiles: [], errors };
+};
+
+// RFC 4180-style: quoted fields may contain commas, newlines and doubled quotes
+const parseCsvRows = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') quoted = true;
+    else if (char === ',') { row.push(field); field = ''; }
+    else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else field += char;
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+const CSV_COLUMNS = ['name', 'url', 'group', 'tags', 'color'] as const;
+
+// Columns: name,url[,group,tags,color]; a header row may reorder them
+const parseCsv = (text: string): ParsedImport => {
+  const errors: string[] = [];
+  const rows = parseCsvRows(text);
+  const header = rows[0]?.map(cell => cell.trim().toLowerCase()) ?? [];
+  const hasHeader = header.includes('url');
+  const columnOf = (column: typeof CSV_COLUMNS[number]) => hasHeader ? header.indexOf(column) : CSV_COLUMNS.indexOf(column);
+
+  const groupNames: string[] = [];
+  const links = (hasHeader ? rows.slice(1) : rows).flatMap((row, index): LinkItem[] => {
+    const cell = (column: typeof CSV_COLUMNS[number]) => row[columnOf(column)]?.trim() ?? '';
+    const lineNo = index + (hasHeader ? 2 : 1);
+    const url = cell('url');
+    if (!url) {
+      errors.push(`row ${lineNo}: missing url`);
+      return [];
+    }
+    const group = cell('group');
+    if (group && !groupNames.includes(group)) groupNames.push(group);
+    const colorText = cell('color').toLowerCase();
+    const color = sanitizeColor(colorText);
+    if (colorText && !color) errors.push(`row ${lineNo}: unknown color "${colorText}" ignored`);
+    return [{
+      id: `import-${index}`,
+      name: cell('name') || nameFromUrl(url),
+      url,
+      groupId: group ? `import-group-${groupNames.indexOf(group)}` : undefined,
+      tags: sanitizeTags(cell('tags').split(/[;,|]/)),
+      color,
+    }];
+  });
+
+  const groups = groupNames.map((name, i) => ({ id: `import-group-${i}`, name }));
+  if (links.length === 0 && errors.length === 0) errors.push('No rows found');
+  return { kind: 'csv', links, groups, profiles: [], errors };
+};
+
+export const IMPORT_ACCEPT = '.json,.m3u,.m3u8,.csv';
+
+// Picks the parser from the extension, falling back to sniffing the content
+export const parseImportFile = (fileName: string, text: string): ParsedImport => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  const body = text.replace(/^\uFEFF/, '');
+  if (ext === 'm3u' || ext === 'm3u8' || body.trimStart().startsWith('#EXTM3U')) return parseM3u(body);
+  if (ext === 'csv') return parseCsv(body);
+  return parseJson(body);
+};
+
+// Compares what a switch actually uses; ids, hotkeys and ordering don't make a link "changed"
+const linkSignature = ({ name, url, settings, sceneAction, audio, safe, tags, color }: LinkItem, groupName?: string) =>
+  JSON.stringify({ name, url, settings, sceneAction, audio, safe, tags, color, groupName });
+
+// Classifies every incoming link against the current list by URL
+export const classifyImport = (
+  current: LinkItem[],
+  currentGroups: LinkGroup[],
+  parsed: ParsedImport,
+): ImportEntry[] => {
+  const groupName = (groups: LinkGroup[], id?: string) => groups.find(g => g.id === id)?.name.toLowerCase();
+  const seen = new Set<string>();
+  return parsed.links.map(link => {
+    const existing = current.find(l => l.url === link.url);
+    // A URL repeated inside the file only counts once
+    if (seen.has(link.url)) return { link, status: 'duplicate', existing };
+    seen.add(link.url);
+    if (!existing) return { link, status: 'new' };
+    const same = linkSignature(existing, groupName(currentGroups, existing.groupId))
+      === linkSignature(link, groupName(parsed.groups, link.groupId));
+    return { link, status: same ? 'duplicate' : 'changed', existing };
+  });
+};
+
+export type MergeResult = {
+  links: LinkItem[];
+  groups: LinkGroup[];
+  variables: TemplateVariable[];
+  added: number;
+  updated: number;
+  skipped: number;
+};
+
+// Imported groups join existing ones by name; links are remapped to the resulting ids
+export const mergeImport = (
+  current: LinkItem[],
+  currentGroups: LinkGroup[],
+  currentVariables: TemplateVariable[],
+  parsed: ParsedImport,
+  entries: ImportEntry[],
+  strategy: MergeStrategy,
+  generateId: () => string,
+): MergeResult => {
+  const groups = [...currentGroups];
+  const groupIds = new Map<string, string>();
+  parsed.groups.forEach(group => {
+    const index = groups.findIndex(g => g.name.toLowerCase() === group.name.toLowerCase());
+    if (index === -1) {
+      const id = generateId();
+      groups.push({ ...group, id });
+      groupIds.set(group.id, id);
+      return;
+    }
+    groupIds.set(group.id, groups[index].id);
+    if (strategy === 'overwrite') {
+      groups[index] = {
+        ...groups[index],
+        color: group.color ?? groups[index].color,
+        defaultSource: group.defaultSource ?? groups[index].defaultSource,
+        variables: group.variables ? { ...groups[index].variables, ...group.variables } : groups[index].variables,
+      };
+    }
+  });
+
+  // Variables join by name; a blank (stripped secret) value never replaces a local one
+  const variables = [...currentVariables];
+  (parsed.variables ?? []).forEach(variable => {
+    const index = variables.findIndex(v => v.name === variable.name);
+    if (index === -1) variables.push(variable);
+    else if (strategy === 'overwrite' && variable.value) variables[index] = { ...variable, secret: variable.secret || variables[index].secret };
+  });
+
+  // Bindings are per-machine; imported links only keep them when nothing local uses them
+  const remap = (link: LinkItem): LinkItem => ({
+    ...link,
+    groupId: link.groupId ? groupIds.get(link.groupId) : undefined,
+    hotkey: link.hotkey && !current.some(l => l.hotkey === link.hotkey) ? link.hotkey : undefined,
+    midi: link.midi && !current.some(l => sameMidiBinding(l.midi, link.midi)) ? link.midi : undefined,
+  });
+
+  const links = [...current];
+  let added = 0;
+  let updated = 0;
+  let skipped = 0;
+  const seen = new Set<string>();
+  entries.forEach(({ link, status, existing }) => {
+    const repeated = seen.has(link.url);
+    seen.add(link.url);
+    if (strategy === 'keep-both') {
+      links.push({ ...remap(link), id: generateId() });
+      added++;
+    } else if (repeated || status === 'duplicate' || (status === 'changed' && strategy === 'skip')) {
+      skipped++;
+    } else if (status === 'changed' && existing) {
+      const index = links.findIndex(l => l.id === existing.id);
+      // Keep the local id and bindings so hotkeys, MIDI and failover chains stay attached
+      links[index] = { ...remap(link), id: existing.id, hotkey: existing.hotkey, midi: existing.midi };
+      updated++;
+    } else {
+      links.push({ ...remap(link), id: generateId() });
+      added++;
+    }
+  });
+
+  return { links, groups, variables, added, updated, skipped };
+};
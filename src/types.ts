@@ -0,0 +1,171 @@
+// --- Shared domain types ---
+
+// Source kinds whose extra settings a link can carry, keyed by OBS input kind
+export type LinkSettingKind = 'ffmpeg_source' | 'browser_source';
+export type LinkSettingValue = string | number | boolean;
+export type LinkSettings = Partial<Record<LinkSettingKind, Record<string, LinkSettingValue>>>;
+
+export type LinkItem = {
+  id: string;
+  name: string;
+  url: string;
+  // Merged into SetInputSettings when the target source is of the matching kind
+  settings?: LinkSettings;
+  sceneAction?: LinkSceneAction;
+  audio?: LinkAudio;
+  // May switch the on-air source while streaming without the live guard stepping in
+  safe?: boolean;
+  // Keyboard shortcut as `[Ctrl+][Alt+][Shift+]<KeyboardEvent.code>`, e.g. "Shift+KeyA"
+  hotkey?: string;
+  midi?: MidiBinding;
+  groupId?: string;
+  tags?: string[];
+  color?: LinkColor;
+};
+
+// Palette keys; the matching Tailwind classes live in groups.ts
+export type LinkColor = 'rose' | 'amber' | 'emerald' | 'sky' | 'violet' | 'fuchsia';
+
+export type LinkGroup = {
+  id: string;
+  name: string;
+  color?: LinkColor;
+  // Source selected when the group's tab is opened
+  defaultSource?: string;
+  // Values that win over the global template variables of the same name
+  variables?: Record<string, string>;
+};
+
+// Substituted for `{name}` in link URLs at switch time; secret values are masked and left out of exports
+export type TemplateVariable = {
+  name: string;
+  value: string;
+  secret: boolean;
+};
+
+// A MIDI pad or button bound to a link; channel is 1–16
+export type MidiBinding = {
+  type: 'note' | 'cc';
+  channel: number;
+  number: number;
+};
+
+// What happens around a switch besides the URL swap, applied on every instance that has the named scene/transition
+export type LinkSceneAction = {
+  // Program scene to go to once the new URL is loaded
+  sceneName?: string;
+  // Transition used for that scene change, and its duration in ms
+  transitionName?: string;
+  transitionDuration?: number;
+  // Hide the source's scene items while the URL reloads and show them again once it plays
+  hideDuringReload?: boolean;
+};
+
+// OBS audio monitoring types, as SetInputAudioMonitorType takes them
+export type MonitorType = 'OBS_MONITORING_TYPE_NONE' | 'OBS_MONITORING_TYPE_MONITOR_ONLY' | 'OBS_MONITORING_TYPE_MONITOR_AND_OUTPUT';
+
+// How the target source's audio is handled around a switch
+export type LinkAudio = {
+  // Mute while the new URL loads; unmuted once it plays unless it was muted before
+  muteDuringReload?: boolean;
+  // Fade out before the reload and back in once it plays, over this many ms each way
+  fadeMs?: number;
+  // Volume the source ends up at; without it the volume from before the switch is kept
+  volumeDb?: number;
+  monitorType?: MonitorType;
+};
+
+export type OBSSource = {
+  name: string;
+  kind: string;
+};
+
+export type ConnectionProfile = {
+  id: string;
+  name: string;
+  address: string;
+  port: string;
+  password: string;
+  // Whether switches are pushed to this instance
+  switchTarget: boolean;
+};
+
+// Result of probing an ingest after (or before) it goes on air
+export type LinkHealth = 'checking' | 'healthy' | 'stalled' | 'failed';
+
+// A switch's answer: the new health, null when there's none to report, 'refused' when nothing was tried,
+// or 'missing' when no switch target has the source
+export type SwitchOutcome = LinkHealth | 'refused' | 'missing' | null;
+
+// Ordered links for one target source: index 0 is the primary, the rest are backups
+export type FailoverChain = {
+  linkIds: string[];
+  enabled: boolean;
+  // Seconds the media may sit outside "playing" before it counts as stalled
+  stallSeconds: number;
+  returnToPrimary: boolean;
+  // Operator pin: no automatic switching while set
+  locked: boolean;
+};
+
+export type FailoverEvent = {
+  id: string;
+  at: number;
+  sourceName: string;
+  from: string | null;
+  to: string | null;
+  reason: string;
+};
+
+export type CueStatus = 'pending' | 'fired' | 'failed' | 'skipped';
+
+// One run-of-show entry: switch a link into a source at a clock time or after the previous cue
+export type ScheduleCue = {
+  id: string;
+  linkId: string;
+  sourceName: string;
+  timing: 'at' | 'after';
+  // Epoch ms for 'at' cues
+  at?: number;
+  // Delay for 'after' cues, counted from the previous cue (or from Run)
+  afterMs?: number;
+  status: CueStatus;
+  firedAt?: number;
+  // Switch outcome or why the cue didn't fire
+  outcome?: string;
+};
+
+// What caused a switch; 'external' is a change made outside this app (OBS UI, companion, scripts)
+// What happens when a hand-fired switch would change the on-air source while streaming
+export type LiveGuard = 'off' | 'confirm' | 'block';
+
+export type SwitchTrigger = 'click' | 'hotkey' | 'midi' | 'failover' | 'schedule' | 'revert' | 'external';
+
+// URLs are kept as the link's template, or with secrets masked when no link plays them, and resolved again on replay
+export type SwitchRecord = {
+  id: string;
+  at: number;
+  sourceName: string;
+  previousUrl: string | null;
+  url: string;
+  // Links whose templates the URLs are; their groups' variables resolve them
+  previousLinkId?: string;
+  linkId?: string;
+  // Link name at the time of the switch; unset when no link has the URL
+  linkName?: string;
+  trigger: SwitchTrigger;
+  outcome?: string;
+};
+
+// Operator-defined source kind, e.g. a plugin whose URL lives under its own setting key
+export type CustomKind = {
+  kind: string;
+  label: string;
+  urlKey: string;
+  // Boolean setting set to true for local paths, like ffmpeg_source's is_local_file
+  localFlagKey?: string;
+  // URL is stored as a VLC-style playlist array under urlKey
+  playlist: boolean;
+  // Input reports media state (GetMediaInputStatus), so health and failover can watch it
+  mediaStatus: boolean;
+};
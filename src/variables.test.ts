@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SECRET_MASK,
+  keepLocalSecrets,
+  maskSecrets,
+  resolveTemplate,
+  sanitizeGroupVariables,
+  sanitizeVariables,
+  secretValues,
+  templateNames,
+  variableScope,
+  withoutSecrets,
+} from './variables';
+import type { LinkGroup, TemplateVariable } from './types';
+
+const variables: TemplateVariable[] = [
+  { name: 'host', value: 'ingest.example', secret: false },
+  { name: 'key', value: 'hunter22', secret: true },
+  { name: 'empty', value: '', secret: true },
+];
+const groups: LinkGroup[] = [{ id: 'remote', name: 'Remote', variables: { host: 'remote.example', key: 'remote-key-1' } }];
+
+describe('template variables', () => {
+  it('lists placeholder names once, in order of first use', () => {
+    expect(templateNames('srt://{host}:{port}?passphrase={key}&again={host}&not={1x}')).toEqual(['host', 'port', 'key']);
+  });
+
+  it('resolves from the globals with the group overrides on top', () => {
+    const url = 'srt://{host}:9000?passphrase={key}';
+    expect(resolveTemplate(url, variableScope(variables))).toEqual({ url: 'srt://ingest.example:9000?passphrase=hunter22', missing: [] });
+    expect(resolveTemplate(url, variableScope(variables, groups[0])).url).toBe('srt://remote.example:9000?passphrase=remote-key-1');
+  });
+
+  it('reports undefined and empty variables as missing and leaves their placeholders', () => {
+    expect(resolveTemplate('srt://{host}:{port}/{empty}', variableScope(variables))).toEqual({
+      url: 'srt://ingest.example:{port}/{empty}',
+      missing: ['port', 'empty'],
+    });
+  });
+
+  it('masks secret values, including group overrides of secret names', () => {
+    const secrets = secretValues(variables, groups);
+    expect(secrets).toEqual(['remote-key-1', 'hunter22']);
+    expect(maskSecrets('a=hunter22&b=remote-key-1&c=remote.example', secrets)).toBe(`a=${SECRET_MASK}&b=${SECRET_MASK}&c=remote.example`);
+  });
+
+  it('masks a secret containing another one whole', () => {
+    expect(maskSecrets('x=hunter22-long', secretValues([
+      { name: 'a', value: 'hunter22', secret: true },
+      { name: 'b', value: 'hunter22-long', secret: true },
+    ], []))).toBe(`x=${SECRET_MASK}`);
+  });
+
+  it('strips secrets for export and puts local ones back when a shared copy comes in', () => {
+    const stripped = withoutSecrets(variables, groups);
+    expect(stripped.variables.find(v => v.name === 'key')?.value).toBe('');
+    expect(stripped.groups[0].variables).toEqual({ host: 'remote.example' });
+
+    const kept = keepLocalSecrets(stripped, { variables, groups });
+    expect(kept.variables).toEqual(variables);
+    expect(kept.groups[0].variables).toEqual({ host: 'remote.example', key: 'remote-key-1' });
+  });
+
+  it('drops invalid and repeated names when loading', () => {
+    expect(sanitizeVariables([
+      { name: 'host', value: 'a', secret: 'yes' },
+      { name: 'host', value: 'b' },
+      { name: '1st', value: 'c' },
+      { name: 'port', value: 9000 },
+      'junk',
+    ])).toEqual([{ name: 'host', value: 'a', secret: false }, { name: 'port', value: '', secret: false }]);
+    expect(sanitizeGroupVariables({ host: 'a', 'bad name': 'b', empty: '', port: 1 })).toEqual({ host: 'a' });
+    expect(sanitizeGroupVariables({ empty: '' })).toBeUndefined();
+  });
+});
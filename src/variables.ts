@@ -0,0 +1,87 @@
+import type { LinkGroup, TemplateVariable } from './types';
+
+const PLACEHOLDER = /\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Shown instead of secret values anywhere a URL is displayed
+export const SECRET_MASK = '••••';
+
+export const isValidVariableName = (name: string) => VARIABLE_NAME.test(name);
+
+// Placeholder names in order of first use, e.g. "srt://{host}:{port}" → ["host", "port"]
+export const templateNames = (url: string) => [...new Set([...url.matchAll(PLACEHOLDER)].map(match => match[1]))];
+
+// Global values overlaid with the group's overrides
+export const variableScope = (variables: TemplateVariable[], group?: LinkGroup): Record<string, string> => ({
+  ...Object.fromEntries(variables.map(v => [v.name, v.value])),
+  ...group?.variables,
+});
+
+// Empty values count as missing; a URL with anything missing must not be sent
+export const resolveTemplate = (url: string, scope: Record<string, string>) => {
+  const missing = templateNames(url).filter(name => !scope[name]);
+  return { url: url.replace(PLACEHOLDER, (placeholder, name: string) => scope[name] || placeholder), missing };
+};
+
+// Values to hide: secret globals and any group override of a secret name
+export const secretValues = (variables: TemplateVariable[], groups: LinkGroup[]) => {
+  const secretNames = new Set(variables.filter(v => v.secret).map(v => v.name));
+  const values = [
+    ...variables.filter(v => v.secret).map(v => v.value),
+    ...groups.flatMap(g => Object.entries(g.variables ?? {}).filter(([name]) => secretNames.has(name)).map(([, value]) => value)),
+  ];
+  // Longest first so a secret containing another is masked whole
+  return [...new Set(values.filter(Boolean))].sort((a, b) => b.length - a.length);
+};
+
+export const maskSecrets = (text: string, secrets: string[]) =>
+  secrets.reduce((masked, secret) => masked.split(secret).join(SECRET_MASK), text);
+
+// For exports: secret values blanked, group overrides of secret names dropped
+export const withoutSecrets = (variables: TemplateVariable[], groups: LinkGroup[]) => {
+  const secretNames = new Set(variables.filter(v => v.secret).map(v => v.name));
+  return {
+    variables: variables.map(v => (v.secret ? { ...v, value: '' } : v)),
+    groups: groups.map(group => {
+      if (!group.variables) return group;
+      const kept = Object.entries(group.variables).filter(([name]) => !secretNames.has(name));
+      return { ...group, variables: kept.length > 0 ? Object.fromEntries(kept) : undefined };
+    }),
+  };
+};
+
+// Inverse of withoutSecrets for a library synced in from elsewhere: this browser's secret values and overrides come back
+export const keepLocalSecrets = (
+  shared: { variables: TemplateVariable[]; groups: LinkGroup[] },
+  local: { variables: TemplateVariable[]; groups: LinkGroup[] },
+) => {
+  const localSecrets = new Map(local.variables.filter(v => v.secret).map(v => [v.name, v.value]));
+  const secretNames = new Set(shared.variables.filter(v => v.secret).map(v => v.name));
+  return {
+    variables: shared.variables.map(v => (v.secret && localSecrets.has(v.name) ? { ...v, value: localSecrets.get(v.name)! } : v)),
+    groups: shared.groups.map(group => {
+      const overrides = Object.entries(local.groups.find(g => g.id === group.id)?.variables ?? {}).filter(([name]) => secretNames.has(name));
+      return overrides.length > 0 ? { ...group, variables: { ...group.variables, ...Object.fromEntries(overrides) } } : group;
+    }),
+  };
+};
+
+export const sanitizeVariables = (raw: unknown) => {
+  const seen = new Set<string>();
+  return (Array.isArray(raw) ? raw : [])
+    .map((entry): TemplateVariable | null => {
+      if (!entry || typeof entry !== 'object') return null;
+      const { name, value, secret } = entry as Record<string, unknown>;
+      if (typeof name !== 'string' || !isValidVariableName(name) || seen.has(name)) return null;
+      seen.add(name);
+      return { name, value: typeof value === 'string' ? value : '', secret: secret === true };
+    })
+    .filter((variable): variable is TemplateVariable => variable !== null);
+};
+
+export const sanitizeGroupVariables = (raw: unknown) => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return undefined;
+  const entries = Object.entries(raw).filter((entry): entry is [string, string] =>
+    isValidVariableName(entry[0]) && typeof entry[1] === 'string' && entry[1] !== '');
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};